@@ -0,0 +1,31 @@
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+// Services registered on a fresh database. Onboarding another product only
+// needs a new document in the services collection, no deploy
+const services = [
+  {
+    slug: "examaxis",
+    name: "ExamAxis",
+    // Redirect URLs are rejected until patterns are configured
+    redirectUrlPatterns: [] as string[],
+  },
+];
+
+const seed = async () => {
+  for (const { slug, ...data } of services) {
+    await prisma.service.upsert({
+      where: { slug },
+      update: {},
+      create: { slug, ...data },
+    });
+  }
+};
+
+seed()
+  .catch((error) => {
+    console.error("Seeding services failed", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -1,5 +1,6 @@
 import express, { json, urlencoded, type Application } from "express";
 import cors from "cors";
+import cookieParser from "cookie-parser";
 import helmet from "helmet";
 import morgan from "morgan";
 import rateLimit from "express-rate-limit";
@@ -8,10 +9,13 @@ import authRoutes from "./routes/auth";
 import oauthRoutes from "./routes/oauth";
 import healthRoutes from "./routes/health";
 import metricsRoutes from "./routes/metrics";
+import wellKnownRoutes from "./routes/wellKnown";
 import { config } from "./config/app";
 import { connect } from "./config/database";
 import { formatTimestamp } from "./utils/dayjs";
 import { logger } from "./helpers/logger";
+import { loadSigningKeys } from "./helpers/signingKeys";
+import { ensureKeyValueStoreIndexes } from "./services/KeyValueStore";
 import { errorHandler, notFound } from "./middleware/errorHandler";
 import { metricsMiddleware } from "./middleware/metrics";
 import { CUSTOM_HEADERS } from "./constants/common";
@@ -83,6 +87,7 @@ const initializeMiddlewares = (app: Application): void => {
   // Request parsing middleware with stricter limits
   app.use(json({ limit: "1mb" }));
   app.use(urlencoded({ extended: true, limit: "1mb" }));
+  app.use(cookieParser());
 
   // Logging middleware with custom format including IP
   app.use(
@@ -108,6 +113,7 @@ const initializeRoutes = (app: Application): void => {
   app.use("/api/health", healthRoutes);
   app.use("/api/oauth", oauthRoutes);
   app.use("/metrics", metricsRoutes);
+  app.use("/.well-known", wellKnownRoutes);
 };
 
 /**
@@ -136,8 +142,12 @@ export const createApp = (): Application => {
  */
 export const startServer = async (): Promise<Application> => {
   try {
+    // Fail fast on missing or invalid signing keys
+    loadSigningKeys();
+
     // Connect to database
     await connect();
+    await ensureKeyValueStoreIndexes();
     const app = createApp();
 
     // Start server
@@ -2,9 +2,26 @@ import dotenvx from "@dotenvx/dotenvx";
 dotenvx.config({ ignore: ["MISSING_ENV_FILE"] });
 
 import type { IConfig } from "../types/config";
-import { getRequiredEnvNumber, getRequiredEnvVar } from "../utils/env";
+import {
+  getEnvOption,
+  getOAuthProviderEnv,
+  getOidcProvidersEnv,
+  getRequiredEnvNumber,
+  getRequiredEnvVar,
+} from "../utils/env";
+import {
+  GITLAB_DEFAULT_BASE_URL,
+  JWT_ALGORITHMS,
+  KV_STORE_DRIVERS,
+  MICROSOFT_DEFAULT_TENANT,
+  SMS_DEFAULT_OUTPUT_FILE,
+  SMS_PROVIDERS,
+} from "../constants/common";
 import { convertToMilliseconds } from "../utils/dayjs";
 
+const microsoftOAuth = getOAuthProviderEnv("MICROSOFT");
+const gitlabOAuth = getOAuthProviderEnv("GITLAB");
+
 export const config: IConfig = {
   port: getRequiredEnvNumber("PORT"),
   nodeEnv: getRequiredEnvVar("NODE_ENV"),
@@ -25,6 +42,14 @@ export const config: IConfig = {
     refreshSecret: getRequiredEnvVar("JWT_REFRESH_SECRET"),
     expiresIn: getRequiredEnvVar("JWT_EXPIRES_IN"),
     refreshExpiresIn: getRequiredEnvVar("JWT_REFRESH_EXPIRES_IN"),
+    algorithm: getEnvOption(
+      "JWT_ALGORITHM",
+      JWT_ALGORITHMS,
+      JWT_ALGORITHMS.HS256
+    ),
+    // Only used by RS256/ES256, which sign with private keys loaded from disk
+    keysDir: process.env["JWT_KEYS_DIR"] ?? "keys",
+    activeKeyId: process.env["JWT_ACTIVE_KEY_ID"] ?? "",
   },
 
   email: {
@@ -42,6 +67,32 @@ export const config: IConfig = {
     loginLockTime: getRequiredEnvNumber("LOCK_TIME"),
     maxRegistrationAttempts: getRequiredEnvNumber("MAX_REGISTRATION_ATTEMPTS"),
     registrationLockTime: getRequiredEnvNumber("REGISTRATION_LOCK_TIME"),
+    encryptionKey: getRequiredEnvVar("ENCRYPTION_KEY"),
+  },
+
+  webauthn: {
+    rpId: getRequiredEnvVar("WEBAUTHN_RP_ID"),
+    origins: getRequiredEnvVar("WEBAUTHN_ORIGINS")
+      .split(",")
+      .map((origin) => origin.trim()),
+  },
+
+  sms: {
+    provider: getEnvOption(
+      "SMS_PROVIDER",
+      SMS_PROVIDERS,
+      SMS_PROVIDERS.CONSOLE
+    ),
+    // Only used by the file provider
+    outputFile: process.env["SMS_OUTPUT_FILE"] ?? SMS_DEFAULT_OUTPUT_FILE,
+  },
+
+  kvStore: {
+    driver: getEnvOption(
+      "KV_STORE_DRIVER",
+      KV_STORE_DRIVERS,
+      KV_STORE_DRIVERS.MEMORY
+    ),
   },
 
   rateLimit: {
@@ -51,16 +102,18 @@ export const config: IConfig = {
 
   discordAlert: getRequiredEnvVar("DISCORD_WEBHOOK_URL"),
   oauth: {
-    google: {
-      clientId: getRequiredEnvVar("GOOGLE_CLIENT_ID"),
-      clientSecret: getRequiredEnvVar("GOOGLE_CLIENT_SECRET"),
-      callbackUrl: getRequiredEnvVar("GOOGLE_CALLBACK_URL"),
+    google: getOAuthProviderEnv("GOOGLE"),
+    github: getOAuthProviderEnv("GITHUB"),
+    microsoft: microsoftOAuth && {
+      ...microsoftOAuth,
+      tenant: process.env["MICROSOFT_TENANT"] ?? MICROSOFT_DEFAULT_TENANT,
     },
-    github: {
-      clientId: getRequiredEnvVar("GITHUB_CLIENT_ID"),
-      clientSecret: getRequiredEnvVar("GITHUB_CLIENT_SECRET"),
-      callbackUrl: getRequiredEnvVar("GITHUB_CALLBACK_URL"),
+    gitlab: gitlabOAuth && {
+      ...gitlabOAuth,
+      baseUrl: process.env["GITLAB_BASE_URL"] ?? GITLAB_DEFAULT_BASE_URL,
     },
+    discord: getOAuthProviderEnv("DISCORD"),
+    oidc: getOidcProvidersEnv(),
   },
 
   loki: {
@@ -9,12 +9,29 @@ import {
   Strategy as GitHubStrategy,
   type Profile as GitHubProfile,
 } from "passport-github2";
+import { Strategy as MicrosoftStrategy } from "passport-microsoft";
+import {
+  Strategy as GitLabStrategy,
+  type Profile as GitLabProfile,
+} from "passport-gitlab2";
+import {
+  Strategy as DiscordStrategy,
+  type Profile as DiscordProfile,
+} from "passport-discord";
+import type { Profile as PassportProfile } from "passport";
 import { config } from "./app";
 import { prisma } from "./prisma";
 import type { User } from "@prisma/client";
 import { logger } from "../helpers/logger";
-import { handleGithubAuth, handleGoogleAuth } from "../services/OauthService";
+import {
+  handleDiscordAuth,
+  handleGithubAuth,
+  handleGitlabAuth,
+  handleGoogleAuth,
+  handleMicrosoftAuth,
+} from "../services/OauthService";
 import { AUTH_PROVIDERS } from "../constants/common";
+import type { OAuthLoginResult } from "../types/user";
 
 passport.serializeUser((user: Express.User, done) => {
   done(null, (user as User).id);
@@ -31,80 +48,232 @@ passport.deserializeUser(async (id: string, done) => {
   }
 });
 
+// Hand the login outcome to passport: the user, or no user and the token of
+// a link awaiting confirmation (see authenticateOAuthProvider)
+const completeVerify = (done: VerifyCallback, result: OAuthLoginResult) =>
+  "user" in result
+    ? done(null, result.user)
+    : done(null, false, { linkToken: result.linkToken });
+
 // Google Strategy
-passport.use(
-  new GoogleStrategy(
-    {
-      clientID: config.oauth.google.clientId,
-      clientSecret: config.oauth.google.clientSecret,
-      callbackURL: config.oauth.google.callbackUrl,
-      passReqToCallback: true,
-    },
-    async (
-      req: Request,
-      accessToken: string,
-      refreshToken: string,
-      profile: GoogleProfile,
-      done: VerifyCallback
-    ) => {
-      try {
-        const state = req.query["state"]
-          ? JSON.parse(req.query["state"] as string)
-          : {};
-        const service = state.service;
-
-        if (!service) {
-          return done(new Error("Missing service in OAuth state"), undefined);
-        }
+if (config.oauth.google) {
+  const { clientId, clientSecret, callbackUrl } = config.oauth.google;
+
+  passport.use(
+    new GoogleStrategy(
+      {
+        clientID: clientId,
+        clientSecret,
+        callbackURL: callbackUrl,
+        passReqToCallback: true,
+      },
+      async (
+        req: Request,
+        accessToken: string,
+        refreshToken: string,
+        profile: GoogleProfile,
+        done: VerifyCallback
+      ) => {
+        try {
+          // Verified by verifyOAuthState before the strategy runs
+          const service = req.oauthState?.service;
+
+          if (!service) {
+            return done(new Error("Missing service in OAuth state"), undefined);
+          }
 
-        const user = await handleGoogleAuth(
-          profile,
-          AUTH_PROVIDERS.GOOGLE,
-          service
-        );
-        return done(null, user);
-      } catch (error) {
-        logger.error("Google authentication error", { error, profile });
-        return done(error as Error, undefined);
+          const result = await handleGoogleAuth(
+            profile,
+            AUTH_PROVIDERS.GOOGLE,
+            service,
+            req.oauthState?.linkUserId
+          );
+          return completeVerify(done, result);
+        } catch (error) {
+          logger.error("Google authentication error", { error, profile });
+          return done(error as Error, undefined);
+        }
       }
-    }
-  )
-);
+    )
+  );
+}
 
 // GitHub Strategy
-passport.use(
-  new GitHubStrategy(
-    {
-      clientID: config.oauth.github.clientId,
-      clientSecret: config.oauth.github.clientSecret,
-      callbackURL: config.oauth.github.callbackUrl,
-      passReqToCallback: true,
-    },
-    async (
-      req: Request,
-      accessToken: string,
-      refreshToken: string,
-      profile: GitHubProfile,
-      done: (error: Error | null, user?: User) => void
-    ) => {
-      try {
-        const state = req.query["state"]
-          ? JSON.parse(req.query["state"] as string)
-          : {};
-        const service = state.service;
-
-        if (!service) {
-          return done(new Error("Missing service in OAuth state"), undefined);
+if (config.oauth.github) {
+  const { clientId, clientSecret, callbackUrl } = config.oauth.github;
+
+  passport.use(
+    new GitHubStrategy(
+      {
+        clientID: clientId,
+        clientSecret,
+        callbackURL: callbackUrl,
+        passReqToCallback: true,
+      },
+      async (
+        req: Request,
+        accessToken: string,
+        refreshToken: string,
+        profile: GitHubProfile,
+        done: VerifyCallback
+      ) => {
+        try {
+          // Verified by verifyOAuthState before the strategy runs
+          const service = req.oauthState?.service;
+
+          if (!service) {
+            return done(new Error("Missing service in OAuth state"), undefined);
+          }
+
+          const result = await handleGithubAuth(
+            profile,
+            accessToken,
+            service,
+            req.oauthState?.linkUserId
+          );
+          return completeVerify(done, result);
+        } catch (error) {
+          logger.error("GitHub authentication error", { error, profile });
+          return done(error as Error, undefined);
+        }
+      }
+    )
+  );
+}
+
+// Microsoft Strategy - "common" tenant accepts personal and work/school accounts
+if (config.oauth.microsoft) {
+  const { clientId, clientSecret, callbackUrl, tenant } =
+    config.oauth.microsoft;
+
+  passport.use(
+    new MicrosoftStrategy(
+      {
+        clientID: clientId,
+        clientSecret,
+        callbackURL: callbackUrl,
+        tenant,
+        // openid and email return an ID token that says if the email is verified
+        scope: ["openid", "email", "user.read"],
+        passReqToCallback: true,
+      },
+      async (
+        req: Request,
+        accessToken: string,
+        refreshToken: string,
+        params: { id_token?: string },
+        profile: PassportProfile,
+        done: VerifyCallback
+      ) => {
+        try {
+          // Verified by verifyOAuthState before the strategy runs
+          const service = req.oauthState?.service;
+
+          if (!service) {
+            return done(new Error("Missing service in OAuth state"), undefined);
+          }
+
+          const result = await handleMicrosoftAuth(
+            profile,
+            params.id_token,
+            service,
+            req.oauthState?.linkUserId
+          );
+          return completeVerify(done, result);
+        } catch (error) {
+          logger.error("Microsoft authentication error", { error, profile });
+          return done(error as Error, undefined);
+        }
+      }
+    )
+  );
+}
+
+// GitLab Strategy
+if (config.oauth.gitlab) {
+  const { clientId, clientSecret, callbackUrl, baseUrl } = config.oauth.gitlab;
+
+  passport.use(
+    new GitLabStrategy(
+      {
+        clientID: clientId,
+        clientSecret,
+        callbackURL: callbackUrl,
+        baseURL: baseUrl,
+        scope: ["read_user"],
+        passReqToCallback: true,
+      },
+      async (
+        req: Request,
+        accessToken: string,
+        refreshToken: string,
+        profile: GitLabProfile,
+        done: VerifyCallback
+      ) => {
+        try {
+          // Verified by verifyOAuthState before the strategy runs
+          const service = req.oauthState?.service;
+
+          if (!service) {
+            return done(new Error("Missing service in OAuth state"), undefined);
+          }
+
+          const result = await handleGitlabAuth(
+            profile,
+            service,
+            req.oauthState?.linkUserId
+          );
+          return completeVerify(done, result);
+        } catch (error) {
+          logger.error("GitLab authentication error", { error, profile });
+          return done(error as Error, undefined);
         }
+      }
+    )
+  );
+}
+
+// Discord Strategy
+if (config.oauth.discord) {
+  const { clientId, clientSecret, callbackUrl } = config.oauth.discord;
 
-        const user = await handleGithubAuth(profile, accessToken, service);
-        return done(null, user);
-      } catch (error) {
-        logger.error("GitHub authentication error", { error, profile });
-        return done(error as Error, undefined);
+  passport.use(
+    new DiscordStrategy(
+      {
+        clientID: clientId,
+        clientSecret,
+        callbackURL: callbackUrl,
+        scope: ["identify", "email"],
+        passReqToCallback: true,
+      },
+      async (
+        req: Request,
+        accessToken: string,
+        refreshToken: string,
+        profile: DiscordProfile,
+        done: VerifyCallback
+      ) => {
+        try {
+          // Verified by verifyOAuthState before the strategy runs
+          const service = req.oauthState?.service;
+
+          if (!service) {
+            return done(new Error("Missing service in OAuth state"), undefined);
+          }
+
+          const result = await handleDiscordAuth(
+            profile,
+            service,
+            req.oauthState?.linkUserId
+          );
+          return completeVerify(done, result);
+        } catch (error) {
+          logger.error("Discord authentication error", { error, profile });
+          return done(error as Error, undefined);
+        }
       }
-    }
-  )
-);
+    )
+  );
+}
 
 export default passport;
@@ -4,19 +4,339 @@ export const ENV: Record<string, string> = {
 } as const;
 
 export const GITHUB_EMAIL_API = "https://api.github.com/user/emails" as const;
+export const DISCORD_AVATAR_URL = "https://cdn.discordapp.com/avatars" as const;
+export const MICROSOFT_DEFAULT_TENANT = "common" as const; // personal + work/school accounts
+export const GITLAB_DEFAULT_BASE_URL = "https://gitlab.com" as const;
 export const DISPOSABLE_EMAIL_API = "https://disposable.debounce.io" as const;
 
 export const AUTH_PROVIDERS = {
   GITHUB: "github",
   GOOGLE: "google",
+  MICROSOFT: "microsoft",
+  GITLAB: "gitlab",
+  DISCORD: "discord",
+  OIDC: "oidc",
+} as const;
+
+export const JWT_ALGORITHMS = {
+  HS256: "HS256",
+  RS256: "RS256",
+  ES256: "ES256",
+} as const;
+
+// Key type and curve each asymmetric algorithm requires
+export const JWT_KEY_REQUIREMENTS = {
+  RS256: { keyType: "rsa", curve: undefined },
+  ES256: { keyType: "ec", curve: "prime256v1" },
+} as const;
+
+// "<kid>.pem" holds a private key, "<kid>.pub.pem" a verification-only public key
+export const JWT_KEY_FILE_SUFFIX = {
+  PRIVATE: ".pem",
+  PUBLIC: ".pub.pem",
+} as const;
+
+export const JWKS_CACHE_MAX_AGE_SECONDS = 300 as const;
+
+// Minimum gap between lastUsedAt writes for the same session
+export const SESSION_ACTIVITY_UPDATE_INTERVAL_SECONDS = 60 as const;
+
+// How recently an account without a password must have signed in or
+// re-authenticated to change its email or set a password
+export const RECENT_AUTH_MAX_AGE_SECONDS = 300 as const;
+
+// Machine-readable reasons sent with errors clients need to act on
+export const ERROR_REASONS = {
+  CURRENT_PASSWORD_REQUIRED: "current_password_required",
+  INVALID_CURRENT_PASSWORD: "invalid_current_password",
+  MFA_CODE_REQUIRED: "mfa_code_required",
+  REAUTHENTICATION_REQUIRED: "reauthentication_required",
+} as const;
+
+// Assurance levels for the "acr" access token claim: how the user authenticated
+export const AUTH_ASSURANCE_LEVELS = {
+  PASSWORD: "pwd",
+  OTP: "otp",
+  WEBAUTHN: "webauthn",
+  OAUTH: "oauth",
+} as const;
+
+// Lifetime of the elevated access token issued on re-authentication
+export const REAUTH_TOKEN_EXPIRY_SECONDS = 300 as const;
+
+// Rotated refresh tokens kept per session to detect replays; older ones are dropped
+export const SESSION_ROTATED_TOKENS_LIMIT = 20 as const;
+
+// Session fields that are safe to expose to the account owner
+export const SESSION_SUMMARY_FIELDS = {
+  id: true,
+  userAgent: true,
+  ipAddress: true,
+  createdAt: true,
+  lastUsedAt: true,
+  expiresAt: true,
 } as const;
 
 export const LOGIN_CODE_EXPIRY_MINUTES = 5 as const;
 
-export const SERVICES = {
-  EXAMAXIS: "examaxis",
+export const MAGIC_LINK_EXPIRY_MINUTES = 15 as const;
+
+// Longest an escalating account lock can last
+export const ACCOUNT_LOCK_MAX_MINUTES = 1440 as const;
+
+export const OAUTH_STATE_EXPIRY_MINUTES = 10 as const;
+
+// Cookie binding an OAuth state to the browser that started the flow
+export const OAUTH_STATE_COOKIE = {
+  NAME: "credlock_oauth_state",
+  PATH: "/api/oauth",
+} as const;
+
+export const PHONE_OTP_SETTINGS = {
+  LENGTH: 6,
+  EXPIRY_MINUTES: 10,
+  RESEND_COOLDOWN_SECONDS: 60,
+  MAX_ATTEMPTS: 5,
+  LOCK_MINUTES: 15,
+} as const;
+
+export const SMS_PROVIDERS = {
+  CONSOLE: "console",
+  FILE: "file",
+} as const;
+
+export const SMS_DEFAULT_OUTPUT_FILE = "logs/sms.log" as const;
+
+export const KV_STORE_DRIVERS = {
+  MEMORY: "memory",
+  DATABASE: "database",
+} as const;
+
+// How often the in-memory store sweeps expired entries
+export const KV_STORE_CLEANUP_INTERVAL_SECONDS = 60 as const;
+
+// Key prefixes keeping each kind of short-lived state apart in the shared store
+export const KV_NAMESPACES = {
+  OAUTH_LOGIN_CODE: "oauth-login-code",
+  OIDC_FLOW: "oidc-flow",
+  REQUEST_THROTTLE: "request-throttle",
+  SIGNIN_REPORT: "signin-report",
+  EMAIL_CHANGE_REVERT: "email-change-revert",
+  WEBAUTHN_CHALLENGE: "webauthn-challenge",
+} as const;
+
+// Endpoints protected by the request throttle
+export const THROTTLE_ACTIONS = {
+  REGISTER: "register",
+  SIGNIN: "signin",
+  SIGNIN_MFA: "signin-mfa",
+  PASSKEY_SIGNIN: "passkey-signin",
+  MAGIC_LINK: "magic-link",
+  FORGOT_PASSWORD: "forgot-password",
+  VERIFY_EMAIL: "verify-email",
+  RESET_PASSWORD: "reset-password",
+  UNLOCK_ACCOUNT: "unlock-account",
+  LINK_CONFIRM: "link-confirm",
+} as const;
+
+// What a throttle counter is keyed by
+export const THROTTLE_SCOPES = {
+  IP: "ip",
+  EMAIL: "email",
+  IP_EMAIL: "ip-email",
+} as const;
+
+// Attempts allowed per sliding window for each action and scope
+// Registration limits are configured per deployment instead
+// Token and passkey requests carry no email, so only their IP is counted
+// Sign-in has no bare email limit: anyone could use it to lock a user out from
+// every IP, and account lockout already stops guessing from many IPs
+export const THROTTLE_POLICIES = {
+  [THROTTLE_ACTIONS.SIGNIN]: {
+    windowSeconds: 900,
+    limits: { ip: 50, "ip-email": 5 },
+  },
+  [THROTTLE_ACTIONS.SIGNIN_MFA]: {
+    windowSeconds: 900,
+    limits: { ip: 30 },
+  },
+  // Options and verification both count, two requests per sign-in
+  [THROTTLE_ACTIONS.PASSKEY_SIGNIN]: {
+    windowSeconds: 900,
+    limits: { ip: 60 },
+  },
+  [THROTTLE_ACTIONS.MAGIC_LINK]: {
+    windowSeconds: 3600,
+    limits: { ip: 20, email: 5, "ip-email": 3 },
+  },
+  [THROTTLE_ACTIONS.FORGOT_PASSWORD]: {
+    windowSeconds: 3600,
+    limits: { ip: 20, email: 5, "ip-email": 3 },
+  },
+  [THROTTLE_ACTIONS.VERIFY_EMAIL]: {
+    windowSeconds: 900,
+    limits: { ip: 30 },
+  },
+  [THROTTLE_ACTIONS.RESET_PASSWORD]: {
+    windowSeconds: 900,
+    limits: { ip: 20 },
+  },
+  [THROTTLE_ACTIONS.UNLOCK_ACCOUNT]: {
+    windowSeconds: 900,
+    limits: { ip: 20 },
+  },
+  [THROTTLE_ACTIONS.LINK_CONFIRM]: {
+    windowSeconds: 900,
+    limits: { ip: 20 },
+  },
+} as const;
+
+// Block applied when a limit is hit, doubling with each repeated hit
+export const THROTTLE_BACKOFF = {
+  BASE_SECONDS: 30,
+  MAX_SECONDS: 900,
+} as const;
+
+// Generic OpenID Connect providers
+export const OIDC_SETTINGS = {
+  DISCOVERY_PATH: "/.well-known/openid-configuration",
+  DEFAULT_SCOPES: ["openid", "email", "profile"],
+  CACHE_TTL_SECONDS: 3600, // discovery documents and JWKS
+  REQUEST_TIMEOUT_MS: 10000,
+  CLOCK_TOLERANCE_SECONDS: 60,
+  // Asymmetric algorithms accepted for ID token signatures
+  ID_TOKEN_ALGORITHMS: [
+    "RS256",
+    "RS384",
+    "RS512",
+    "PS256",
+    "PS384",
+    "PS512",
+    "ES256",
+    "ES384",
+    "ES512",
+  ],
+} as const;
+
+export const MFA_CHALLENGE_EXPIRY_MINUTES = 5 as const;
+
+export const WEBAUTHN_CHALLENGE_EXPIRY_MINUTES = 5 as const;
+
+// Credential fields that are safe to expose to the account owner
+export const PASSKEY_SUMMARY_FIELDS = {
+  id: true,
+  name: true,
+  deviceType: true,
+  backedUp: true,
+  transports: true,
+  lastUsedAt: true,
+  createdAt: true,
+} as const;
+
+export const LINKED_IDENTITY_SUMMARY_FIELDS = {
+  id: true,
+  provider: true,
+  email: true,
+  createdAt: true,
+} as const;
+
+export const OAUTH_LINK_EXPIRY_MINUTES = 10 as const;
+
+// How long the "this wasn't me" link in a new sign-in email stays valid
+export const SIGNIN_REPORT_EXPIRY_DAYS = 7 as const;
+
+// How long the old address can cancel or undo an email change
+export const EMAIL_CHANGE_REVERT_EXPIRY_DAYS = 7 as const;
+
+// Geolocation headers set by common CDNs and edge platforms, in lookup order
+// Only informational: without such a proxy in front, clients can set them
+export const GEO_HEADERS = {
+  CITY: ["cf-ipcity", "x-vercel-ip-city", "cloudfront-viewer-city"],
+  COUNTRY: ["cf-ipcountry", "x-vercel-ip-country", "cloudfront-viewer-country"],
+} as const;
+
+// Security events recorded in the audit log
+export const AUDIT_EVENT_TYPES = {
+  SIGNIN: "signin",
+  ACCOUNT_LOCKED: "account_locked",
+  ACCOUNT_UNLOCKED: "account_unlocked",
+  PASSWORD_RESET: "password_reset",
+  PASSWORD_CHANGE: "password_change",
+  EMAIL_CHANGE: "email_change",
+  OAUTH_LOGIN: "oauth_login",
+  SESSION_REVOKED: "session_revoked",
+  REFRESH_TOKEN_REUSE: "refresh_token_reuse",
+  REAUTHENTICATION: "reauthentication",
+  MFA_DISABLED: "mfa_disabled",
+  RECOVERY_CODES_REGENERATED: "recovery_codes_regenerated",
 } as const;
 
+export const AUDIT_OUTCOMES = {
+  SUCCESS: "success",
+  FAILURE: "failure",
+} as const;
+
+export const AUDIT_LOG_SETTINGS = {
+  APPEND_RETRIES: 5, // concurrent writers racing for the next sequence of a chain
+  VERIFY_BATCH_SIZE: 500,
+  DEFAULT_PAGE_SIZE: 20,
+  MAX_PAGE_SIZE: 100,
+} as const;
+
+// Audit event fields shown to the user they concern
+export const AUDIT_EVENT_SUMMARY_FIELDS = {
+  id: true,
+  type: true,
+  outcome: true,
+  ipAddress: true,
+  userAgent: true,
+  metadata: true,
+  createdAt: true,
+} as const;
+
+export const RECOVERY_CODE_COUNT = 10 as const;
+
+export const TOTP_SETTINGS = {
+  ALGORITHM: "SHA1",
+  DIGITS: 6,
+  PERIOD: 30,
+  WINDOW: 1,
+} as const;
+
+export const SERVICE_STATUS = {
+  ACTIVE: "active",
+  DISABLED: "disabled",
+} as const;
+
+export const SERVICE_CACHE_TTL_SECONDS = 60 as const;
+
+// Password rules for services that do not override them
+export const DEFAULT_PASSWORD_POLICY = {
+  minLength: 6,
+  maxLength: 128,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireNumber: true,
+  requireSymbol: true,
+} as const;
+
+export const PASSWORD_SYMBOLS = "@$!%*?&#" as const;
+
+// Characters a password may contain: letters, digits and PASSWORD_SYMBOLS
+export const PASSWORD_ALLOWED_PATTERN = /^[A-Za-z\d@$!%*?&#]+$/;
+
+// Character classes a policy can require, in the order they are listed in errors
+export const PASSWORD_REQUIREMENTS = [
+  { rule: "requireLowercase", pattern: /[a-z]/, label: "one lowercase letter" },
+  { rule: "requireUppercase", pattern: /[A-Z]/, label: "one uppercase letter" },
+  { rule: "requireNumber", pattern: /\d/, label: "one number" },
+  {
+    rule: "requireSymbol",
+    pattern: /[@$!%*?&#]/,
+    label: `one special character (${PASSWORD_SYMBOLS})`,
+  },
+] as const;
+
 export const CUSTOM_HEADERS = {
   REFRESH_TOKEN: "x-refresh-token",
   SERVICE_HEADER: "x-service",
@@ -0,0 +1,26 @@
+import type { NextFunction, Request, Response } from "express";
+import { listUserAuditEvents } from "../services/AuditService";
+import { logger } from "../helpers/logger";
+import { sendSuccess } from "../utils/response";
+import { AUDIT_LOG_SETTINGS } from "../constants/common";
+
+// List Activity Handler
+// The query is validated on the route but not rewritten, so defaults apply here
+export const listActivity = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const page = Number(req.query["page"] ?? 1);
+    const limit = Number(
+      req.query["limit"] ?? AUDIT_LOG_SETTINGS.DEFAULT_PAGE_SIZE
+    );
+    const activity = await listUserAuditEvents(req.user!.id, page, limit);
+
+    sendSuccess(res, "Activity retrieved successfully", activity);
+  } catch (error) {
+    logger.error("List activity error", { error, user: req.user?.id });
+    next(error);
+  }
+};
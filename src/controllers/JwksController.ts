@@ -0,0 +1,19 @@
+import type { NextFunction, Request, Response } from "express";
+import { JWKS_CACHE_MAX_AGE_SECONDS } from "../constants/common";
+import { logger } from "../helpers/logger";
+import { getJwks } from "../helpers/signingKeys";
+
+/**
+ * JSON Web Key Set Handler
+ * Served as a bare JWKS document so standard JWT libraries can consume it
+ */
+export const jwks = (req: Request, res: Response, next: NextFunction): void => {
+  try {
+    res
+      .set("Cache-Control", `public, max-age=${JWKS_CACHE_MAX_AGE_SECONDS}`)
+      .json(getJwks());
+  } catch (error) {
+    logger.error("JWKS retrieval failed", { error });
+    next(error);
+  }
+};
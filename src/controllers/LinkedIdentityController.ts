@@ -0,0 +1,104 @@
+import type { NextFunction, Request, Response } from "express";
+import {
+  confirmIdentityLink,
+  createLinkIntent,
+  listLinkedIdentities,
+  unlinkIdentity,
+} from "../services/LinkedIdentityService";
+import { generateTokenPair } from "../services/SessionService";
+import { logger } from "../helpers/logger";
+import { sendSuccess } from "../utils/response";
+import { serializeUser } from "../helpers/user";
+import { AUTH_ASSURANCE_LEVELS } from "../constants/common";
+
+// Confirm Account Link Handler - completes a login that awaited link confirmation
+export const confirmLink = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { linkToken, password, code, recoveryCode } = req.body;
+    const result = await confirmIdentityLink(
+      linkToken,
+      password,
+      { code, recoveryCode },
+      req.service!
+    );
+
+    // Client must resend the confirmation with a verification code
+    if ("mfaRequired" in result) {
+      sendSuccess(res, "Multi-factor authentication required", {
+        mfaRequired: true,
+      });
+      return;
+    }
+
+    const userAgent = req.headers["user-agent"];
+    const ipAddress = req.ip || req.socket?.remoteAddress;
+    const tokens = await generateTokenPair(
+      result.user,
+      userAgent,
+      ipAddress,
+      result.user.mfaInfo?.isEnabled
+        ? AUTH_ASSURANCE_LEVELS.OTP
+        : AUTH_ASSURANCE_LEVELS.PASSWORD
+    );
+
+    sendSuccess(res, "Account linked successfully", {
+      user: serializeUser(result.user),
+      tokens,
+    });
+  } catch (error) {
+    logger.error("Confirm account link error", { error });
+    next(error);
+  }
+};
+
+// Link Intent Handler - ticket to start a provider flow that links the account
+export const linkIntent = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const linkIntent = createLinkIntent(req.user!);
+
+    sendSuccess(res, "Link intent created", { linkIntent });
+  } catch (error) {
+    logger.error("Link intent error", { error, user: req.user?.id });
+    next(error);
+  }
+};
+
+// List Linked Accounts Handler
+export const listLinkedAccounts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const identities = await listLinkedIdentities(req.user!.id);
+
+    sendSuccess(res, "Linked accounts retrieved successfully", { identities });
+  } catch (error) {
+    logger.error("List linked accounts error", { error, user: req.user?.id });
+    next(error);
+  }
+};
+
+// Unlink Account Handler
+export const unlinkAccount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await unlinkIdentity(req.user!, req.params["id"]!);
+
+    sendSuccess(res, "Account unlinked successfully");
+  } catch (error) {
+    logger.error("Unlink account error", { error, user: req.user?.id });
+    next(error);
+  }
+};
@@ -0,0 +1,194 @@
+import type { NextFunction, Request, Response } from "express";
+import {
+  confirmMfaEnrollment,
+  disableMfaForUser,
+  getRemainingRecoveryCodes,
+  regenerateUserRecoveryCodes,
+  startMfaEnrollment,
+  verifyMfaChallenge,
+} from "../services/MfaService";
+import { generateTokenPair } from "../services/SessionService";
+import { logger } from "../helpers/logger";
+import { sendSuccess } from "../utils/response";
+import { serializeUser } from "../helpers/user";
+import { auditRequest, getClientContext } from "../helpers/audit";
+import { notifyNewSignIn } from "../services/SignInAlertService";
+import { getApproximateLocation } from "../helpers/geo";
+import { resetThrottle } from "../services/ThrottleService";
+import { getThrottleSubject } from "../middleware/throttle";
+import {
+  AUDIT_EVENT_TYPES,
+  AUDIT_OUTCOMES,
+  AUTH_ASSURANCE_LEVELS,
+  THROTTLE_ACTIONS,
+} from "../constants/common";
+
+// Start MFA Setup Handler
+export const setupMfa = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { secret, otpauthUri } = await startMfaEnrollment(req.user!);
+
+    sendSuccess(
+      res,
+      "Scan the QR code with your authenticator app and confirm with a code",
+      { secret, otpauthUri }
+    );
+  } catch (error) {
+    logger.error("MFA setup error", { error, user: req.user?.id });
+    next(error);
+  }
+};
+
+// Confirm MFA Setup Handler
+export const confirmMfa = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { user, recoveryCodes } = await confirmMfaEnrollment(
+      req.user!,
+      req.body.code
+    );
+
+    sendSuccess(
+      res,
+      "Multi-factor authentication enabled successfully. Store your recovery codes in a safe place, they will not be shown again.",
+      { user: serializeUser(user), recoveryCodes }
+    );
+  } catch (error) {
+    logger.error("MFA confirmation error", { error, user: req.user?.id });
+    next(error);
+  }
+};
+
+// Disable MFA Handler
+export const disableMfa = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await disableMfaForUser(
+      req.user!,
+      req.body.code,
+      getClientContext(req)
+    );
+    await auditRequest(req, {
+      type: AUDIT_EVENT_TYPES.MFA_DISABLED,
+      outcome: AUDIT_OUTCOMES.SUCCESS,
+    });
+
+    sendSuccess(res, "Multi-factor authentication disabled successfully", {
+      user: serializeUser(user),
+    });
+  } catch (error) {
+    logger.error("MFA disable error", { error, user: req.user?.id });
+    next(error);
+  }
+};
+
+// Regenerate Recovery Codes Handler
+export const regenerateRecoveryCodes = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const recoveryCodes = await regenerateUserRecoveryCodes(
+      req.user!,
+      req.body.code,
+      getClientContext(req)
+    );
+    await auditRequest(req, {
+      type: AUDIT_EVENT_TYPES.RECOVERY_CODES_REGENERATED,
+      outcome: AUDIT_OUTCOMES.SUCCESS,
+    });
+
+    sendSuccess(
+      res,
+      "Recovery codes regenerated successfully. Previous codes are no longer valid.",
+      { recoveryCodes }
+    );
+  } catch (error) {
+    logger.error("Recovery codes regeneration error", {
+      error,
+      user: req.user?.id,
+    });
+    next(error);
+  }
+};
+
+// Recovery Codes Status Handler
+export const getRecoveryCodesStatus = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    const remaining = getRemainingRecoveryCodes(req.user!);
+
+    sendSuccess(res, "Recovery codes status retrieved successfully", {
+      remaining,
+    });
+  } catch (error) {
+    logger.error("Recovery codes status error", { error, user: req.user?.id });
+    next(error);
+  }
+};
+
+// MFA Login Verification Handler
+export const verifyMfaLogin = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { mfaToken, code, recoveryCode } = req.body;
+    const user = await verifyMfaChallenge(
+      mfaToken,
+      { code, recoveryCode },
+      getClientContext(req)
+    );
+
+    // The login is complete, earlier sign-in failures no longer count
+    await resetThrottle(THROTTLE_ACTIONS.SIGNIN, {
+      ...getThrottleSubject(req),
+      email: user.email,
+    });
+
+    const userAgent = req.headers["user-agent"];
+    const ipAddress = req.ip || req.socket?.remoteAddress;
+    const tokens = await generateTokenPair(
+      user,
+      userAgent,
+      ipAddress,
+      AUTH_ASSURANCE_LEVELS.OTP
+    );
+    await notifyNewSignIn(
+      user,
+      tokens.refreshToken,
+      getApproximateLocation(req)
+    );
+
+    await auditRequest(req, {
+      type: AUDIT_EVENT_TYPES.SIGNIN,
+      outcome: AUDIT_OUTCOMES.SUCCESS,
+      userId: user.id,
+      service: user.service,
+      metadata: { method: recoveryCode ? "recovery_code" : "mfa" },
+    });
+
+    sendSuccess(res, "Login successful", {
+      user: serializeUser(user),
+      tokens,
+    });
+  } catch (error) {
+    logger.error("MFA login error", { error });
+    next(error);
+  }
+};
@@ -1,83 +1,111 @@
-import type { NextFunction, Request, Response } from "express";
+import type { CookieOptions, NextFunction, Request, Response } from "express";
 import passport from "passport";
+import type { User } from "@prisma/client";
 import { generateTokenPair } from "../services/SessionService";
 import { logger } from "../helpers/logger";
 import { sendSuccess, throwError } from "../utils/response";
-import { generateRandomString } from "../utils/crypto";
-import { currentDate, addMinutes } from "../utils/dayjs";
-import { LOGIN_CODE_EXPIRY_MINUTES, SERVICES } from "../constants/common";
+import {
+  generateRandomString,
+  hashData,
+  verifyPkceChallenge,
+} from "../utils/crypto";
+import { addMinutes, convertToMilliseconds } from "../utils/dayjs";
+import {
+  AUDIT_EVENT_TYPES,
+  AUDIT_OUTCOMES,
+  AUTH_ASSURANCE_LEVELS,
+  ENV,
+  KV_NAMESPACES,
+  LOGIN_CODE_EXPIRY_MINUTES,
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_EXPIRY_MINUTES,
+} from "../constants/common";
+import { config } from "../config/app";
+import {
+  generateOAuthStateToken,
+  verifyOAuthLinkIntentToken,
+  verifyOAuthStateToken,
+} from "../helpers/jwt";
+import { getActiveService } from "../services/ServiceRegistry";
+import { getKeyValueStore } from "../services/KeyValueStore";
+import {
+  completeOidcLogin,
+  createOidcAuthorizationUrl,
+  getOidcProvider,
+} from "../services/OidcService";
+import { getOAuthLoginUser } from "../services/OauthService";
+import { resolveServicePolicy } from "../helpers/servicePolicy";
+import { assertRedirectUrlsAllowed } from "../helpers/redirectUrl";
 import type { IOAuthUser, LoginStoreRecord } from "../types/user";
-import type { TokenPair } from "../types/auth";
-import type { User } from "@prisma/client";
 import { serializeUser } from "../helpers/user";
+import { auditRequest, getClientContext } from "../helpers/audit";
+import { notifyNewSignIn } from "../services/SignInAlertService";
+import { getApproximateLocation } from "../helpers/geo";
 
-// In-memory login store with auto-expiry handling
-const createLoginStore = () => {
-  const store = new Map<string, LoginStoreRecord>();
+// Login codes live in the shared key-value store, so any instance can
+// complete an exchange started on another one
+const loginCodeKey = (code: string) =>
+  `${KV_NAMESPACES.OAUTH_LOGIN_CODE}:${code}`;
 
-  // Store login code with associated user and tokens
-  const set = (code: string, user: User, tokens: TokenPair) =>
-    store.set(code, {
-      user,
-      tokens,
-      expiresAt: addMinutes(LOGIN_CODE_EXPIRY_MINUTES).getTime(),
-    });
+// The cookie must survive the top-level redirect back from the provider
+const oauthStateCookieOptions: CookieOptions = {
+  httpOnly: true,
+  secure: config.nodeEnv === ENV["prod"],
+  sameSite: "lax",
+  path: OAUTH_STATE_COOKIE.PATH,
+};
 
-  // Retrieve valid record or return null if expired/missing
-  const get = (code: string): LoginStoreRecord | null => {
-    const record = store.get(code);
-    if (!record) return null;
-    if (record.expiresAt < currentDate().getTime()) {
-      store.delete(code);
-      return null;
-    }
-    return record;
-  };
+// Check the redirect URLs, bind a fresh nonce to the browser and sign the state
+const createOAuthState = async (
+  req: Request,
+  res: Response
+): Promise<{ state: string; nonceHash: string }> => {
+  const redirectUrl = req.query["redirectUrl"] as string; // exchange-code endpoint of frontend
+  const nextUrl = req.query["nextUrl"] as string | undefined; // redirect after login
+  const service = req.query["service"] as string; // service from query params
+  const codeChallenge = req.query["code_challenge"] as string | undefined; // PKCE, S256 only
+  const linkIntent = req.query["linkIntent"] as string | undefined; // link to a signed-in user
 
-  // Delete record from store
-  const del = (code: string) => store.delete(code);
+  if (!redirectUrl) throwError("Missing redirectUrl", 400);
+  if (!service) throwError("Missing service parameter", 400);
 
-  // Periodically remove expired entries
-  const cleanup = () => {
-    const now = currentDate().getTime();
-    for (const [code, { expiresAt }] of store.entries()) {
-      if (expiresAt < now) store.delete(code);
-    }
-  };
+  const intent = linkIntent ? verifyOAuthLinkIntentToken(linkIntent) : null;
+  if (intent && intent.service !== service) {
+    throwError("Invalid link intent token", 401);
+  }
 
-  setInterval(cleanup, 60 * 1000).unref(); // Run cleanup every minute
+  const { redirectUrlPatterns } = resolveServicePolicy(
+    await getActiveService(service)
+  );
+  assertRedirectUrlsAllowed([redirectUrl, nextUrl], redirectUrlPatterns);
 
-  return { set, get, delete: del };
-};
+  // The nonce goes to the browser, its hash into the signed state
+  const nonce = generateRandomString();
+  res.cookie(OAUTH_STATE_COOKIE.NAME, nonce, {
+    ...oauthStateCookieOptions,
+    maxAge: convertToMilliseconds(OAUTH_STATE_EXPIRY_MINUTES),
+  });
 
-const loginStore = createLoginStore();
+  const nonceHash = hashData(nonce);
+  const state = generateOAuthStateToken({
+    redirectUrl,
+    ...(nextUrl && { nextUrl }),
+    service,
+    ...(codeChallenge && { codeChallenge }),
+    nonceHash,
+    ...(intent && { linkUserId: intent.userId }),
+    purpose: "oauth_state",
+  });
+
+  return { state, nonceHash };
+};
 
 // OAuth provider middleware initializer
 const authProvider =
   (provider: IOAuthUser["provider"], options: Record<string, unknown> = {}) =>
-  (req: Request, res: Response, next: NextFunction) => {
+  async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const redirectUrl = req.query["redirectUrl"] as string; // exchange-code endpoint of frontend
-      const nextUrl = req.query["nextUrl"] as string | undefined; // redirect after login
-      const service = req.query["service"] as string; // service from query params
-
-      if (!redirectUrl) throwError("Missing redirectUrl", 400);
-      if (!service) throwError("Missing service parameter", 400);
-
-      // Validate service
-      const validServices = Object.values(SERVICES) as string[];
-      if (!validServices.includes(service)) {
-        throwError(
-          `Invalid service. Allowed services: ${validServices.join(", ")}`,
-          400
-        );
-      }
-
-      const state = JSON.stringify({
-        redirectUrl,
-        nextUrl,
-        service,
-      });
+      const { state } = await createOAuthState(req, res);
 
       passport.authenticate(provider, {
         ...options,
@@ -89,6 +117,64 @@ const authProvider =
     }
   };
 
+/**
+ * Run the provider strategy on its callback
+ * A login that needs link confirmation yields a link token instead of a user
+ */
+export const authenticateOAuthProvider =
+  (provider: IOAuthUser["provider"]) =>
+  (req: Request, res: Response, next: NextFunction): void =>
+    passport.authenticate(
+      provider,
+      { session: false },
+      (
+        error: unknown,
+        user: Express.User | false,
+        info?: { linkToken?: string }
+      ) => {
+        if (error) return next(error);
+
+        // Neither is set on a failed login, which the callback rejects
+        if (user) req.user = user as User;
+        if (info?.linkToken) req.oauthLinkToken = info.linkToken;
+
+        next();
+      }
+    )(req, res, next);
+
+/**
+ * Verify the OAuth state before the provider callback is processed
+ * The state must be signed by us, unexpired, and started in this browser
+ */
+export const verifyOAuthState = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    const stateParam = req.query["state"];
+    if (typeof stateParam !== "string" || !stateParam) {
+      throwError("Missing state parameter", 400);
+    }
+
+    const state = verifyOAuthStateToken(stateParam);
+
+    // Single use: the binding cookie is dropped whatever the outcome
+    const nonce = req.cookies?.[OAUTH_STATE_COOKIE.NAME];
+    res.clearCookie(OAUTH_STATE_COOKIE.NAME, oauthStateCookieOptions);
+
+    if (typeof nonce !== "string" || hashData(nonce) !== state.nonceHash) {
+      throwError("OAuth state does not match this browser", 401);
+    }
+
+    req.oauthState = state;
+    next();
+  } catch (error) {
+    logger.error("OAuth state verification error", { error });
+    next(error);
+  }
+};
+
 // Common callback handler for all OAuth providers
 const handleOAuthCallback = async (
   req: Request,
@@ -97,23 +183,40 @@ const handleOAuthCallback = async (
   provider: string
 ) => {
   try {
-    if (!req.user) throwError("User not authenticated", 401);
+    if (!req.user && !req.oauthLinkToken) {
+      throwError("User not authenticated", 401);
+    }
 
-    // Generate access/refresh tokens
-    const tokens = await generateTokenPair(
-      req.user,
-      req.headers["user-agent"],
-      req.ip || req.socket?.remoteAddress
-    );
+    if (!req.oauthState) throwError("Missing state parameter", 400);
+    const { redirectUrl, nextUrl, codeChallenge } = req.oauthState;
 
-    const stateParam = req.query["state"] as string;
-    if (!stateParam) {
-      throwError("Missing state parameter", 400);
+    if (req.user) {
+      await auditRequest(req, {
+        type: AUDIT_EVENT_TYPES.OAUTH_LOGIN,
+        outcome: AUDIT_OUTCOMES.SUCCESS,
+        service: req.user.service,
+        metadata: { provider },
+      });
     }
-    const { redirectUrl, nextUrl } = JSON.parse(stateParam);
 
+    // Tokens are issued on exchange, once the code's holder is proven
+    // A pending link is handed over like a login, but carries no session
     const code = generateRandomString(); // Temporary login code
-    loginStore.set(code, req.user, tokens); // Save login session
+    const record: LoginStoreRecord = {
+      ...(req.user
+        ? {
+            userId: req.user.id,
+            client: getClientContext(req),
+            location: getApproximateLocation(req),
+          }
+        : { linkToken: req.oauthLinkToken! }),
+      ...(codeChallenge && { codeChallenge }),
+    };
+    await getKeyValueStore().set(
+      loginCodeKey(code),
+      record,
+      addMinutes(LOGIN_CODE_EXPIRY_MINUTES)
+    );
 
     const url = new URL(redirectUrl);
     url.searchParams.set("code", code);
@@ -154,20 +257,142 @@ export const githubCallback = (
   next: NextFunction
 ) => handleOAuthCallback(req, res, next, "GitHub");
 
+// Microsoft OAuth endpoints
+export const microsoftAuth = authProvider("microsoft", {
+  prompt: "select_account",
+});
+
+// Microsoft OAuth callback
+export const microsoftCallback = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => handleOAuthCallback(req, res, next, "Microsoft");
+
+// GitLab OAuth endpoints
+export const gitlabAuth = authProvider("gitlab");
+
+// GitLab OAuth callback
+export const gitlabCallback = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => handleOAuthCallback(req, res, next, "GitLab");
+
+// Discord OAuth endpoints
+export const discordAuth = authProvider("discord");
+
+// Discord OAuth callback
+export const discordCallback = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => handleOAuthCallback(req, res, next, "Discord");
+
+// OpenID Connect login start, for any provider configured by issuer URL
+export const oidcAuth = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const provider = req.params["provider"]!;
+    getOidcProvider(provider); // unknown providers fail before any cookie is set
+
+    const { state, nonceHash } = await createOAuthState(req, res);
+
+    res.redirect(await createOidcAuthorizationUrl(provider, state, nonceHash));
+  } catch (error) {
+    logger.error("OpenID Connect authentication error", { error });
+    next(error);
+  }
+};
+
+// OpenID Connect callback: redeem the code, validate the ID token, then log in
+export const oidcCallback = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code, error } = req.query;
+    if (typeof error === "string") {
+      throwError(`OpenID Connect login failed: ${error}`, 401);
+    }
+    if (typeof code !== "string" || !code) {
+      throwError("Missing authorization code", 400);
+    }
+    if (!req.oauthState) throwError("Missing state parameter", 400);
+
+    const result = await completeOidcLogin(
+      req.params["provider"]!,
+      code,
+      req.oauthState.nonceHash,
+      req.oauthState.service,
+      req.oauthState.linkUserId
+    );
+    if ("user" in result) req.user = result.user;
+    else req.oauthLinkToken = result.linkToken;
+  } catch (error) {
+    logger.error("OpenID Connect callback error", { error });
+    return next(error);
+  }
+
+  await handleOAuthCallback(req, res, next, "OpenID Connect");
+};
+
 // Exchange login code for tokens
-export const exchangeCode = (req: Request, res: Response): void => {
-  const code = req.query["code"] as string;
-  if (!code) throwError("Missing login code", 400);
+// Flows started with a PKCE challenge must present the matching verifier
+export const exchangeCode = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const code = req.query["code"] as string;
+    const codeVerifier = req.query["code_verifier"] as string | undefined;
+    if (!code) throwError("Missing login code", 400);
+
+    // Invalidate code on first use, even on a failed verifier
+    const record = await getKeyValueStore().take<LoginStoreRecord>(
+      loginCodeKey(code)
+    );
+    if (!record) throwError("Invalid or expired login code", 400);
 
-  const record = loginStore.get(code);
-  if (!record) throwError("Invalid or expired login code", 400);
+    if (
+      record.codeChallenge &&
+      (!codeVerifier ||
+        !verifyPkceChallenge(codeVerifier, record.codeChallenge))
+    ) {
+      throwError("Invalid code verifier", 400);
+    }
 
-  loginStore.delete(code); // Invalidate code after use
+    // The account holder must confirm the link before signing in this way
+    if ("linkToken" in record) {
+      sendSuccess(res, "Account link confirmation required", {
+        linkRequired: true,
+        linkToken: record.linkToken,
+      });
+      return;
+    }
 
-  sendSuccess(res, "Login successful", {
-    user: serializeUser(record.user),
-    tokens: record.tokens,
-  });
+    const user = await getOAuthLoginUser(record.userId);
+    const tokens = await generateTokenPair(
+      user,
+      record.client.userAgent,
+      record.client.ipAddress,
+      AUTH_ASSURANCE_LEVELS.OAUTH
+    );
+    await notifyNewSignIn(user, tokens.refreshToken, record.location);
+
+    sendSuccess(res, "Login successful", {
+      user: serializeUser(user),
+      tokens,
+    });
+  } catch (error) {
+    logger.error("OAuth code exchange error", { error });
+    next(error);
+  }
 };
 
 /*
@@ -0,0 +1,159 @@
+import type { NextFunction, Request, Response } from "express";
+import {
+  authenticateWithPasskey,
+  createPasskeyLoginOptions,
+  createPasskeyRegistrationOptions,
+  deleteUserPasskey,
+  listUserPasskeys,
+  registerPasskey,
+} from "../services/PasskeyService";
+import { generateTokenPair } from "../services/SessionService";
+import { logger } from "../helpers/logger";
+import { sendSuccess } from "../utils/response";
+import { serializeUser } from "../helpers/user";
+import { auditRequest } from "../helpers/audit";
+import {
+  AUDIT_EVENT_TYPES,
+  AUDIT_OUTCOMES,
+  AUTH_ASSURANCE_LEVELS,
+} from "../constants/common";
+
+// Passkey Registration Options Handler
+export const passkeyRegistrationOptions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { options, challengeToken } = await createPasskeyRegistrationOptions(
+      req.user!
+    );
+
+    sendSuccess(res, "Passkey registration options generated", {
+      options,
+      challengeToken,
+    });
+  } catch (error) {
+    logger.error("Passkey registration options error", {
+      error,
+      user: req.user?.id,
+    });
+    next(error);
+  }
+};
+
+// Passkey Registration Verification Handler
+export const passkeyRegistrationVerify = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { credential, challengeToken, name } = req.body;
+    const passkey = await registerPasskey(
+      req.user!,
+      credential,
+      challengeToken,
+      name
+    );
+
+    sendSuccess(res, "Passkey registered successfully", { passkey }, 201);
+  } catch (error) {
+    logger.error("Passkey registration error", { error, user: req.user?.id });
+    next(error);
+  }
+};
+
+// Passkey Login Options Handler
+export const passkeyLoginOptions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { options, challengeToken } = await createPasskeyLoginOptions(
+      req.service!,
+      req.body.mfaToken
+    );
+
+    sendSuccess(res, "Passkey login options generated", {
+      options,
+      challengeToken,
+    });
+  } catch (error) {
+    logger.error("Passkey login options error", { error });
+    next(error);
+  }
+};
+
+// Passkey Login Verification Handler
+export const passkeyLoginVerify = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { credential, challengeToken } = req.body;
+    const user = await authenticateWithPasskey(
+      credential,
+      challengeToken,
+      req.service!
+    );
+
+    const userAgent = req.headers["user-agent"];
+    const ipAddress = req.ip || req.socket?.remoteAddress;
+    const tokens = await generateTokenPair(
+      user,
+      userAgent,
+      ipAddress,
+      AUTH_ASSURANCE_LEVELS.WEBAUTHN
+    );
+
+    await auditRequest(req, {
+      type: AUDIT_EVENT_TYPES.SIGNIN,
+      outcome: AUDIT_OUTCOMES.SUCCESS,
+      userId: user.id,
+      metadata: { method: "passkey" },
+    });
+
+    sendSuccess(res, "Login successful", {
+      user: serializeUser(user),
+      tokens,
+    });
+  } catch (error) {
+    logger.error("Passkey login error", { error });
+    next(error);
+  }
+};
+
+// List Passkeys Handler
+export const listPasskeys = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const passkeys = await listUserPasskeys(req.user!.id);
+
+    sendSuccess(res, "Passkeys retrieved successfully", { passkeys });
+  } catch (error) {
+    logger.error("List passkeys error", { error, user: req.user?.id });
+    next(error);
+  }
+};
+
+// Delete Passkey Handler
+export const deletePasskey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await deleteUserPasskey(req.user!.id, req.params["id"]!);
+
+    sendSuccess(res, "Passkey removed successfully");
+  } catch (error) {
+    logger.error("Delete passkey error", { error, user: req.user?.id });
+    next(error);
+  }
+};
@@ -0,0 +1,42 @@
+import type { NextFunction, Request, Response } from "express";
+import { resendPhoneOtp, verifyPhoneOtp } from "../services/PhoneService";
+import { logger } from "../helpers/logger";
+import { sendSuccess } from "../utils/response";
+import { serializeUser } from "../helpers/user";
+
+// Phone Verification Handler
+export const verifyPhone = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await verifyPhoneOtp(req.user!, req.body.code);
+
+    sendSuccess(res, "Phone number verified successfully", {
+      user: serializeUser(user),
+    });
+  } catch (error) {
+    logger.error("Phone verification error", { error, user: req.user?.id });
+    next(error);
+  }
+};
+
+// Resend Phone Verification Code Handler
+export const resendPhoneVerification = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await resendPhoneOtp(req.user!);
+
+    sendSuccess(res, "Verification code sent to your phone number");
+  } catch (error) {
+    logger.error("Resend phone verification error", {
+      error,
+      user: req.user?.id,
+    });
+    next(error);
+  }
+};
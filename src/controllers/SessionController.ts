@@ -0,0 +1,137 @@
+import type { NextFunction, Request, Response } from "express";
+import {
+  generateElevatedAccessToken,
+  listUserSessions,
+  revokeUserSession,
+} from "../services/SessionService";
+import { reportSignIn } from "../services/SignInAlertService";
+import { reauthenticateUser } from "../services/ReauthService";
+import { logger } from "../helpers/logger";
+import { sendPage, sendSuccess } from "../utils/response";
+import { auditRequest, getClientContext } from "../helpers/audit";
+import {
+  generateLinkConfirmationPage,
+  generateLinkResultPage,
+} from "../templates/pageTemplates";
+import { AUDIT_EVENT_TYPES, AUDIT_OUTCOMES } from "../constants/common";
+
+// List Sessions Handler
+export const listSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const sessions = await listUserSessions(req.user!.id, req.sessionId);
+
+    sendSuccess(res, "Sessions retrieved successfully", { sessions });
+  } catch (error) {
+    logger.error("List sessions error", { error, user: req.user?.id });
+    next(error);
+  }
+};
+
+// Revoke Session Handler
+export const revokeSession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await revokeUserSession(req.user!.id, req.params["id"]!);
+    await auditRequest(req, {
+      type: AUDIT_EVENT_TYPES.SESSION_REVOKED,
+      outcome: AUDIT_OUTCOMES.SUCCESS,
+      metadata: { sessionId: req.params["id"]! },
+    });
+
+    sendSuccess(res, "Session revoked successfully");
+  } catch (error) {
+    logger.error("Revoke session error", { error, user: req.user?.id });
+    next(error);
+  }
+};
+
+// Re-authentication Handler
+// Returns a short-lived access token for actions that need a recent sign-in
+export const reauthenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { password, code, recoveryCode } = req.body;
+    const acr = await reauthenticateUser(
+      req.user!,
+      { password, code, recoveryCode },
+      getClientContext(req)
+    );
+    await auditRequest(req, {
+      type: AUDIT_EVENT_TYPES.REAUTHENTICATION,
+      outcome: AUDIT_OUTCOMES.SUCCESS,
+      metadata: { acr },
+    });
+
+    sendSuccess(res, "Re-authentication successful", {
+      token: generateElevatedAccessToken(req.user!, acr),
+    });
+  } catch (error) {
+    logger.error("Re-authentication error", { error, user: req.user?.id });
+    next(error);
+  }
+};
+
+// Sign-In Report Page Handler
+// Opened from the "this wasn't me" link in a new sign-in email; it only asks,
+// so mail scanners following the link change nothing
+export const signInReportPage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const html = await generateLinkConfirmationPage(
+      "Report This Sign-In",
+      "Sign the reported device out? You will need to set a new password with 'Forgot Password' before signing in again.",
+      `${req.baseUrl}${req.path}`,
+      req.query["token"] as string,
+      "This Wasn't Me"
+    );
+
+    sendPage(res, html);
+  } catch (error) {
+    logger.error("Sign-in report page error", { error });
+    next(error);
+  }
+};
+
+// Sign-In Report Handler
+// Posted by the report page's form, or by a client holding the token
+export const reportSuspiciousSignIn = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, sessionId, service } = await reportSignIn(req.body.token);
+    await auditRequest(req, {
+      type: AUDIT_EVENT_TYPES.SESSION_REVOKED,
+      outcome: AUDIT_OUTCOMES.SUCCESS,
+      service,
+      userId,
+      metadata: { sessionId, reason: "reported_by_user" },
+    });
+
+    const message =
+      "The reported session was signed out. Please set a new password using 'Forgot Password' before signing in again.";
+
+    if (req.is("application/x-www-form-urlencoded")) {
+      sendPage(res, await generateLinkResultPage("Sign-In Reported", message));
+    } else {
+      sendSuccess(res, message);
+    }
+  } catch (error) {
+    logger.error("Sign-in report error", { error });
+    next(error);
+  }
+};
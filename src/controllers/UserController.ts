@@ -1,12 +1,16 @@
 import type { NextFunction, Request, Response } from "express";
 import {
   authenticateUser,
+  authenticateWithMagicLink,
   checkUserExists,
   createUserWithVerification,
   deleteUnverifiedUser,
   resetPasswordWithToken,
+  revertEmailChange,
   sendEmailVerification,
+  sendMagicLinkEmail,
   sendPasswordResetEmail,
+  unlockAccountWithToken,
   updateUserProfile,
   verifyEmailWithToken,
 } from "../services/UserService";
@@ -17,9 +21,24 @@ import {
   revokeRefreshToken,
 } from "../services/SessionService";
 import { logger } from "../helpers/logger";
-import { sendSuccess, throwError } from "../utils/response";
+import { sendPage, sendSuccess, throwError } from "../utils/response";
 import { serializeUser } from "../helpers/user";
 import { isDisposableEmail } from "../services/EmailValidation";
+import { resetThrottle } from "../services/ThrottleService";
+import { getThrottleSubject } from "../middleware/throttle";
+import { auditRequest, getClientContext } from "../helpers/audit";
+import { notifyNewSignIn } from "../services/SignInAlertService";
+import { getApproximateLocation } from "../helpers/geo";
+import {
+  generateLinkConfirmationPage,
+  generateLinkResultPage,
+} from "../templates/pageTemplates";
+import {
+  AUDIT_EVENT_TYPES,
+  AUDIT_OUTCOMES,
+  AUTH_ASSURANCE_LEVELS,
+  THROTTLE_ACTIONS,
+} from "../constants/common";
 
 // User Registration Handler
 export const register = async (
@@ -102,7 +121,12 @@ export const verifyEmail = async (
     if (isNewlyVerified) {
       const userAgent = req.headers["user-agent"];
       const ipAddress = req.ip || req.socket?.remoteAddress;
-      tokens = await generateTokenPair(user, userAgent, ipAddress);
+      tokens = await generateTokenPair(
+        user,
+        userAgent,
+        ipAddress,
+        AUTH_ASSURANCE_LEVELS.OTP
+      );
     }
 
     sendSuccess(res, "Email verified successfully", {
@@ -122,16 +146,65 @@ export const login = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { email, password } = req.body;
+    const { email, password, redirectUrl } = req.body;
     const service = req.service!;
-    const { user, isValid } = await authenticateUser(email, password, service);
+    const { user, isValid, mfaToken, accountLocked } = await authenticateUser(
+      email,
+      password,
+      service,
+      redirectUrl
+    );
+
+    if (!isValid || !user) {
+      await auditRequest(req, {
+        type: AUDIT_EVENT_TYPES.SIGNIN,
+        outcome: AUDIT_OUTCOMES.FAILURE,
+        userId: user?.id,
+        metadata: { method: "password" },
+      });
+      if (accountLocked) {
+        await auditRequest(req, {
+          type: AUDIT_EVENT_TYPES.ACCOUNT_LOCKED,
+          outcome: AUDIT_OUTCOMES.SUCCESS,
+          userId: user?.id,
+        });
+      }
+      throwError("Invalid email or password!", 401);
+    }
+
+    // Second factor required, client must complete login via /signin/mfa
+    if (mfaToken) {
+      sendSuccess(res, "Multi-factor authentication required", {
+        mfaRequired: true,
+        mfaToken,
+      });
+      return;
+    }
 
-    if (!isValid || !user) throwError("Invalid email or password!", 401);
+    // The login is complete, earlier failures no longer count
+    await resetThrottle(THROTTLE_ACTIONS.SIGNIN, getThrottleSubject(req));
 
     // Generate tokens
     const userAgent = req.headers["user-agent"];
     const ipAddress = req.ip || req.socket?.remoteAddress;
-    const tokens = await generateTokenPair(user, userAgent, ipAddress);
+    const tokens = await generateTokenPair(
+      user,
+      userAgent,
+      ipAddress,
+      AUTH_ASSURANCE_LEVELS.PASSWORD
+    );
+    await notifyNewSignIn(
+      user,
+      tokens.refreshToken,
+      getApproximateLocation(req)
+    );
+
+    await auditRequest(req, {
+      type: AUDIT_EVENT_TYPES.SIGNIN,
+      outcome: AUDIT_OUTCOMES.SUCCESS,
+      userId: user.id,
+      metadata: { method: "password" },
+    });
 
     sendSuccess(res, "Login successful", {
       user: serializeUser(user),
@@ -154,7 +227,10 @@ export const refreshToken = async (
 ): Promise<void> => {
   try {
     const refreshToken = req.headers["x-refresh-token"] as string;
-    const tokens = await refreshAccessToken(refreshToken);
+    const tokens = await refreshAccessToken(
+      refreshToken,
+      getClientContext(req)
+    );
 
     sendSuccess(res, "Token refreshed successfully", { tokens });
   } catch (error) {
@@ -186,14 +262,27 @@ export const updateProfile = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { user, message } = await updateUserProfile(req.user!, req.body);
+    const { user, message } = await updateUserProfile(
+      req.user!,
+      req.body,
+      req.sessionId!,
+      req.jwt?.auth_time,
+      getClientContext(req)
+    );
+
+    // The new address only takes over once verified
+    if (req.body.email && req.body.email !== req.user!.email) {
+      await auditRequest(req, {
+        type: AUDIT_EVENT_TYPES.EMAIL_CHANGE,
+        outcome: AUDIT_OUTCOMES.SUCCESS,
+        metadata: { pendingVerification: true },
+      });
+    }
 
     sendSuccess(res, message, { user: serializeUser(user) });
   } catch (error) {
-    logger.error("Update profile error", {
-      error,
-      user: { ...req.body },
-    });
+    // The body may hold the current and new passwords
+    logger.error("Update profile error", { error, userId: req.user?.id });
     next(error);
   }
 };
@@ -227,7 +316,12 @@ export const resetPassword = async (
 ): Promise<void> => {
   try {
     const { token, password } = req.body;
-    await resetPasswordWithToken(token, password);
+    const userId = await resetPasswordWithToken(token, password);
+    await auditRequest(req, {
+      type: AUDIT_EVENT_TYPES.PASSWORD_RESET,
+      outcome: AUDIT_OUTCOMES.SUCCESS,
+      userId,
+    });
 
     sendSuccess(
       res,
@@ -239,6 +333,186 @@ export const resetPassword = async (
   }
 };
 
+// Unlock Account Page Handler, opened from the lockout email when the client
+// sent no page of its own; it only asks, so mail scanners unlock nothing
+export const unlockAccountPage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const html = await generateLinkConfirmationPage(
+      "Unlock Account",
+      "Unlock your account now? Only do this if the failed sign-in attempts were yours.",
+      `${req.baseUrl}${req.path}`,
+      req.query["token"] as string,
+      "Unlock Account"
+    );
+
+    sendPage(res, html);
+  } catch (error) {
+    logger.error("Unlock account page error", { error });
+    next(error);
+  }
+};
+
+// Unlock Account Handler
+// Posted by the unlock page's form, or by a client holding the token
+export const unlockAccount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, service } = await unlockAccountWithToken(req.body.token);
+    await auditRequest(req, {
+      type: AUDIT_EVENT_TYPES.ACCOUNT_UNLOCKED,
+      outcome: AUDIT_OUTCOMES.SUCCESS,
+      service,
+      userId,
+    });
+
+    const message = "Account unlocked successfully. You can now sign in.";
+    if (req.is("application/x-www-form-urlencoded")) {
+      sendPage(res, await generateLinkResultPage("Account Unlocked", message));
+    } else {
+      sendSuccess(res, message);
+    }
+  } catch (error) {
+    logger.error("Unlock account error", { error });
+    next(error);
+  }
+};
+
+// Email Change Undo Page Handler, opened from the notice sent to the old
+// address; it only asks, so mail scanners following the link change nothing
+export const undoEmailChangePage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const html = await generateLinkConfirmationPage(
+      "Undo Email Change",
+      "Keep your old email address? All devices will be signed out, and if the change was already completed you will need to set a new password with 'Forgot Password'.",
+      `${req.baseUrl}${req.path}`,
+      req.query["token"] as string,
+      "Undo Change"
+    );
+
+    sendPage(res, html);
+  } catch (error) {
+    logger.error("Email change undo page error", { error });
+    next(error);
+  }
+};
+
+// Email Change Undo Handler
+// Posted by the undo page's form, or by a client holding the token
+export const undoEmailChange = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, service, wasCompleted } = await revertEmailChange(
+      req.body.token
+    );
+    await auditRequest(req, {
+      type: AUDIT_EVENT_TYPES.EMAIL_CHANGE,
+      outcome: AUDIT_OUTCOMES.SUCCESS,
+      service,
+      userId,
+      metadata: { reason: "reverted_by_user", wasCompleted },
+    });
+
+    const message = wasCompleted
+      ? "Your email address was restored and all devices were signed out. Please set a new password using 'Forgot Password' before signing in again."
+      : "The email change was cancelled and all devices were signed out.";
+
+    if (req.is("application/x-www-form-urlencoded")) {
+      sendPage(
+        res,
+        await generateLinkResultPage("Email Change Undone", message)
+      );
+    } else {
+      sendSuccess(res, message);
+    }
+  } catch (error) {
+    logger.error("Email change undo error", { error });
+    next(error);
+  }
+};
+
+// Magic Link Request Handler
+export const requestMagicLink = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { email, redirectUrl } = req.body;
+    const service = req.service!;
+    await sendMagicLinkEmail(email, redirectUrl, service);
+
+    sendSuccess(
+      res,
+      "If a verified account with that email exists, a sign-in link has been sent"
+    );
+  } catch (error) {
+    logger.error("Magic link request error", { error, request: req.body });
+    next(error);
+  }
+};
+
+// Magic Link Login Handler
+export const magicLinkLogin = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const service = req.service!;
+    const { user, mfaToken } = await authenticateWithMagicLink(
+      req.body.token,
+      service
+    );
+
+    // Second factor required, client must complete login via /signin/mfa
+    if (mfaToken) {
+      sendSuccess(res, "Multi-factor authentication required", {
+        mfaRequired: true,
+        mfaToken,
+      });
+      return;
+    }
+
+    const userAgent = req.headers["user-agent"];
+    const ipAddress = req.ip || req.socket?.remoteAddress;
+    const tokens = await generateTokenPair(
+      user,
+      userAgent,
+      ipAddress,
+      AUTH_ASSURANCE_LEVELS.OTP
+    );
+
+    await auditRequest(req, {
+      type: AUDIT_EVENT_TYPES.SIGNIN,
+      outcome: AUDIT_OUTCOMES.SUCCESS,
+      userId: user.id,
+      metadata: { method: "magic_link" },
+    });
+
+    sendSuccess(res, "Login successful", {
+      user: serializeUser(user),
+      tokens,
+    });
+  } catch (error) {
+    logger.error("Magic link login error", { error });
+    next(error);
+  }
+};
+
 // Logout Handler
 export const logout = async (
   req: Request,
@@ -255,6 +529,12 @@ export const logout = async (
       await revokeAllUserSessions(req.user.id);
     }
 
+    await auditRequest(req, {
+      type: AUDIT_EVENT_TYPES.SESSION_REVOKED,
+      outcome: AUDIT_OUTCOMES.SUCCESS,
+      metadata: { scope: "current" },
+    });
+
     sendSuccess(res, "Logout successful");
   } catch (error) {
     logger.error("Logout error", { error, user: req.user });
@@ -270,6 +550,12 @@ export const logoutAll = async (
 ): Promise<void> => {
   try {
     await revokeAllUserSessions(req.user!.id);
+    await auditRequest(req, {
+      type: AUDIT_EVENT_TYPES.SESSION_REVOKED,
+      outcome: AUDIT_OUTCOMES.SUCCESS,
+      metadata: { scope: "all" },
+    });
+
     sendSuccess(res, "Logged out from all devices successfully");
   } catch (error) {
     logger.error("Logout all error", { error, user: req.user });
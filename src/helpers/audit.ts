@@ -0,0 +1,28 @@
+import type { Request } from "express";
+import { recordAuditEvent } from "../services/AuditService";
+import type { AuditEventInput, ClientContext } from "../types/audit";
+
+/**
+ * IP address and user agent of the request's client
+ */
+export const getClientContext = (req: Request): ClientContext => ({
+  ipAddress: req.ip || req.socket?.remoteAddress,
+  userAgent: req.headers["user-agent"],
+});
+
+/**
+ * Record a security event for a request
+ * Service and user default to the request's own
+ */
+export const auditRequest = (
+  req: Request,
+  event: Omit<AuditEventInput, "service" | keyof ClientContext> & {
+    service?: string;
+  }
+): Promise<void> =>
+  recordAuditEvent({
+    ...getClientContext(req),
+    userId: req.user?.id,
+    ...event,
+    service: event.service ?? req.service!,
+  });
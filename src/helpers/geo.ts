@@ -0,0 +1,29 @@
+import type { Request } from "express";
+import { GEO_HEADERS } from "../constants/common";
+
+// First non-empty value among the given headers
+const readHeader = (req: Request, names: readonly string[]) => {
+  for (const name of names) {
+    const value = req.headers[name];
+    // "XX" is what Cloudflare sends for an unknown country
+    if (typeof value === "string" && value && value !== "XX") {
+      try {
+        return decodeURIComponent(value);
+      } catch {
+        return value;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Approximate location of the client from edge geolocation headers
+ * e.g. "Lagos, NG"; null when no proxy provides them
+ */
+export const getApproximateLocation = (req: Request): string | null => {
+  const city = readHeader(req, GEO_HEADERS.CITY);
+  const country = readHeader(req, GEO_HEADERS.COUNTRY);
+
+  return [city, country].filter(Boolean).join(", ") || null;
+};
@@ -1,31 +1,94 @@
+import type { KeyObject } from "crypto";
 import jwt from "jsonwebtoken";
-import type { IJWTPayload } from "../types/auth";
+import type {
+  AuthContext,
+  IJWTPayload,
+  IMfaChallengePayload,
+  IOAuthLinkIntentPayload,
+  IOAuthLinkPayload,
+  IOAuthStatePayload,
+  IWebAuthnChallengePayload,
+} from "../types/auth";
 import { config } from "../config/app";
+import {
+  getActiveSigningKey,
+  getVerificationKey,
+  usesAsymmetricSigning,
+} from "./signingKeys";
 import { throwError } from "../utils/response";
+import { currentDate } from "../utils/dayjs";
 import type { User } from "@prisma/client";
+import {
+  MFA_CHALLENGE_EXPIRY_MINUTES,
+  OAUTH_LINK_EXPIRY_MINUTES,
+  OAUTH_STATE_EXPIRY_MINUTES,
+  WEBAUTHN_CHALLENGE_EXPIRY_MINUTES,
+} from "../constants/common";
 
-export const generateAccessToken = (user: User): string => {
+// Sign with the active private key (RS256/ES256) or the shared secret (HS256)
+// The auth context adds the auth_time and acr claims
+export const generateAccessToken = (
+  user: User,
+  expiresIn: string = config.jwt.expiresIn,
+  auth?: AuthContext
+): string => {
   const payload: IJWTPayload = {
     userId: user.id,
     email: user.email,
     service: user.service,
     // fullname: user.fullName,
+    ...(auth && { auth_time: Math.floor(auth.authTime.getTime() / 1000) }),
+    ...(auth?.acr && { acr: auth.acr }),
   };
 
-  return jwt.sign(payload, config.jwt.secret, {
-    expiresIn: config.jwt.expiresIn,
+  const options = {
+    expiresIn,
     issuer: config.app.name,
     audience: config.app.name,
-    algorithm: "HS256",
+  };
+
+  if (!usesAsymmetricSigning()) {
+    return jwt.sign(payload, config.jwt.secret, {
+      ...options,
+      algorithm: "HS256",
+    } as jwt.SignOptions);
+  }
+
+  const signingKey = getActiveSigningKey();
+  return jwt.sign(payload, signingKey.privateKey!, {
+    ...options,
+    algorithm: signingKey.algorithm,
+    keyid: signingKey.kid,
   } as jwt.SignOptions);
 };
 
+// Select the verification key named by the token's "kid" header
+const getAccessTokenKey = (token: string): KeyObject => {
+  const kid = jwt.decode(token, { complete: true })?.header.kid;
+  const signingKey = kid ? getVerificationKey(kid) : undefined;
+
+  if (!signingKey) throw new jwt.JsonWebTokenError("Unknown signing key");
+
+  return signingKey.publicKey;
+};
+
 export const verifyAccessToken = (token: string): IJWTPayload => {
   try {
-    return jwt.verify(token, config.jwt.secret, {
+    const options = {
       issuer: config.app.name,
       audience: config.app.name,
-      algorithms: ["HS256"],
+    };
+
+    if (!usesAsymmetricSigning()) {
+      return jwt.verify(token, config.jwt.secret, {
+        ...options,
+        algorithms: ["HS256"],
+      } as jwt.VerifyOptions) as IJWTPayload;
+    }
+
+    return jwt.verify(token, getAccessTokenKey(token), {
+      ...options,
+      algorithms: [config.jwt.algorithm],
     } as jwt.VerifyOptions) as IJWTPayload;
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
@@ -39,3 +102,123 @@ export const verifyAccessToken = (token: string): IJWTPayload => {
     }
   }
 };
+
+// Whether an auth_time claim lies within the given age
+// Tokens issued before the claim existed never count as recent
+export const isRecentAuthTime = (
+  authTime: number | undefined,
+  maxAgeSeconds: number
+): boolean =>
+  !!authTime && currentDate().getTime() / 1000 - authTime <= maxAgeSeconds;
+
+// Sign a short-lived, single-purpose token scoped to its own audience
+const signPurposeToken = (
+  payload: object,
+  audience: string,
+  expiryMinutes: number
+): string =>
+  jwt.sign(payload, config.jwt.secret, {
+    expiresIn: `${expiryMinutes}m`,
+    issuer: config.app.name,
+    audience: `${config.app.name}:${audience}`,
+    algorithm: "HS256",
+  } as jwt.SignOptions);
+
+// Verify a single-purpose token, rejecting tokens issued for another purpose
+const verifyPurposeToken = <T extends { purpose: string }>(
+  token: string,
+  audience: string,
+  purpose: T["purpose"],
+  label: string
+): T => {
+  try {
+    const payload = jwt.verify(token, config.jwt.secret, {
+      issuer: config.app.name,
+      audience: `${config.app.name}:${audience}`,
+      algorithms: ["HS256"],
+    } as jwt.VerifyOptions) as T;
+
+    if (payload.purpose !== purpose) throwError(`Invalid ${label}`, 401);
+
+    return payload;
+  } catch (error) {
+    if ((error as { isOperational?: boolean }).isOperational) throw error;
+    throwError(`Invalid or expired ${label}`, 401);
+  }
+};
+
+// Short-lived token proving the first factor passed, exchanged for tokens after MFA
+export const generateMfaChallengeToken = (user: User): string => {
+  const payload: IMfaChallengePayload = {
+    userId: user.id,
+    service: user.service,
+    purpose: "mfa_challenge",
+  };
+
+  return signPurposeToken(payload, "mfa", MFA_CHALLENGE_EXPIRY_MINUTES);
+};
+
+export const verifyMfaChallengeToken = (token: string): IMfaChallengePayload =>
+  verifyPurposeToken<IMfaChallengePayload>(
+    token,
+    "mfa",
+    "mfa_challenge",
+    "MFA challenge token"
+  );
+
+// Signed carrier for a WebAuthn ceremony challenge between options and verify
+// Single use is enforced separately, by PasskeyService
+export const generateWebAuthnChallengeToken = (
+  payload: IWebAuthnChallengePayload
+): string =>
+  signPurposeToken(payload, "webauthn", WEBAUTHN_CHALLENGE_EXPIRY_MINUTES);
+
+export const verifyWebAuthnChallengeToken = (
+  token: string,
+  purpose: IWebAuthnChallengePayload["purpose"]
+): IWebAuthnChallengePayload =>
+  verifyPurposeToken<IWebAuthnChallengePayload>(
+    token,
+    "webauthn",
+    purpose,
+    "passkey challenge"
+  );
+
+// Signed OAuth state carried through the provider round trip
+export const generateOAuthStateToken = (payload: IOAuthStatePayload): string =>
+  signPurposeToken(payload, "oauth", OAUTH_STATE_EXPIRY_MINUTES);
+
+export const verifyOAuthStateToken = (token: string): IOAuthStatePayload =>
+  verifyPurposeToken<IOAuthStatePayload>(
+    token,
+    "oauth",
+    "oauth_state",
+    "OAuth state"
+  );
+
+// Pending link of an OAuth identity to an existing password account
+export const generateOAuthLinkToken = (payload: IOAuthLinkPayload): string =>
+  signPurposeToken(payload, "oauth", OAUTH_LINK_EXPIRY_MINUTES);
+
+export const verifyOAuthLinkToken = (token: string): IOAuthLinkPayload =>
+  verifyPurposeToken<IOAuthLinkPayload>(
+    token,
+    "oauth",
+    "oauth_link",
+    "link token"
+  );
+
+// Ticket for a signed-in user to link a provider through the browser flow
+export const generateOAuthLinkIntentToken = (
+  payload: IOAuthLinkIntentPayload
+): string => signPurposeToken(payload, "oauth", OAUTH_LINK_EXPIRY_MINUTES);
+
+export const verifyOAuthLinkIntentToken = (
+  token: string
+): IOAuthLinkIntentPayload =>
+  verifyPurposeToken<IOAuthLinkIntentPayload>(
+    token,
+    "oauth",
+    "oauth_link_intent",
+    "link intent token"
+  );
@@ -0,0 +1,72 @@
+import { Secret, TOTP } from "otpauth";
+import { config } from "../config/app";
+import {
+  decryptData,
+  encryptData,
+  generateRandomString,
+  hashData,
+} from "../utils/crypto";
+import { RECOVERY_CODE_COUNT, TOTP_SETTINGS } from "../constants/common";
+
+// Build a TOTP instance for the given base32 secret and account label
+const createTotp = (secret: string, label: string = ""): TOTP =>
+  new TOTP({
+    issuer: config.app.name,
+    label,
+    algorithm: TOTP_SETTINGS.ALGORITHM,
+    digits: TOTP_SETTINGS.DIGITS,
+    period: TOTP_SETTINGS.PERIOD,
+    secret: Secret.fromBase32(secret),
+  });
+
+// Generate a new TOTP secret with its otpauth:// URI for authenticator apps
+export const generateTotpSecret = (
+  label: string
+): { secret: string; otpauthUri: string } => {
+  const secret = new Secret({ size: 20 }).base32;
+  return { secret, otpauthUri: createTotp(secret, label).toString() };
+};
+
+// Validate a TOTP code and return its time step, or null when invalid
+// Codes from a step at or before lastUsedStep are rejected to prevent replay
+export const verifyTotpCode = (
+  secret: string,
+  code: string,
+  lastUsedStep?: number | null
+): number | null => {
+  const delta = createTotp(secret).validate({
+    token: code,
+    window: TOTP_SETTINGS.WINDOW,
+  });
+  if (delta === null) return null;
+
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_SETTINGS.PERIOD);
+  const step = currentStep + delta;
+  if (typeof lastUsedStep === "number" && step <= lastUsedStep) return null;
+
+  return step;
+};
+
+// TOTP secrets are stored encrypted so they can be recovered for verification
+export const encryptMfaSecret = (secret: string): string =>
+  encryptData(secret, config.security.encryptionKey);
+
+export const decryptMfaSecret = (payload: string): string =>
+  decryptData(payload, config.security.encryptionKey);
+
+// Hash a recovery code, ignoring case, spaces and dashes typed by the user
+export const hashRecoveryCode = (code: string): string =>
+  hashData(code.replace(/[\s-]/g, "").toLowerCase());
+
+// Generate single-use recovery codes (e.g. "a1b2c-3d4e5") with their hashes
+export const generateRecoveryCodes = (): {
+  codes: string[];
+  hashed: string[];
+} => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = generateRandomString(5);
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  return { codes, hashed: codes.map(hashRecoveryCode) };
+};
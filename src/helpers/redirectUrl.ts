@@ -0,0 +1,64 @@
+import { throwError } from "../utils/response";
+
+// Parse a URL, or null when it is malformed
+const parseUrl = (url: string): URL | null => {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Check a URL against a single redirect pattern
+ * "*." at the start of the host matches any subdomain, a trailing "*" in the
+ * path matches any suffix, and a pattern without a path allows every path
+ */
+const matchesRedirectPattern = (target: URL, pattern: string): boolean => {
+  const allowed = parseUrl(pattern);
+  if (!allowed) return false;
+
+  if (target.protocol !== allowed.protocol || target.port !== allowed.port) {
+    return false;
+  }
+
+  const hostMatches = allowed.hostname.startsWith("*.")
+    ? target.hostname.endsWith(allowed.hostname.slice(1))
+    : target.hostname === allowed.hostname;
+  if (!hostMatches) return false;
+
+  const path = allowed.pathname;
+  if (path === "/") return true;
+
+  return path.endsWith("*")
+    ? target.pathname.startsWith(path.slice(0, -1))
+    : target.pathname === path;
+};
+
+/**
+ * Whether a redirect URL matches any of a service's patterns
+ * URLs carrying credentials are never allowed
+ */
+export const isRedirectUrlAllowed = (
+  url: string,
+  patterns: string[]
+): boolean => {
+  const target = parseUrl(url);
+  if (!target || target.username || target.password) return false;
+
+  return patterns.some((pattern) => matchesRedirectPattern(target, pattern));
+};
+
+/**
+ * Reject redirect URLs the service has not allowed
+ */
+export const assertRedirectUrlsAllowed = (
+  urls: (string | undefined)[],
+  patterns: string[]
+): void => {
+  for (const url of urls) {
+    if (url && !isRedirectUrlAllowed(url, patterns)) {
+      throwError("Redirect URL is not allowed for this service", 400);
+    }
+  }
+};
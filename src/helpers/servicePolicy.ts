@@ -0,0 +1,68 @@
+import type { Service } from "@prisma/client";
+import { config } from "../config/app";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  PASSWORD_ALLOWED_PATTERN,
+  PASSWORD_REQUIREMENTS,
+  PASSWORD_SYMBOLS,
+} from "../constants/common";
+import type { PasswordPolicy, ServicePolicy } from "../types/service";
+
+// Keep only the overrides a service actually set
+const setOverrides = (overrides: object | null | undefined) =>
+  Object.fromEntries(
+    Object.entries(overrides ?? {}).filter(([, value]) => value != null)
+  );
+
+// Join items as "a, b, and c"
+const formatList = (items: string[]): string =>
+  items.length > 2
+    ? `${items.slice(0, -1).join(", ")}, and ${items.at(-1)}`
+    : items.join(" and ");
+
+/**
+ * Effective policy of a service: its overrides on top of the global configuration
+ * Unknown services get the global defaults and no allowed redirect URLs
+ */
+export const resolveServicePolicy = (
+  service: Service | null
+): ServicePolicy => ({
+  accessTokenExpiresIn: config.jwt.expiresIn,
+  refreshTokenExpiresIn: config.jwt.refreshExpiresIn,
+  maxLoginAttempts: config.security.maxLoginAttempts,
+  loginLockTime: config.security.loginLockTime,
+  requireEmailVerification: true,
+  ...setOverrides(service?.policy),
+  password: {
+    ...DEFAULT_PASSWORD_POLICY,
+    ...setOverrides(service?.policy?.password),
+  },
+  redirectUrlPatterns: service?.redirectUrlPatterns ?? [],
+});
+
+/**
+ * Check a password against a policy
+ * Returns the reason it is rejected, or null when it is acceptable
+ */
+export const getPasswordPolicyViolation = (
+  password: string,
+  policy: PasswordPolicy
+): string | null => {
+  if (password.length < policy.minLength) {
+    return `Password must be at least ${policy.minLength} characters long`;
+  }
+  if (password.length > policy.maxLength) {
+    return `Password cannot exceed ${policy.maxLength} characters`;
+  }
+
+  const required = PASSWORD_REQUIREMENTS.filter(({ rule }) => policy[rule]);
+  if (required.some(({ pattern }) => !pattern.test(password))) {
+    return `Password must contain at least ${formatList(required.map(({ label }) => label))}`;
+  }
+
+  if (!PASSWORD_ALLOWED_PATTERN.test(password)) {
+    return `Password can only contain letters, numbers, and the special characters ${PASSWORD_SYMBOLS}`;
+  }
+
+  return null;
+};
@@ -0,0 +1,115 @@
+import { createPrivateKey, createPublicKey, type KeyObject } from "crypto";
+import { readdirSync, readFileSync } from "fs";
+import { resolve } from "path";
+import { config } from "../config/app";
+import {
+  JWT_ALGORITHMS,
+  JWT_KEY_FILE_SUFFIX,
+  JWT_KEY_REQUIREMENTS,
+} from "../constants/common";
+import type {
+  AsymmetricJwtAlgorithm,
+  JsonWebKeySet,
+  SigningKey,
+} from "../types/auth";
+
+// Loaded keys by kid, populated on first use
+let keyCache: Map<string, SigningKey> | null = null;
+
+// Check that a key matches the type and curve required by the algorithm
+const assertKeyMatchesAlgorithm = (
+  kid: string,
+  key: KeyObject,
+  algorithm: AsymmetricJwtAlgorithm
+) => {
+  const { keyType, curve } = JWT_KEY_REQUIREMENTS[algorithm];
+  const keyCurve = key.asymmetricKeyDetails?.namedCurve;
+
+  if (key.asymmetricKeyType !== keyType || (curve && keyCurve !== curve)) {
+    throw new Error(`Signing key "${kid}" is not a valid ${algorithm} key`);
+  }
+};
+
+/**
+ * Whether access tokens are signed with an asymmetric algorithm
+ */
+export const usesAsymmetricSigning = (): boolean =>
+  config.jwt.algorithm !== JWT_ALGORITHMS.HS256;
+
+/**
+ * Load the signing keys from the keys directory
+ * "<kid>.pem" holds a private key (signing and verification), "<kid>.pub.pem"
+ * a public key kept only to verify tokens signed before a rotation
+ */
+export const loadSigningKeys = (): Map<string, SigningKey> => {
+  if (keyCache) return keyCache;
+
+  const keys = new Map<string, SigningKey>();
+  if (!usesAsymmetricSigning()) return (keyCache = keys);
+
+  const algorithm = config.jwt.algorithm as AsymmetricJwtAlgorithm;
+  const keysDir = resolve(process.cwd(), config.jwt.keysDir);
+
+  for (const file of readdirSync(keysDir).sort()) {
+    if (!file.endsWith(JWT_KEY_FILE_SUFFIX.PRIVATE)) continue;
+
+    const isPublicOnly = file.endsWith(JWT_KEY_FILE_SUFFIX.PUBLIC);
+    const kid = file.slice(
+      0,
+      -(isPublicOnly ? JWT_KEY_FILE_SUFFIX.PUBLIC : JWT_KEY_FILE_SUFFIX.PRIVATE)
+        .length
+    );
+    if (keys.has(kid) && isPublicOnly) continue;
+
+    const pem = readFileSync(resolve(keysDir, file), "utf-8");
+    const privateKey = isPublicOnly ? undefined : createPrivateKey(pem);
+    const publicKey = createPublicKey(privateKey ?? pem);
+
+    assertKeyMatchesAlgorithm(kid, publicKey, algorithm);
+    keys.set(kid, {
+      kid,
+      algorithm,
+      publicKey,
+      ...(privateKey && { privateKey }),
+    });
+  }
+
+  if (!keys.get(config.jwt.activeKeyId)?.privateKey) {
+    throw new Error(
+      `Active signing key "${config.jwt.activeKeyId}" was not found in ${keysDir}`
+    );
+  }
+
+  return (keyCache = keys);
+};
+
+/**
+ * Get the key new access tokens are signed with
+ */
+export const getActiveSigningKey = (): SigningKey =>
+  loadSigningKeys().get(config.jwt.activeKeyId)!;
+
+/**
+ * Get the key a token claims to be signed with
+ */
+export const getVerificationKey = (kid: string): SigningKey | undefined =>
+  loadSigningKeys().get(kid);
+
+/**
+ * Public keys of every active key, in JWKS format
+ */
+export const getJwks = (): JsonWebKeySet => ({
+  keys: [...loadSigningKeys().values()].map((key) => ({
+    ...key.publicKey.export({ format: "jwk" }),
+    kid: key.kid,
+    alg: key.algorithm,
+    use: "sig" as const,
+  })),
+});
+
+/**
+ * Drop loaded keys so the next access reads the keys directory again
+ */
+export const resetSigningKeys = (): void => {
+  keyCache = null;
+};
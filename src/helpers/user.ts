@@ -25,6 +25,7 @@ export const serializeUser = (user: User) => {
       phone: user.phone,
       phone_verified: user.phoneInfo?.isVerified ?? false,
     }),
+    mfa_enabled: user.mfaInfo?.isEnabled ?? false,
     isActive: user.isActive,
     lastLoginAt: user.lastLoginAt,
     createdAt: user.createdAt,
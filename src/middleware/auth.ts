@@ -1,11 +1,16 @@
 import type { Request, Response, NextFunction } from "express";
+import dayjs from "dayjs";
 import { prisma } from "../config/prisma";
 import { hashData } from "../utils/crypto";
 import { currentDate } from "../utils/dayjs";
-import { throwError } from "../utils/response";
+import { throwError, throwReasonError } from "../utils/response";
 import { isAccountLocked } from "../helpers/user";
-import { verifyAccessToken } from "../helpers/jwt";
-import { CUSTOM_HEADERS } from "../constants/common";
+import { isRecentAuthTime, verifyAccessToken } from "../helpers/jwt";
+import {
+  CUSTOM_HEADERS,
+  ERROR_REASONS,
+  SESSION_ACTIVITY_UPDATE_INTERVAL_SECONDS,
+} from "../constants/common";
 
 /**
  * Middleware to authenticate access and refresh tokens
@@ -39,6 +44,11 @@ export const authenticate = async (
 
     if (!activeSession) throwError("Invalid or expired refresh token", 401);
 
+    // The refresh token must belong to the same user as the access token
+    if (activeSession.userId !== payload.userId) {
+      throwError("Invalid or expired refresh token", 401);
+    }
+
     // Get user from database with service validation
     const user = await prisma.user.findFirst({
       where: {
@@ -57,13 +67,48 @@ export const authenticate = async (
         423
       );
 
-    // Attach user, JWT payload, and service to request
+    // Record session activity, at most once per interval
+    if (
+      dayjs(activeSession.lastUsedAt ?? activeSession.createdAt)
+        .add(SESSION_ACTIVITY_UPDATE_INTERVAL_SECONDS, "second")
+        .isBefore(currentDate())
+    ) {
+      await prisma.session.update({
+        where: { id: activeSession.id },
+        data: { lastUsedAt: currentDate() },
+      });
+    }
+
+    // Attach user, JWT payload, service, and session to request
     req.user = user;
     req.jwt = payload;
     req.service = payload.service;
+    req.sessionId = activeSession.id;
 
     next();
   } catch (error) {
     next(error);
   }
 };
+
+/**
+ * Middleware to require a recent sign-in or re-authentication, after authenticate
+ * Clients get a fresh token from POST /api/auth/reauth and retry
+ */
+export const requireRecentAuth =
+  (maxAgeSeconds: number) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    try {
+      if (!isRecentAuthTime(req.jwt?.auth_time, maxAgeSeconds)) {
+        throwReasonError(
+          "Please confirm it's you to continue",
+          403,
+          ERROR_REASONS.REAUTHENTICATION_REQUIRED
+        );
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
@@ -2,15 +2,24 @@ import type { Request, Response, NextFunction } from "express";
 
 // global error handler
 export const errorHandler = (
-  err: { code?: number; message?: string; isOperational?: boolean },
+  err: {
+    code?: number;
+    message?: string;
+    isOperational?: boolean;
+    retryAfter?: number;
+    reason?: string;
+  },
   req: Request,
   res: Response,
   next: NextFunction // eslint-disable-line @typescript-eslint/no-unused-vars
 ): void => {
+  if (err.retryAfter) res.setHeader("Retry-After", String(err.retryAfter));
+
   res.status(err.code || 500).send({
     code: err.code || 500,
     status: "error",
     msg: err.isOperational ? err.message : "Internal Server Error",
+    ...(err.reason && { reason: err.reason }),
   });
 };
 
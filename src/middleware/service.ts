@@ -1,15 +1,18 @@
 import type { Request, Response, NextFunction } from "express";
-import { CUSTOM_HEADERS, SERVICES } from "../constants/common";
+import { CUSTOM_HEADERS } from "../constants/common";
+import { getActiveService } from "../services/ServiceRegistry";
+import { resolveServicePolicy } from "../helpers/servicePolicy";
 import { throwError } from "../utils/response";
 
 /**
  * Middleware to extract and validate service header
+ * Also resolves the service policy for the validators and handlers after it
  */
-export const extractService = (
+export const extractService = async (
   req: Request,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   try {
     const service = req.headers[CUSTOM_HEADERS.SERVICE_HEADER] as string;
 
@@ -17,12 +20,10 @@ export const extractService = (
       throwError("Service header is required", 400);
     }
 
-    const validServices = Object.values(SERVICES) as string[];
-    if (!validServices.includes(service)) {
-      throwError("Invalid service.", 400);
-    }
+    const registeredService = await getActiveService(service);
 
     req.service = service;
+    req.servicePolicy = resolveServicePolicy(registeredService);
     next();
   } catch (error) {
     next(error);
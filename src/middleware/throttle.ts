@@ -0,0 +1,28 @@
+import type { Request, Response, NextFunction } from "express";
+import { consumeThrottle } from "../services/ThrottleService";
+import type { ThrottleAction, ThrottleSubject } from "../types/store";
+
+/**
+ * Who a request comes from and, when the body names one, the account it targets
+ * Runs after validation, so the email is a checked string
+ */
+export const getThrottleSubject = (req: Request): ThrottleSubject => ({
+  service: req.service!,
+  ipAddress: req.ip || req.socket?.remoteAddress,
+  email: typeof req.body?.email === "string" ? req.body.email : undefined,
+});
+
+/**
+ * Middleware to throttle an action per IP, email and IP+email
+ * Repeated hits are answered with 429 and a growing Retry-After
+ */
+export const throttle =
+  (action: ThrottleAction) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await consumeThrottle(action, getThrottleSubject(req));
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
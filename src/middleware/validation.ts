@@ -2,6 +2,13 @@ import Joi from "joi";
 import type { Request, Response, NextFunction } from "express";
 import { throwError } from "../utils/response";
 import { logger } from "../helpers/logger";
+import { getPasswordPolicyViolation } from "../helpers/servicePolicy";
+import { isRedirectUrlAllowed } from "../helpers/redirectUrl";
+import {
+  AUDIT_LOG_SETTINGS,
+  DEFAULT_PASSWORD_POLICY,
+} from "../constants/common";
+import type { ServicePolicy } from "../types/service";
 
 // Full name validation schema
 const fullnameSchema = Joi.string()
@@ -40,28 +47,72 @@ const phoneSchema = Joi.string()
       "Please provide a valid phone number with country code (e.g., +1234567890)",
   });
 
-// Password validation schema
+// Password validation schema, checked against the service's password policy
+// (passed as validation context) or the default policy
 const passwordSchema = Joi.string()
-  .min(6)
-  .max(128)
-  .pattern(
-    /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&#])[A-Za-z\d@$!%*?&#]+$/
-  )
+  .custom((value: string, helpers) => {
+    const servicePolicy: ServicePolicy | undefined =
+      helpers.prefs.context?.["servicePolicy"];
+    const violation = getPasswordPolicyViolation(
+      value,
+      servicePolicy?.password ?? DEFAULT_PASSWORD_POLICY
+    );
+
+    return violation
+      ? helpers.error("any.custom", { message: violation })
+      : value;
+  })
   .messages({
-    "string.min": "Password must be at least 6 characters long",
-    "string.max": "Password cannot exceed 128 characters",
-    "string.pattern.base":
-      "Password must contain at least one lowercase letter, one uppercase letter, one number, and one special character (@$!%*?&#)",
+    "any.custom": "{{#message}}",
     "string.empty": "Password is required",
     "any.required": "Password is required",
   });
 
-// Redirect URL validation schema
+// Login password schema; policy rules are not applied so that accounts
+// created under an older policy can still sign in
+const loginPasswordSchema = Joi.string().messages({
+  "string.empty": "Password is required",
+  "any.required": "Password is required",
+});
+
+// 6-digit verification code validation schema (TOTP and SMS OTP)
+const verificationCodeSchema = Joi.string()
+  .trim()
+  .pattern(/^\d{6}$/)
+  .messages({
+    "string.pattern.base": "Verification code must be a 6-digit number",
+    "string.empty": "Verification code is required",
+    "any.required": "Verification code is required",
+  });
+
+// Recovery code validation schema
+const recoveryCodeSchema = Joi.string()
+  .trim()
+  .pattern(/^[a-fA-F0-9]{5}-?[a-fA-F0-9]{5}$/)
+  .messages({
+    "string.pattern.base": "Recovery code format is invalid",
+    "string.empty": "Recovery code is required",
+  });
+
+// Redirect URL validation schema, restricted to the service's redirect
+// patterns when a service policy is passed as validation context
 const redirectUrlSchema = Joi.string()
   .uri({ scheme: ["http", "https"] })
   .trim()
   .required()
+  .custom((value: string, helpers) => {
+    const servicePolicy: ServicePolicy | undefined =
+      helpers.prefs.context?.["servicePolicy"];
+
+    return servicePolicy &&
+      !isRedirectUrlAllowed(value, servicePolicy.redirectUrlPatterns)
+      ? helpers.error("any.custom", {
+          message: "Redirect URL is not allowed for this service",
+        })
+      : value;
+  })
   .messages({
+    "any.custom": "{{#message}}",
     "string.uri": "Redirect URL must be a valid URL",
     "string.uriCustomScheme": "Redirect URL must be HTTP or HTTPS",
     "string.empty": "Redirect URL is required",
@@ -80,7 +131,135 @@ export const registerSchema = Joi.object({
 // User login validation schema
 export const loginSchema = Joi.object({
   email: emailSchema.required(),
-  password: passwordSchema.required(),
+  password: loginPasswordSchema.required(),
+  // Where the unlock link leads if this attempt locks the account
+  redirectUrl: redirectUrlSchema.optional(),
+});
+
+// MFA code validation schema (setup confirmation and disable)
+export const mfaCodeSchema = Joi.object({
+  code: verificationCodeSchema.required(),
+});
+
+// Re-authentication validation schema
+// Which fields are required depends on the account, so the service checks that
+export const reauthSchema = Joi.object({
+  password: Joi.string(),
+  code: verificationCodeSchema,
+  recoveryCode: recoveryCodeSchema,
+})
+  .oxor("code", "recoveryCode")
+  .messages({
+    "object.oxor":
+      "Provide either a verification code or a recovery code, not both",
+  });
+
+// MFA login validation schema
+export const mfaLoginSchema = Joi.object({
+  mfaToken: Joi.string().required().messages({
+    "string.empty": "MFA token is required",
+    "any.required": "MFA token is required",
+  }),
+  code: verificationCodeSchema,
+  recoveryCode: recoveryCodeSchema,
+})
+  .xor("code", "recoveryCode")
+  .messages({
+    "object.missing":
+      "Either a verification code or a recovery code is required",
+    "object.xor":
+      "Provide either a verification code or a recovery code, not both",
+  });
+
+// OAuth account link confirmation schema, MFA accounts also send a code
+export const linkConfirmSchema = Joi.object({
+  linkToken: Joi.string().required().messages({
+    "string.empty": "Link token is required",
+    "any.required": "Link token is required",
+  }),
+  password: loginPasswordSchema.required(),
+  code: verificationCodeSchema,
+  recoveryCode: recoveryCodeSchema,
+}).oxor("code", "recoveryCode");
+
+// WebAuthn credential response validation schema (checked in depth by the verifier)
+const webAuthnCredentialSchema = Joi.object({
+  id: Joi.string().required(),
+  rawId: Joi.string().required(),
+  type: Joi.string().valid("public-key").required(),
+  response: Joi.object().unknown(true).required(),
+  clientExtensionResults: Joi.object().unknown(true).default({}),
+  authenticatorAttachment: Joi.string().optional(),
+})
+  .required()
+  .messages({ "any.required": "Passkey credential is required" });
+
+const webAuthnChallengeTokenSchema = Joi.string().required().messages({
+  "string.empty": "Challenge token is required",
+  "any.required": "Challenge token is required",
+});
+
+// Passkey registration validation schema
+export const passkeyRegistrationSchema = Joi.object({
+  credential: webAuthnCredentialSchema,
+  challengeToken: webAuthnChallengeTokenSchema,
+  name: Joi.string().trim().max(50).optional().messages({
+    "string.max": "Passkey name cannot exceed 50 characters",
+  }),
+});
+
+// Passkey login options validation schema
+export const passkeyLoginOptionsSchema = Joi.object({
+  mfaToken: Joi.string().optional(),
+});
+
+// Passkey login validation schema
+export const passkeyLoginSchema = Joi.object({
+  credential: webAuthnCredentialSchema,
+  challengeToken: webAuthnChallengeTokenSchema,
+});
+
+// Activity history pagination query validation schema
+export const activityQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).messages({
+    "number.base": "Page must be a number",
+    "number.min": "Page must be at least 1",
+  }),
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(AUDIT_LOG_SETTINGS.MAX_PAGE_SIZE)
+    .messages({
+      "number.base": "Limit must be a number",
+      "number.min": "Limit must be at least 1",
+      "number.max": `Limit must be at most ${AUDIT_LOG_SETTINGS.MAX_PAGE_SIZE}`,
+    }),
+});
+
+// Sign-in report token validation schema, for the link page and its form
+export const signInReportSchema = Joi.object({
+  token: Joi.string().required().messages({
+    "string.empty": "Report token is required",
+    "any.required": "Report token is required",
+  }),
+});
+
+export const emailChangeRevertSchema = Joi.object({
+  token: Joi.string().required().messages({
+    "string.empty": "Email change token is required",
+    "any.required": "Email change token is required",
+  }),
+});
+
+// Resource ID route parameter validation schema
+export const objectIdParamSchema = Joi.object({
+  id: Joi.string()
+    .pattern(/^[a-f0-9]{24}$/)
+    .required()
+    .messages({
+      "string.pattern.base": "Invalid resource ID",
+      "any.required": "Resource ID is required",
+    }),
 });
 
 // Profile update validation schema
@@ -89,6 +268,8 @@ export const updateProfileSchema = Joi.object({
   email: emailSchema.optional(),
   phone: phoneSchema.optional(),
   password: passwordSchema.optional(),
+  // Checked against the stored hash, so no strength rules apply
+  currentPassword: Joi.string().optional(),
   redirectUrl: redirectUrlSchema.optional(),
 })
   .custom((value, helpers) => {
@@ -125,6 +306,33 @@ export const resetPasswordSchema = Joi.object({
   password: passwordSchema.required(),
 });
 
+// Account unlock validation schema
+export const unlockAccountSchema = Joi.object({
+  token: Joi.string().required().messages({
+    "string.empty": "Unlock token is required",
+    "any.required": "Unlock token is required",
+  }),
+});
+
+// Magic link request validation schema
+export const magicLinkRequestSchema = Joi.object({
+  email: emailSchema.required(),
+  redirectUrl: redirectUrlSchema.required(),
+});
+
+// Magic link sign-in validation schema
+export const magicLinkLoginSchema = Joi.object({
+  token: Joi.string().required().messages({
+    "string.empty": "Sign-in token is required",
+    "any.required": "Sign-in token is required",
+  }),
+});
+
+// Phone verification validation schema
+export const verifyPhoneSchema = Joi.object({
+  code: verificationCodeSchema.required(),
+});
+
 // Refresh token validation schema
 export const refreshTokenSchema = Joi.object({
   "x-refresh-token": Joi.string().min(40).max(200).required().messages({
@@ -139,6 +347,32 @@ export const refreshTokenSchema = Joi.object({
 export const oauthParamsSchema = Joi.object({
   redirectUrl: redirectUrlSchema,
   nextUrl: redirectUrlSchema.optional(),
+  code_challenge: Joi.string()
+    .pattern(/^[A-Za-z0-9_-]{43}$/)
+    .optional()
+    .messages({
+      "string.pattern.base":
+        "code_challenge must be a base64url-encoded SHA-256 hash",
+    }),
+  code_challenge_method: Joi.string().valid("S256").optional().messages({
+    "any.only": "Only the S256 code_challenge_method is supported",
+  }),
+  linkIntent: Joi.string().optional(), // from POST /api/auth/linked-identities/intent
+}).with("code_challenge_method", "code_challenge");
+
+// OAuth login code exchange validation schema
+export const exchangeCodeSchema = Joi.object({
+  code: Joi.string().required().messages({
+    "string.empty": "Missing login code",
+    "any.required": "Missing login code",
+  }),
+  code_verifier: Joi.string()
+    .pattern(/^[A-Za-z0-9\-._~]{43,128}$/)
+    .optional()
+    .messages({
+      "string.pattern.base":
+        "code_verifier must be 43-128 characters of [A-Z, a-z, 0-9, -, ., _, ~]",
+    }),
 });
 
 // Token header validation schema
@@ -168,13 +402,14 @@ export const validate = (
       const { error, value } = schema.validate(data, {
         abortEarly: true, // stop validation on the first error
         stripUnknown: true, // remove fields not defined in the schema
+        context: { servicePolicy: req.servicePolicy },
       });
 
       // If validation failed, custom error handler will catch it
       if (error) throwError(error.details[0]!.message, 400);
-      
+
       // Replace original request data with the validated value
-      if(source !== "query") req[source] = value;
+      if (source !== "query") req[source] = value;
       next();
     } catch (err) {
       logger.error(`Validation error for ${source}:`, err);
@@ -1,16 +1,32 @@
 import { Router } from "express";
-import { authenticate } from "../middleware/auth";
+import { authenticate, requireRecentAuth } from "../middleware/auth";
 import { extractService } from "../middleware/service";
+import { throttle } from "../middleware/throttle";
 import {
+  activityQuerySchema,
   forgotPasswordSchema,
+  linkConfirmSchema,
   loginSchema,
+  magicLinkLoginSchema,
+  magicLinkRequestSchema,
+  mfaCodeSchema,
+  mfaLoginSchema,
+  objectIdParamSchema,
+  passkeyLoginOptionsSchema,
+  passkeyLoginSchema,
+  passkeyRegistrationSchema,
+  reauthSchema,
   refreshTokenSchema,
   registerSchema,
   resetPasswordSchema,
+  emailChangeRevertSchema,
+  signInReportSchema,
   tokenHeaderSchema,
+  unlockAccountSchema,
   updateProfileSchema,
   validate,
   verifyEmailSchema,
+  verifyPhoneSchema,
 } from "../middleware/validation";
 import {
   forgotPassword,
@@ -18,29 +34,168 @@ import {
   login,
   logout,
   logoutAll,
+  magicLinkLogin,
   refreshToken,
   register,
+  requestMagicLink,
   resetPassword,
+  undoEmailChange,
+  undoEmailChangePage,
+  unlockAccount,
+  unlockAccountPage,
   updateProfile,
   verifyEmail,
 } from "../controllers/UserController";
+import {
+  confirmMfa,
+  disableMfa,
+  getRecoveryCodesStatus,
+  regenerateRecoveryCodes,
+  setupMfa,
+  verifyMfaLogin,
+} from "../controllers/MfaController";
+import {
+  deletePasskey,
+  listPasskeys,
+  passkeyLoginOptions,
+  passkeyLoginVerify,
+  passkeyRegistrationOptions,
+  passkeyRegistrationVerify,
+} from "../controllers/PasskeyController";
+import {
+  resendPhoneVerification,
+  verifyPhone,
+} from "../controllers/PhoneController";
+import {
+  listSessions,
+  reauthenticate,
+  reportSuspiciousSignIn,
+  revokeSession,
+  signInReportPage,
+} from "../controllers/SessionController";
+import {
+  confirmLink,
+  linkIntent,
+  listLinkedAccounts,
+  unlinkAccount,
+} from "../controllers/LinkedIdentityController";
+import { listActivity } from "../controllers/AuditController";
+import {
+  RECENT_AUTH_MAX_AGE_SECONDS,
+  THROTTLE_ACTIONS,
+} from "../constants/common";
 
 const router = Router();
 
+// Opened from emails, so they carry no service header; the token names the service
+// GET only shows a confirmation page, the change happens on POST
+router.get(
+  "/signin-report",
+  validate(signInReportSchema, "query"),
+  signInReportPage
+);
+router.post(
+  "/signin-report",
+  validate(signInReportSchema),
+  reportSuspiciousSignIn
+);
+router.get(
+  "/email-change/revert",
+  validate(emailChangeRevertSchema, "query"),
+  undoEmailChangePage
+);
+router.post(
+  "/email-change/revert",
+  validate(emailChangeRevertSchema),
+  undoEmailChange
+);
+router.get(
+  "/unlock-account",
+  validate(unlockAccountSchema, "query"),
+  unlockAccountPage
+);
+router.post(
+  "/unlock-account",
+  validate(unlockAccountSchema),
+  throttle(THROTTLE_ACTIONS.UNLOCK_ACCOUNT),
+  unlockAccount
+);
+
 // Apply extractService middleware to all routes
 router.use(extractService);
 
 // Public routes
-router.post("/signup", validate(registerSchema), register);
-router.post("/signin", validate(loginSchema), login);
+// Each registration attempt sends a verification email, so all of them count
+router.post(
+  "/signup",
+  validate(registerSchema),
+  throttle(THROTTLE_ACTIONS.REGISTER),
+  register
+);
+router.post(
+  "/signin",
+  validate(loginSchema),
+  throttle(THROTTLE_ACTIONS.SIGNIN),
+  login
+);
+router.post(
+  "/signin/mfa",
+  validate(mfaLoginSchema),
+  throttle(THROTTLE_ACTIONS.SIGNIN_MFA),
+  verifyMfaLogin
+);
 router.post(
   "/refresh-token",
   validate(refreshTokenSchema, "headers"),
   refreshToken
 );
-router.post("/verify-email", validate(verifyEmailSchema), verifyEmail);
-router.post("/forgot-password", validate(forgotPasswordSchema), forgotPassword);
-router.post("/reset-password", validate(resetPasswordSchema), resetPassword);
+router.post(
+  "/verify-email",
+  validate(verifyEmailSchema),
+  throttle(THROTTLE_ACTIONS.VERIFY_EMAIL),
+  verifyEmail
+);
+router.post(
+  "/forgot-password",
+  validate(forgotPasswordSchema),
+  throttle(THROTTLE_ACTIONS.FORGOT_PASSWORD),
+  forgotPassword
+);
+router.post(
+  "/reset-password",
+  validate(resetPasswordSchema),
+  throttle(THROTTLE_ACTIONS.RESET_PASSWORD),
+  resetPassword
+);
+router.post(
+  "/magic-link",
+  validate(magicLinkRequestSchema),
+  throttle(THROTTLE_ACTIONS.MAGIC_LINK),
+  requestMagicLink
+);
+router.post(
+  "/magic-link/verify",
+  validate(magicLinkLoginSchema),
+  magicLinkLogin
+);
+router.post(
+  "/passkeys/login/options",
+  validate(passkeyLoginOptionsSchema),
+  throttle(THROTTLE_ACTIONS.PASSKEY_SIGNIN),
+  passkeyLoginOptions
+);
+router.post(
+  "/passkeys/login/verify",
+  validate(passkeyLoginSchema),
+  throttle(THROTTLE_ACTIONS.PASSKEY_SIGNIN),
+  passkeyLoginVerify
+);
+router.post(
+  "/linked-identities/confirm",
+  validate(linkConfirmSchema),
+  throttle(THROTTLE_ACTIONS.LINK_CONFIRM),
+  confirmLink
+);
 
 // Protected routes require authentication
 router.use(validate(tokenHeaderSchema, "headers"), authenticate);
@@ -50,4 +205,62 @@ router.put("/profile", validate(updateProfileSchema), updateProfile);
 router.post("/logout", logout);
 router.post("/logout-all", logoutAll);
 
+// Step-up: a short-lived access token with a fresh auth_time
+router.post("/reauth", validate(reauthSchema), reauthenticate);
+
+// Removing or replacing sign-in factors needs a recent sign-in or step-up
+const recentAuth = requireRecentAuth(RECENT_AUTH_MAX_AGE_SECONDS);
+
+// Sessions
+router.get("/sessions", listSessions);
+router.delete(
+  "/sessions/:id",
+  validate(objectIdParamSchema, "params"),
+  revokeSession
+);
+
+// Security activity history
+router.get("/activity", validate(activityQuerySchema, "query"), listActivity);
+
+// Phone verification
+router.post("/phone/verify", validate(verifyPhoneSchema), verifyPhone);
+router.post("/phone/resend-otp", resendPhoneVerification);
+
+// Multi-factor authentication
+router.post("/mfa/setup", setupMfa);
+router.post("/mfa/confirm", validate(mfaCodeSchema), confirmMfa);
+router.post("/mfa/disable", validate(mfaCodeSchema), recentAuth, disableMfa);
+router.get("/mfa/recovery-codes", getRecoveryCodesStatus);
+router.post(
+  "/mfa/recovery-codes",
+  validate(mfaCodeSchema),
+  recentAuth,
+  regenerateRecoveryCodes
+);
+
+// Passkeys
+router.get("/passkeys", listPasskeys);
+router.post("/passkeys/register/options", passkeyRegistrationOptions);
+router.post(
+  "/passkeys/register/verify",
+  validate(passkeyRegistrationSchema),
+  passkeyRegistrationVerify
+);
+router.delete(
+  "/passkeys/:id",
+  validate(objectIdParamSchema, "params"),
+  recentAuth,
+  deletePasskey
+);
+
+// Linked social accounts
+router.get("/linked-identities", listLinkedAccounts);
+router.post("/linked-identities/intent", linkIntent);
+router.delete(
+  "/linked-identities/:id",
+  validate(objectIdParamSchema, "params"),
+  recentAuth,
+  unlinkAccount
+);
+
 export default router;
@@ -1,33 +1,65 @@
 import { Router } from "express";
-import passport from "passport";
 import "../config/passport";
+import { config } from "../config/app";
 import {
+  authenticateOAuthProvider,
+  discordAuth,
+  discordCallback,
   exchangeCode,
   githubAuth,
   githubCallback,
+  gitlabAuth,
+  gitlabCallback,
   googleAuth,
   googleCallback,
+  microsoftAuth,
+  microsoftCallback,
+  oidcAuth,
+  oidcCallback,
+  verifyOAuthState,
 } from "../controllers/OauthController";
-import { oauthParamsSchema, validate } from "../middleware/validation";
+import {
+  exchangeCodeSchema,
+  oauthParamsSchema,
+  validate,
+} from "../middleware/validation";
 
 const router = Router();
 
-// Start flows - service comes from query params
-router.get("/google", validate(oauthParamsSchema, "query"), googleAuth);
-router.get("/github", validate(oauthParamsSchema, "query"), githubAuth);
+// Providers are only mounted when their credentials are configured
+const oauthProviders = [
+  { name: "google", start: googleAuth, callback: googleCallback },
+  { name: "github", start: githubAuth, callback: githubCallback },
+  { name: "microsoft", start: microsoftAuth, callback: microsoftCallback },
+  { name: "gitlab", start: gitlabAuth, callback: gitlabCallback },
+  { name: "discord", start: discordAuth, callback: discordCallback },
+] as const;
+
+for (const { name, start, callback } of oauthProviders) {
+  if (!config.oauth[name]) continue;
+
+  // Start flow - service comes from query params
+  router.get(`/${name}`, validate(oauthParamsSchema, "query"), start);
+
+  // Callback
+  router.get(
+    `/callback/${name}`,
+    verifyOAuthState,
+    authenticateOAuthProvider(name),
+    callback
+  );
+}
+
+// Generic OpenID Connect providers, by slug
+if (Object.keys(config.oauth.oidc).length) {
+  router.get("/oidc/:provider", validate(oauthParamsSchema, "query"), oidcAuth);
+  router.get("/callback/oidc/:provider", verifyOAuthState, oidcCallback);
+}
 
-// Callbacks
-router.get(
-  "/callback/google",
-  passport.authenticate("google", { session: false }),
-  googleCallback
-);
 router.get(
-  "/callback/github",
-  passport.authenticate("github", { session: false }),
-  githubCallback
+  "/exchange-code",
+  validate(exchangeCodeSchema, "query"),
+  exchangeCode
 );
 
-router.get("/exchange-code", exchangeCode);
-
 export default router;
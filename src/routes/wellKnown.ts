@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { jwks } from "../controllers/JwksController";
+
+const router = Router();
+
+/**
+ * Public signing keys for verifying access tokens
+ */
+router.get("/jwks.json", jwks);
+
+export default router;
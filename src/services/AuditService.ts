@@ -0,0 +1,183 @@
+import { Prisma, type AuditEvent } from "@prisma/client";
+import { prisma } from "../config/prisma";
+import {
+  AUDIT_EVENT_SUMMARY_FIELDS,
+  AUDIT_LOG_SETTINGS,
+} from "../constants/common";
+import { logger } from "../helpers/logger";
+import { hashData } from "../utils/crypto";
+import { currentDate } from "../utils/dayjs";
+import type {
+  AuditActivityPage,
+  AuditChainVerification,
+  AuditEventInput,
+  AuditHashInput,
+} from "../types/audit";
+
+/**
+ * Hash of an event's content and the hash of the event before it
+ * Editing, inserting or removing an event breaks every hash after it
+ */
+export const computeAuditHash = (event: AuditHashInput): string =>
+  hashData(
+    JSON.stringify([
+      event.chain,
+      event.sequence,
+      event.userId,
+      event.service,
+      event.type,
+      event.outcome,
+      event.ipAddress,
+      event.userAgent,
+      event.metadata,
+      event.createdAt.toISOString(),
+      event.previousHash,
+    ])
+  );
+
+/**
+ * The chain an event belongs to
+ * Each user has their own, so writes for different users never wait on each
+ * other; events about no known user are chained per service
+ */
+export const getAuditChain = ({
+  userId,
+  service,
+}: Pick<AuditEventInput, "userId" | "service">): string =>
+  userId ? `user:${userId}` : `service:${service}`;
+
+// Another writer took the sequence number first
+const isSequenceConflict = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P2002";
+
+// Append an event after the current head of its chain
+const appendAuditEvent = async (input: AuditEventInput): Promise<void> => {
+  const chain = getAuditChain(input);
+  const head = await prisma.auditEvent.findFirst({
+    where: { chain },
+    orderBy: { sequence: "desc" },
+    select: { sequence: true, hash: true },
+  });
+
+  const fields = {
+    chain,
+    sequence: (head?.sequence ?? 0) + 1,
+    userId: input.userId ?? null,
+    service: input.service,
+    type: input.type,
+    outcome: input.outcome,
+    ipAddress: input.ipAddress ?? null,
+    userAgent: input.userAgent ?? null,
+    createdAt: currentDate(),
+    previousHash: head?.hash ?? null,
+  };
+  const hash = computeAuditHash({
+    ...fields,
+    metadata: input.metadata ?? null,
+  });
+
+  // Events without metadata leave the field unset, which reads back as null
+  await prisma.auditEvent.create({
+    data: {
+      ...fields,
+      ...(input.metadata && { metadata: input.metadata }),
+      hash,
+    },
+  });
+};
+
+/**
+ * Record a security event
+ * Failures are logged rather than thrown, so auditing never fails a request
+ */
+export const recordAuditEvent = async (
+  input: AuditEventInput
+): Promise<void> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await appendAuditEvent(input);
+      return;
+    } catch (error) {
+      if (
+        isSequenceConflict(error) &&
+        attempt < AUDIT_LOG_SETTINGS.APPEND_RETRIES
+      ) {
+        continue;
+      }
+      logger.error("Failed to record audit event", {
+        error,
+        type: input.type,
+        userId: input.userId,
+      });
+      return;
+    }
+  }
+};
+
+/**
+ * A user's own security history, newest first
+ */
+export const listUserAuditEvents = async (
+  userId: string,
+  page: number,
+  limit: number
+): Promise<AuditActivityPage> => {
+  const [events, total] = await Promise.all([
+    prisma.auditEvent.findMany({
+      where: { userId },
+      select: AUDIT_EVENT_SUMMARY_FIELDS,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.auditEvent.count({ where: { userId } }),
+  ]);
+
+  return {
+    events,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+};
+
+/**
+ * Walk one chain and report the first event that does not fit
+ * A gap in the sequence means an event was removed
+ */
+export const verifyAuditChain = async (
+  chain: string
+): Promise<AuditChainVerification> => {
+  let previous: { sequence: number; hash: string } | null = null;
+  let checked = 0;
+
+  for (;;) {
+    const batch: AuditEvent[] = await prisma.auditEvent.findMany({
+      where: { chain, sequence: { gt: previous?.sequence ?? 0 } },
+      orderBy: { sequence: "asc" },
+      take: AUDIT_LOG_SETTINGS.VERIFY_BATCH_SIZE,
+    });
+
+    for (const event of batch) {
+      const expectedSequence: number = (previous?.sequence ?? 0) + 1;
+      if (
+        event.sequence !== expectedSequence ||
+        event.previousHash !== (previous?.hash ?? null) ||
+        event.hash !== computeAuditHash(event)
+      ) {
+        return { valid: false, checked, brokenAtSequence: expectedSequence };
+      }
+
+      previous = { sequence: event.sequence, hash: event.hash };
+      checked++;
+    }
+
+    if (batch.length < AUDIT_LOG_SETTINGS.VERIFY_BATCH_SIZE) {
+      return { valid: true, checked };
+    }
+  }
+};
@@ -0,0 +1,190 @@
+import type { Prisma } from "@prisma/client";
+import { config } from "../config/app";
+import { prisma } from "../config/prisma";
+import {
+  KV_STORE_CLEANUP_INTERVAL_SECONDS,
+  KV_STORE_DRIVERS,
+} from "../constants/common";
+import { currentDate } from "../utils/dayjs";
+import type { KeyValueStore, KeyValueStoreDriver } from "../types/store";
+
+/**
+ * Process-local store, for single-instance deployments and development
+ */
+export const createMemoryKeyValueStore = (): KeyValueStore => {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  // Return a live entry, dropping it once expired
+  const read = <T>(key: string): T | null => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= currentDate().getTime()) {
+      entries.delete(key);
+      return null;
+    }
+    return entry.value as T;
+  };
+
+  // Periodically remove expired entries
+  const cleanup = () => {
+    const now = currentDate().getTime();
+    for (const [key, { expiresAt }] of entries.entries()) {
+      if (expiresAt <= now) entries.delete(key);
+    }
+  };
+
+  setInterval(cleanup, KV_STORE_CLEANUP_INTERVAL_SECONDS * 1000).unref();
+
+  return {
+    get: async <T>(key: string) => read<T>(key),
+    set: async (key, value, expiresAt) => {
+      entries.set(key, { value, expiresAt: expiresAt.getTime() });
+    },
+    take: async <T>(key: string) => {
+      const value = read<T>(key);
+      entries.delete(key);
+      return value;
+    },
+    delete: async (key) => {
+      entries.delete(key);
+    },
+    // Nothing awaits between the read and the write, so this is atomic
+    increment: async (key, expiresAt) => {
+      const count = (read<number>(key) ?? 0) + 1;
+      const entry = entries.get(key);
+      const resetAt = entry ? entry.expiresAt : expiresAt.getTime();
+
+      entries.set(key, { value: count, expiresAt: resetAt });
+      return { count, resetAt };
+    },
+  };
+};
+
+// Dates come back from raw commands as extended JSON
+type ExtendedJsonDate = { $date: string | { $numberLong: string } };
+
+const fromExtendedJsonDate = ({ $date }: ExtendedJsonDate): number =>
+  typeof $date === "string"
+    ? new Date($date).getTime()
+    : Number($date.$numberLong);
+
+/**
+ * MongoDB-backed store shared by every instance and kept across restarts
+ */
+export const createDatabaseKeyValueStore = (): KeyValueStore => {
+  // The TTL monitor runs about once a minute, so expiry is checked on read too
+  const findLive = (key: string) =>
+    prisma.keyValueEntry.findFirst({
+      where: { key, expiresAt: { gt: currentDate() } },
+    });
+
+  return {
+    get: async <T>(key: string) => {
+      const entry = await findLive(key);
+      return (entry?.value ?? null) as T | null;
+    },
+    set: async (key, value, expiresAt) => {
+      const data = { value: value as Prisma.InputJsonValue, expiresAt };
+      await prisma.keyValueEntry.upsert({
+        where: { key },
+        create: { key, ...data },
+        update: data,
+      });
+    },
+    take: async <T>(key: string) => {
+      const entry = await findLive(key);
+      if (!entry) return null;
+
+      // Only the caller that deletes the entry gets its value
+      const { count } = await prisma.keyValueEntry.deleteMany({
+        where: { id: entry.id },
+      });
+      return count === 0 ? null : (entry.value as T);
+    },
+    delete: async (key) => {
+      await prisma.keyValueEntry.deleteMany({ where: { key } });
+    },
+    // One findAndModify, as Prisma has no atomic increment on JSON values
+    // An entry the TTL monitor has not removed yet is restarted like a missing one
+    increment: async (key, expiresAt) => {
+      const now = { $date: currentDate().toISOString() };
+      const isLive = { $gt: ["$expiresAt", now] };
+
+      const result = (await prisma.$runCommandRaw({
+        findAndModify: "kv_entries",
+        query: { key },
+        update: [
+          {
+            $set: {
+              key,
+              value: { $cond: [isLive, { $add: ["$value", 1] }, 1] },
+              expiresAt: {
+                $cond: [
+                  isLive,
+                  "$expiresAt",
+                  { $date: expiresAt.toISOString() },
+                ],
+              },
+              createdAt: { $ifNull: ["$createdAt", now] },
+            },
+          },
+        ],
+        upsert: true,
+        new: true,
+      })) as { value: { value: number; expiresAt: ExtendedJsonDate } };
+
+      return {
+        count: result.value.value,
+        resetAt: fromExtendedJsonDate(result.value.expiresAt),
+      };
+    },
+  };
+};
+
+/**
+ * Create the store for a built-in driver
+ */
+const createKeyValueStore = (driver: KeyValueStoreDriver): KeyValueStore => {
+  switch (driver) {
+    case KV_STORE_DRIVERS.MEMORY:
+      return createMemoryKeyValueStore();
+    case KV_STORE_DRIVERS.DATABASE:
+      return createDatabaseKeyValueStore();
+    default:
+      throw new Error(`Unsupported key-value store driver: ${driver}`);
+  }
+};
+
+// Active store, replaceable at startup with another backend (e.g., Redis)
+let store: KeyValueStore = createKeyValueStore(config.kvStore.driver);
+
+/**
+ * Replace the active key-value store
+ */
+export const setKeyValueStore = (keyValueStore: KeyValueStore): void => {
+  store = keyValueStore;
+};
+
+/**
+ * Get the active key-value store
+ */
+export const getKeyValueStore = (): KeyValueStore => store;
+
+/**
+ * Create the TTL index that lets MongoDB remove expired entries
+ * Prisma cannot declare TTL indexes, so this runs at startup
+ */
+export const ensureKeyValueStoreIndexes = async (): Promise<void> => {
+  if (config.kvStore.driver !== KV_STORE_DRIVERS.DATABASE) return;
+
+  await prisma.$runCommandRaw({
+    createIndexes: "kv_entries",
+    indexes: [
+      {
+        key: { expiresAt: 1 },
+        name: "expiresAt_ttl",
+        expireAfterSeconds: 0,
+      },
+    ],
+  });
+};
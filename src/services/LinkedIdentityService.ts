@@ -0,0 +1,149 @@
+import type { LinkedIdentity, User } from "@prisma/client";
+import { prisma } from "../config/prisma";
+import { LINKED_IDENTITY_SUMMARY_FIELDS } from "../constants/common";
+import {
+  generateOAuthLinkIntentToken,
+  verifyOAuthLinkToken,
+} from "../helpers/jwt";
+import { throwError } from "../utils/response";
+import { authenticateUser } from "./UserService";
+import { verifyMfaChallenge } from "./MfaService";
+import type { MfaVerificationInput } from "../types/auth";
+import type {
+  LinkedIdentityKey,
+  LinkedIdentitySummary,
+  OAuthLinkConfirmation,
+} from "../types/user";
+
+// Unique key of an identity: the provider account, within a service
+const identityWhere = ({
+  service,
+  provider,
+  providerUserId,
+}: LinkedIdentityKey) => ({
+  service_provider_providerUserId: { service, provider, providerUserId },
+});
+
+/**
+ * Find the identity of a provider account, with the user it is linked to
+ */
+export const findLinkedIdentity = (identity: LinkedIdentityKey) =>
+  prisma.linkedIdentity.findUnique({
+    where: identityWhere(identity),
+    include: { user: true },
+  });
+
+/**
+ * Link a provider account to a user
+ * A provider account can only be linked to one user of a service
+ */
+export const linkIdentity = async (
+  userId: string,
+  identity: LinkedIdentityKey & { email: string }
+): Promise<LinkedIdentity> => {
+  const existing = await prisma.linkedIdentity.findUnique({
+    where: identityWhere(identity),
+  });
+
+  if (existing) {
+    if (existing.userId !== userId) {
+      throwError(
+        `This ${identity.provider} account is already linked to another user`,
+        409
+      );
+    }
+    return existing;
+  }
+
+  return prisma.linkedIdentity.create({
+    data: {
+      userId,
+      service: identity.service,
+      provider: identity.provider,
+      providerUserId: identity.providerUserId,
+      email: identity.email,
+    },
+  });
+};
+
+/**
+ * Confirm a pending link with the password (and second factor) of the account
+ * Linking grants the provider account sign-in rights, so it takes a full login
+ */
+export const confirmIdentityLink = async (
+  linkToken: string,
+  password: string,
+  mfa: MfaVerificationInput,
+  service: string
+): Promise<OAuthLinkConfirmation> => {
+  const payload = verifyOAuthLinkToken(linkToken);
+  if (payload.service !== service) throwError("Invalid link token", 401);
+
+  const { user, isValid, mfaToken } = await authenticateUser(
+    payload.email,
+    password,
+    service
+  );
+  if (!isValid || !user) throwError("Invalid email or password!", 401);
+
+  // The account may have changed hands since the token was issued
+  if (user.id !== payload.userId) throwError("Invalid link token", 401);
+
+  if (mfaToken) {
+    if (!mfa.code && !mfa.recoveryCode) return { mfaRequired: true };
+    await verifyMfaChallenge(mfaToken, mfa);
+  }
+
+  await linkIdentity(user.id, payload);
+
+  return { user };
+};
+
+/**
+ * Issue a ticket for a signed-in user to link a provider
+ */
+export const createLinkIntent = (user: User): string =>
+  generateOAuthLinkIntentToken({
+    userId: user.id,
+    service: user.service,
+    purpose: "oauth_link_intent",
+  });
+
+/**
+ * List the provider accounts linked to a user
+ */
+export const listLinkedIdentities = async (
+  userId: string
+): Promise<LinkedIdentitySummary[]> =>
+  prisma.linkedIdentity.findMany({
+    where: { userId },
+    select: LINKED_IDENTITY_SUMMARY_FIELDS,
+    orderBy: { createdAt: "desc" },
+  });
+
+/**
+ * Unlink a provider account
+ * The user must keep a way to sign in: a password, a passkey or another provider
+ */
+export const unlinkIdentity = async (
+  user: User,
+  identityId: string
+): Promise<void> => {
+  const identity = await prisma.linkedIdentity.findFirst({
+    where: { id: identityId, userId: user.id },
+  });
+  if (!identity) throwError("Linked account not found", 404);
+
+  const [otherIdentities, passkeys] = await Promise.all([
+    prisma.linkedIdentity.count({
+      where: { userId: user.id, id: { not: identityId } },
+    }),
+    prisma.credential.count({ where: { userId: user.id } }),
+  ]);
+
+  if (!user.passwordInfo?.hash && !otherIdentities && !passkeys) {
+    throwError("Set a password before unlinking your only sign-in method", 400);
+  }
+
+  await prisma.linkedIdentity.delete({ where: { id: identity.id } });
+};
@@ -0,0 +1,287 @@
+import { prisma } from "../config/prisma";
+import type { MfaInfo, User } from "@prisma/client";
+import { throwError } from "../utils/response";
+import { currentDate } from "../utils/dayjs";
+import { isAccountLocked } from "../helpers/user";
+import { verifyMfaChallengeToken } from "../helpers/jwt";
+import { logger } from "../helpers/logger";
+import {
+  decryptMfaSecret,
+  encryptMfaSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotpCode,
+} from "../helpers/mfa";
+import { generateRecoveryCodeUsedTemplate } from "../templates/emailTemplates";
+import type { MfaVerificationInput } from "../types/auth";
+import type { ClientContext, FailedCheckAudit } from "../types/audit";
+import { AUDIT_EVENT_TYPES } from "../constants/common";
+import { sendEmail } from "./EmailService";
+import { recordFailedCheck, recordSuccessfulLogin } from "./UserService";
+
+// Start MFA enrollment by storing a pending TOTP secret for the user
+export const startMfaEnrollment = async (
+  user: User
+): Promise<{ secret: string; otpauthUri: string }> => {
+  if (user.mfaInfo?.isEnabled) {
+    throwError("Multi-factor authentication is already enabled", 409);
+  }
+
+  const { secret, otpauthUri } = generateTotpSecret(user.email);
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      mfaInfo: {
+        isEnabled: false,
+        pendingSecret: encryptMfaSecret(secret),
+      },
+    },
+  });
+
+  return { secret, otpauthUri };
+};
+
+// Confirm MFA enrollment with a code generated from the pending secret
+// Returns the plain recovery codes, which are only shown to the user once
+export const confirmMfaEnrollment = async (
+  user: User,
+  code: string
+): Promise<{ user: User; recoveryCodes: string[] }> => {
+  const mfaInfo = user.mfaInfo;
+
+  if (mfaInfo?.isEnabled) {
+    throwError("Multi-factor authentication is already enabled", 409);
+  }
+  if (!mfaInfo?.pendingSecret) {
+    throwError("No pending MFA setup found. Please start setup again.", 400);
+  }
+
+  const step = verifyTotpCode(decryptMfaSecret(mfaInfo.pendingSecret), code);
+  if (step === null) throwError("Invalid verification code", 400);
+
+  const { codes, hashed } = generateRecoveryCodes();
+
+  const updatedUser = await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      mfaInfo: {
+        isEnabled: true,
+        secret: mfaInfo.pendingSecret,
+        pendingSecret: null,
+        lastUsedStep: step,
+        recoveryCodes: hashed,
+        enabledAt: currentDate(),
+      },
+    },
+  });
+
+  return { user: updatedUser, recoveryCodes: codes };
+};
+
+// Verify a TOTP code against the user's active secret
+// Records the matched time step together with any additional MFA changes
+const verifyUserTotp = async (
+  user: User,
+  code: string,
+  changes: Partial<MfaInfo> = {}
+): Promise<boolean> => {
+  const mfaInfo = user.mfaInfo as MfaInfo;
+  if (!mfaInfo.secret) return false;
+
+  const step = verifyTotpCode(
+    decryptMfaSecret(mfaInfo.secret),
+    code,
+    mfaInfo.lastUsedStep
+  );
+  if (step === null) return false;
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      mfaInfo: {
+        ...mfaInfo,
+        lastUsedStep: step,
+        ...changes,
+      },
+    },
+  });
+
+  return true;
+};
+
+// Check a TOTP code for a change to the user's own MFA settings
+// Wrong codes count towards the account lockout, like those at sign-in
+const verifyCurrentTotp = async (
+  user: User,
+  code: string,
+  audit: FailedCheckAudit,
+  changes: Partial<MfaInfo> = {}
+): Promise<void> => {
+  if (isAccountLocked(user)) {
+    throwError(
+      "Account is temporarily locked due to multiple failed login attempts",
+      423
+    );
+  }
+
+  if (!(await verifyUserTotp(user, code, changes))) {
+    await recordFailedCheck(user, audit);
+    throwError("Invalid verification code", 400);
+  }
+};
+
+// Consume a recovery code, returning false if it is unknown or already used
+// The update only matches while the code is still stored, so it cannot be used twice
+const consumeRecoveryCode = async (
+  user: User,
+  recoveryCode: string
+): Promise<boolean> => {
+  const mfaInfo = user.mfaInfo as MfaInfo;
+  const hashed = hashRecoveryCode(recoveryCode);
+  if (!mfaInfo.recoveryCodes.includes(hashed)) return false;
+
+  const remainingCodes = mfaInfo.recoveryCodes.filter((c) => c !== hashed);
+  const result = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      mfaInfo: { is: { recoveryCodes: { has: hashed } } },
+    },
+    data: {
+      mfaInfo: {
+        ...mfaInfo,
+        recoveryCodes: remainingCodes,
+      },
+    },
+  });
+  if (result.count === 0) return false;
+
+  // Notify the owner (non-blocking)
+  generateRecoveryCodeUsedTemplate(user.fullname, remainingCodes.length)
+    .then((template) => sendEmail(user.email, template))
+    .catch((error) => {
+      logger.error("Failed to send recovery code used email", {
+        error,
+        userId: user.id,
+      });
+    });
+
+  return true;
+};
+
+// Regenerate recovery codes, invalidating the previous set
+export const regenerateUserRecoveryCodes = async (
+  user: User,
+  code: string,
+  client: ClientContext = {}
+): Promise<string[]> => {
+  if (!user.mfaInfo?.isEnabled) {
+    throwError("Multi-factor authentication is not enabled", 400);
+  }
+
+  const { codes, hashed } = generateRecoveryCodes();
+
+  await verifyCurrentTotp(
+    user,
+    code,
+    { ...client, type: AUDIT_EVENT_TYPES.RECOVERY_CODES_REGENERATED },
+    { recoveryCodes: hashed }
+  );
+
+  return codes;
+};
+
+// Count the unused recovery codes of a user
+export const getRemainingRecoveryCodes = (user: User): number => {
+  if (!user.mfaInfo?.isEnabled) {
+    throwError("Multi-factor authentication is not enabled", 400);
+  }
+
+  return user.mfaInfo.recoveryCodes.length;
+};
+
+// Disable MFA after the user proves possession of the current factor
+export const disableMfaForUser = async (
+  user: User,
+  code: string,
+  client: ClientContext = {}
+): Promise<User> => {
+  if (!user.mfaInfo?.isEnabled) {
+    throwError("Multi-factor authentication is not enabled", 400);
+  }
+
+  await verifyCurrentTotp(user, code, {
+    ...client,
+    type: AUDIT_EVENT_TYPES.MFA_DISABLED,
+  });
+
+  return prisma.user.update({
+    where: { id: user.id },
+    data: {
+      mfaInfo: {
+        isEnabled: false,
+        secret: null,
+        pendingSecret: null,
+        lastUsedStep: null,
+        recoveryCodes: [],
+        enabledAt: null,
+      },
+    },
+  });
+};
+
+// Check a TOTP code or consume a recovery code of a user with MFA enabled
+// A wrong code is audited as a failure of the action it was meant to confirm
+export const verifyUserSecondFactor = async (
+  user: User,
+  { code, recoveryCode }: MfaVerificationInput,
+  audit: FailedCheckAudit
+): Promise<void> => {
+  const isValid = recoveryCode
+    ? await consumeRecoveryCode(user, recoveryCode)
+    : !!code && (await verifyUserTotp(user, code));
+
+  // Wrong codes count towards the regular account lockout
+  if (!isValid) {
+    await recordFailedCheck(user, audit);
+    throwError("Invalid verification code", 401);
+  }
+};
+
+// Complete a two-phase login using the MFA challenge token and either
+// a TOTP code or a single-use recovery code
+export const verifyMfaChallenge = async (
+  mfaToken: string,
+  input: MfaVerificationInput,
+  client: ClientContext = {}
+): Promise<User> => {
+  const payload = verifyMfaChallengeToken(mfaToken);
+
+  const user = await prisma.user.findFirst({
+    where: {
+      id: payload.userId,
+      service: payload.service,
+    },
+  });
+
+  if (!user || !user.mfaInfo?.isEnabled) {
+    throwError("Invalid MFA challenge", 401);
+  }
+
+  if (isAccountLocked(user)) {
+    throwError(
+      "Account is temporarily locked due to multiple failed login attempts",
+      423
+    );
+  }
+
+  await verifyUserSecondFactor(user, input, {
+    ...client,
+    type: AUDIT_EVENT_TYPES.SIGNIN,
+    metadata: { method: input.recoveryCode ? "recovery_code" : "mfa" },
+  });
+  await recordSuccessfulLogin(user.id);
+
+  return user;
+};
@@ -1,24 +1,84 @@
 import type { Profile as GoogleProfile } from "passport-google-oauth20";
 import type { Profile as GitHubProfile } from "passport-github2";
+import type { Profile as GitLabProfile } from "passport-gitlab2";
+import type { Profile as DiscordProfile } from "passport-discord";
+import type { Profile as PassportProfile } from "passport";
+import type { User } from "@prisma/client";
+import jwt from "jsonwebtoken";
 import { prisma } from "../config/prisma";
 import { logger } from "../helpers/logger";
-import { GITHUB_EMAIL_API, AUTH_PROVIDERS } from "../constants/common";
-import type { IOAuthUser } from "../types/user";
+import {
+  GITHUB_EMAIL_API,
+  AUTH_PROVIDERS,
+  DISCORD_AVATAR_URL,
+} from "../constants/common";
+import type { IOAuthUser, OAuthLoginResult } from "../types/user";
+import type { MicrosoftIdTokenClaims } from "../types/oidc";
+import { generateOAuthLinkToken } from "../helpers/jwt";
+import { findLinkedIdentity, linkIdentity } from "./LinkedIdentityService";
 import { throwError } from "../utils/response";
-import type { User } from "@prisma/client";
 import { currentDate } from "../utils/dayjs";
 
 /**
- * Create or find user from OAuth provider
+ * Resolve the user of an OAuth login
+ * A known identity logs its user in; an unknown one is linked to a new
+ * account, or to an existing account without a password. Existing password
+ * accounts are only linked once their holder confirms with the link token.
+ * An email the provider does not vouch for never matches an existing account
+ * on its own, nor does an account whose own email was never verified: both
+ * take the link token.
+ * With linkUserId, the identity is linked to that signed-in user instead.
  */
-export const createOAuthUser = async (oauthUser: IOAuthUser): Promise<User> => {
-  const { email, displayName, avatarUrl, provider, service } = oauthUser;
+export const createOAuthUser = async (
+  oauthUser: IOAuthUser,
+  linkUserId?: string
+): Promise<OAuthLoginResult> => {
+  const {
+    email,
+    displayName,
+    avatarUrl,
+    provider,
+    providerUserId,
+    service,
+    isVerified,
+  } = oauthUser;
+
+  if (linkUserId) {
+    await linkIdentity(linkUserId, oauthUser);
+
+    const user = await prisma.user.findUnique({ where: { id: linkUserId } });
+    if (!user) throwError("User not found", 404);
+    return { user };
+  }
+
+  const identity = await findLinkedIdentity(oauthUser);
+  if (identity) return { user: identity.user };
 
   const existingUser = await prisma.user.findFirst({
     where: { email, service },
   });
 
-  if (existingUser) return existingUser;
+  if (
+    existingUser &&
+    (existingUser.passwordInfo?.hash ||
+      !isVerified ||
+      !existingUser.emailInfo.isVerified)
+  ) {
+    const linkToken = generateOAuthLinkToken({
+      userId: existingUser.id,
+      service,
+      provider,
+      providerUserId,
+      email,
+      purpose: "oauth_link",
+    });
+    return { linkToken };
+  }
+
+  if (existingUser) {
+    await linkIdentity(existingUser.id, oauthUser);
+    return { user: existingUser };
+  }
 
   const newUser = await prisma.user.create({
     data: {
@@ -27,7 +87,7 @@ export const createOAuthUser = async (oauthUser: IOAuthUser): Promise<User> => {
       service,
       ...(avatarUrl && { profileImage: avatarUrl }),
       emailInfo: {
-        isVerified: true,
+        isVerified,
         ...(provider && { provider }),
       },
       passwordInfo: {
@@ -39,10 +99,13 @@ export const createOAuthUser = async (oauthUser: IOAuthUser): Promise<User> => {
       },
       isActive: true,
       lastLoginAt: currentDate(),
+      linkedIdentities: {
+        create: { service, provider, providerUserId, email },
+      },
     },
   });
 
-  return newUser;
+  return { user: newUser };
 };
 
 /**
@@ -51,8 +114,9 @@ export const createOAuthUser = async (oauthUser: IOAuthUser): Promise<User> => {
 export const handleGoogleAuth = async (
   profile: GoogleProfile,
   provider: typeof AUTH_PROVIDERS.GOOGLE,
-  service: string
-): Promise<User> => {
+  service: string,
+  linkUserId?: string
+): Promise<OAuthLoginResult> => {
   const email = profile.emails?.[0]?.value;
   const avatarUrl = profile.photos?.[0]?.value;
   const displayName = profile.displayName || profile.name?.givenName;
@@ -66,10 +130,11 @@ export const handleGoogleAuth = async (
     displayName,
     ...(avatarUrl && { avatarUrl }),
     provider,
+    providerUserId: profile.id,
     isVerified: true,
   };
 
-  return await createOAuthUser(oauthUser);
+  return createOAuthUser(oauthUser, linkUserId);
 };
 
 /**
@@ -78,34 +143,33 @@ export const handleGoogleAuth = async (
 export const handleGithubAuth = async (
   profile: GitHubProfile,
   accessToken: string,
-  service: string
-): Promise<User> => {
-  let email = profile.emails?.[0]?.value;
-
-  // Fetch email from GitHub API if not in profile
-  if (!email) {
-    try {
-      const response = await fetch(GITHUB_EMAIL_API, {
-        headers: { Authorization: `token ${accessToken}` },
-      });
-
-      if (!response.ok) throwError(`GitHub API error: ${response.status}`, 400);
-
-      const emails = (await response.json()) as {
-        email: string;
-        primary: boolean;
-        verified: boolean;
-      }[];
-
-      const primaryEmail = emails.find((e) => e.primary)?.email;
-      email = primaryEmail ?? emails[0]?.email;
-    } catch (error) {
-      logger.error("Failed to fetch GitHub user emails", error, profile);
-      throwError("Unable to retrieve user email from GitHub", 400);
-    }
+  service: string,
+  linkUserId?: string
+): Promise<OAuthLoginResult> => {
+  // The profile's emails carry no verification state, so the API is asked
+  let email: string | undefined;
+  try {
+    const response = await fetch(GITHUB_EMAIL_API, {
+      headers: { Authorization: `token ${accessToken}` },
+    });
+
+    if (!response.ok) throwError(`GitHub API error: ${response.status}`, 400);
+
+    const emails = (await response.json()) as {
+      email: string;
+      primary: boolean;
+      verified: boolean;
+    }[];
+
+    // Only an address GitHub has verified may match or create an account
+    const verifiedEmails = emails.filter((e) => e.verified);
+    email = (verifiedEmails.find((e) => e.primary) ?? verifiedEmails[0])?.email;
+  } catch (error) {
+    logger.error("Failed to fetch GitHub user emails", error, profile);
+    throwError("Unable to retrieve user email from GitHub", 400);
   }
 
-  if (!email) throwError("No email found for GitHub user", 404);
+  if (!email) throwError("No verified email found for GitHub user", 403);
 
   const displayName = profile.displayName || profile.username;
   if (!displayName) throwError("No display name found in GitHub profile", 400);
@@ -116,8 +180,126 @@ export const handleGithubAuth = async (
     displayName,
     ...(profile.photos?.[0]?.value && { avatarUrl: profile.photos[0].value }),
     provider: AUTH_PROVIDERS.GITHUB,
+    providerUserId: profile.id,
     isVerified: true,
   };
 
-  return createOAuthUser(oauthUser);
+  return createOAuthUser(oauthUser, linkUserId);
+};
+
+// Read the email a Microsoft ID token vouches for, if any
+// The token comes straight from the token endpoint over TLS, so it is decoded
+// without checking the signature
+const getMicrosoftVerifiedEmail = (idToken?: string): string | undefined => {
+  const claims = idToken
+    ? (jwt.decode(idToken) as MicrosoftIdTokenClaims | null)
+    : null;
+  if (!claims?.email) return undefined;
+
+  const isVerified = [claims.xms_edov, claims.email_verified].some(
+    (claim) => claim === true || claim === "true"
+  );
+  return isVerified ? claims.email : undefined;
+};
+
+/**
+ * Create or find user from a Microsoft personal or work/school account
+ * Any tenant can sign in through "common" and its admin sets the Graph email,
+ * so the email is only trusted when the ID token proves it is verified
+ */
+export const handleMicrosoftAuth = async (
+  profile: PassportProfile,
+  idToken: string | undefined,
+  service: string,
+  linkUserId?: string
+): Promise<OAuthLoginResult> => {
+  const verifiedEmail = getMicrosoftVerifiedEmail(idToken);
+
+  // passport-microsoft fills emails from the Graph "mail" or "userPrincipalName"
+  const email = verifiedEmail ?? profile.emails?.[0]?.value;
+  const displayName = profile.displayName || profile.name?.givenName;
+
+  if (!email) throwError("No email found in Microsoft profile", 400);
+  if (!displayName)
+    throwError("No display name found in Microsoft profile", 400);
+
+  // profile.id is the object ID (oid), stable for the account
+  const oauthUser: IOAuthUser = {
+    email,
+    service,
+    displayName,
+    provider: AUTH_PROVIDERS.MICROSOFT,
+    providerUserId: profile.id,
+    isVerified: Boolean(verifiedEmail),
+  };
+
+  return createOAuthUser(oauthUser, linkUserId);
+};
+
+/**
+ * Create or find user from GitLab (gitlab.com or a self-managed instance)
+ */
+export const handleGitlabAuth = async (
+  profile: GitLabProfile,
+  service: string,
+  linkUserId?: string
+): Promise<OAuthLoginResult> => {
+  const email = profile.emails?.[0]?.value;
+  const displayName = profile.displayName || profile.username;
+
+  if (!email) throwError("No email found in GitLab profile", 400);
+  if (!displayName) throwError("No display name found in GitLab profile", 400);
+
+  const oauthUser: IOAuthUser = {
+    email,
+    service,
+    displayName,
+    ...(profile.avatarUrl && { avatarUrl: profile.avatarUrl }),
+    provider: AUTH_PROVIDERS.GITLAB,
+    providerUserId: profile.id,
+    isVerified: true,
+  };
+
+  return createOAuthUser(oauthUser, linkUserId);
+};
+
+/**
+ * Create or find user from Discord
+ * Discord lets accounts keep an unverified email, which is not trusted
+ */
+export const handleDiscordAuth = async (
+  profile: DiscordProfile,
+  service: string,
+  linkUserId?: string
+): Promise<OAuthLoginResult> => {
+  const email = profile.email;
+  const displayName = profile.global_name || profile.username;
+
+  if (!email) throwError("No email found in Discord profile", 400);
+  if (!profile.verified) throwError("Discord email is not verified", 403);
+  if (!displayName) throwError("No display name found in Discord profile", 400);
+
+  const oauthUser: IOAuthUser = {
+    email,
+    service,
+    displayName,
+    ...(profile.avatar && {
+      avatarUrl: `${DISCORD_AVATAR_URL}/${profile.id}/${profile.avatar}.png`,
+    }),
+    provider: AUTH_PROVIDERS.DISCORD,
+    providerUserId: profile.id,
+    isVerified: true,
+  };
+
+  return createOAuthUser(oauthUser, linkUserId);
+};
+
+/**
+ * Load the user of an exchanged login code
+ * The account is read again, as it may have been removed since the callback
+ */
+export const getOAuthLoginUser = async (userId: string): Promise<User> => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) throwError("User not found", 404);
+  return user;
 };
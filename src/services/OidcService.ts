@@ -0,0 +1,362 @@
+import { createPublicKey, type JsonWebKey } from "crypto";
+import jwt from "jsonwebtoken";
+import { config } from "../config/app";
+import {
+  AUTH_PROVIDERS,
+  KV_NAMESPACES,
+  OAUTH_STATE_EXPIRY_MINUTES,
+  OIDC_SETTINGS,
+} from "../constants/common";
+import { logger } from "../helpers/logger";
+import { createPkceChallenge, generateRandomString } from "../utils/crypto";
+import { addMinutes, addSeconds, currentDate } from "../utils/dayjs";
+import { throwError } from "../utils/response";
+import { getKeyValueStore } from "./KeyValueStore";
+import { createOAuthUser } from "./OauthService";
+import type {
+  OidcClaims,
+  OidcDiscoveryCacheEntry,
+  OidcDiscoveryDocument,
+  OidcFlowRecord,
+  OidcJwksCacheEntry,
+  OidcProviderConfig,
+  OidcTokenResponse,
+} from "../types/oidc";
+import type { IOAuthUser, OAuthLoginResult } from "../types/user";
+
+// Discovery documents by issuer and key sets by JWKS URI
+const discoveryCache = new Map<string, OidcDiscoveryCacheEntry>();
+const jwksCache = new Map<string, OidcJwksCacheEntry>();
+
+// Flow secrets are keyed by the state nonce hash, unique to one login attempt
+const flowKey = (stateNonceHash: string) =>
+  `${KV_NAMESPACES.OIDC_FLOW}:${stateNonceHash}`;
+
+// Call an identity provider endpoint and parse its JSON response
+const fetchJson = async <T>(
+  url: string,
+  init: RequestInit = {}
+): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      signal: AbortSignal.timeout(OIDC_SETTINGS.REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    logger.error("OpenID Connect request failed", { error, url });
+    throwError("OpenID Connect provider is unavailable", 502);
+  }
+
+  if (!response.ok) {
+    logger.error("OpenID Connect provider error", {
+      url,
+      status: response.status,
+    });
+    throwError(`OpenID Connect provider error: ${response.status}`, 502);
+  }
+
+  return (await response.json()) as T;
+};
+
+/**
+ * Get a configured OpenID Connect provider by slug
+ * The slug comes from the URL, so only own keys count (not "constructor")
+ */
+export const getOidcProvider = (slug: string): OidcProviderConfig =>
+  (Object.hasOwn(config.oauth.oidc, slug) && config.oauth.oidc[slug]) ||
+  throwError("Unknown OpenID Connect provider", 404);
+
+/**
+ * Fetch the provider's discovery document, cached per issuer
+ */
+export const getDiscoveryDocument = async (
+  provider: OidcProviderConfig
+): Promise<OidcDiscoveryDocument> => {
+  const cached = discoveryCache.get(provider.issuer);
+  if (cached && cached.expiresAt > currentDate().getTime()) {
+    return cached.document;
+  }
+
+  const document = await fetchJson<OidcDiscoveryDocument>(
+    `${provider.issuer.replace(/\/+$/, "")}${OIDC_SETTINGS.DISCOVERY_PATH}`
+  );
+
+  // A document announcing another issuer would let it mint our ID tokens
+  if (document.issuer !== provider.issuer) {
+    throwError("OpenID Connect discovery issuer mismatch", 502);
+  }
+
+  discoveryCache.set(provider.issuer, {
+    document,
+    expiresAt: addSeconds(OIDC_SETTINGS.CACHE_TTL_SECONDS).getTime(),
+  });
+
+  return document;
+};
+
+// Find the key an ID token was signed with, refetching the JWKS once
+// when the kid is unknown so provider key rotations are picked up
+const getIdTokenKey = async (jwksUri: string, kid: string | undefined) => {
+  const findKey = (entry: OidcJwksCacheEntry | undefined) =>
+    entry?.keys.find((key) =>
+      kid ? key.kid === kid : entry.keys.length === 1
+    );
+
+  const cached = jwksCache.get(jwksUri);
+  const fresh = cached && cached.expiresAt > currentDate().getTime();
+  const cachedKey = fresh ? findKey(cached) : undefined;
+  if (cachedKey) return createPublicKey({ key: cachedKey, format: "jwk" });
+
+  const { keys } = await fetchJson<{ keys: (JsonWebKey & { kid?: string })[] }>(
+    jwksUri
+  );
+  const entry = {
+    keys,
+    expiresAt: addSeconds(OIDC_SETTINGS.CACHE_TTL_SECONDS).getTime(),
+  };
+  jwksCache.set(jwksUri, entry);
+
+  const key = findKey(entry);
+  if (!key) throwError("Invalid ID token", 401);
+
+  return createPublicKey({ key, format: "jwk" });
+};
+
+/**
+ * Validate an ID token: signature against the provider's JWKS, issuer,
+ * audience, expiry and the nonce sent with the authorization request
+ */
+export const verifyIdToken = async (
+  idToken: string,
+  provider: OidcProviderConfig,
+  discovery: OidcDiscoveryDocument,
+  nonce: string
+): Promise<OidcClaims> => {
+  const decoded = jwt.decode(idToken, { complete: true });
+  const algorithm = decoded?.header.alg;
+  const supportedAlgorithms =
+    discovery.id_token_signing_alg_values_supported ?? ["RS256"];
+
+  if (
+    !algorithm ||
+    !(OIDC_SETTINGS.ID_TOKEN_ALGORITHMS as readonly string[]).includes(
+      algorithm
+    ) ||
+    !supportedAlgorithms.includes(algorithm)
+  ) {
+    throwError("Invalid ID token", 401);
+  }
+
+  const key = await getIdTokenKey(discovery.jwks_uri, decoded?.header.kid);
+
+  let claims: OidcClaims;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: [algorithm as jwt.Algorithm],
+      issuer: discovery.issuer,
+      audience: provider.clientId,
+      clockTolerance: OIDC_SETTINGS.CLOCK_TOLERANCE_SECONDS,
+    }) as OidcClaims;
+  } catch (error) {
+    logger.error("ID token verification failed", { error });
+    throwError("Invalid ID token", 401);
+  }
+
+  if (claims.nonce !== nonce) throwError("Invalid ID token", 401);
+
+  // With several audiences the token must have been issued to us
+  if (
+    Array.isArray(claims.aud) &&
+    claims.aud.length > 1 &&
+    claims.azp !== provider.clientId
+  ) {
+    throwError("Invalid ID token", 401);
+  }
+
+  return claims;
+};
+
+/**
+ * Start an authorization-code flow with PKCE
+ * The verifier and nonce stay server-side until the callback
+ */
+export const createOidcAuthorizationUrl = async (
+  slug: string,
+  state: string,
+  stateNonceHash: string
+): Promise<string> => {
+  const provider = getOidcProvider(slug);
+  const discovery = await getDiscoveryDocument(provider);
+
+  const flow: OidcFlowRecord = {
+    provider: slug,
+    codeVerifier: generateRandomString(),
+    nonce: generateRandomString(),
+  };
+  await getKeyValueStore().set(
+    flowKey(stateNonceHash),
+    flow,
+    addMinutes(OAUTH_STATE_EXPIRY_MINUTES)
+  );
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", provider.clientId);
+  url.searchParams.set("redirect_uri", provider.callbackUrl);
+  url.searchParams.set("scope", provider.scopes.join(" "));
+  url.searchParams.set("state", state);
+  url.searchParams.set("nonce", flow.nonce);
+  url.searchParams.set(
+    "code_challenge",
+    createPkceChallenge(flow.codeVerifier)
+  );
+  url.searchParams.set("code_challenge_method", "S256");
+
+  return url.toString();
+};
+
+// Redeem the authorization code at the token endpoint
+// client_secret_basic is the spec default, client_secret_post is the fallback
+const exchangeAuthorizationCode = (
+  provider: OidcProviderConfig,
+  discovery: OidcDiscoveryDocument,
+  code: string,
+  codeVerifier: string
+): Promise<OidcTokenResponse> => {
+  const authMethods = discovery.token_endpoint_auth_methods_supported;
+  const useBasicAuth =
+    !authMethods || authMethods.includes("client_secret_basic");
+
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: provider.callbackUrl,
+    code_verifier: codeVerifier,
+    client_id: provider.clientId,
+    ...(!useBasicAuth && { client_secret: provider.clientSecret }),
+  });
+
+  const credentials = Buffer.from(
+    `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`
+  ).toString("base64");
+
+  return fetchJson<OidcTokenResponse>(discovery.token_endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+      ...(useBasicAuth && { Authorization: `Basic ${credentials}` }),
+    },
+    body,
+  });
+};
+
+// Some providers only release profile claims from the userinfo endpoint
+const fetchUserInfo = async (
+  discovery: OidcDiscoveryDocument,
+  accessToken: string,
+  subject: string
+): Promise<Partial<OidcClaims>> => {
+  if (!discovery.userinfo_endpoint) return {};
+
+  const userInfo = await fetchJson<Partial<OidcClaims>>(
+    discovery.userinfo_endpoint,
+    { headers: { Authorization: `Bearer ${accessToken}` } }
+  );
+
+  // Claims about another subject must be ignored
+  return userInfo.sub === subject ? userInfo : {};
+};
+
+/**
+ * Map ID token claims into an OAuth user
+ * Only a verified email is trusted, as it links to existing accounts
+ */
+export const mapOidcClaims = (
+  claims: Partial<OidcClaims>,
+  slug: string,
+  service: string
+): IOAuthUser => {
+  const email = claims.email;
+
+  if (!claims.sub) throwError("No subject found in OpenID Connect claims", 400);
+  if (!email) throwError("No email found in OpenID Connect claims", 400);
+  if (claims.email_verified !== true && claims.email_verified !== "true") {
+    throwError("OpenID Connect email is not verified", 403);
+  }
+
+  const displayName =
+    claims.name ||
+    [claims.given_name, claims.family_name].filter(Boolean).join(" ") ||
+    claims.preferred_username ||
+    email;
+
+  return {
+    email,
+    service,
+    displayName,
+    ...(claims.picture && { avatarUrl: claims.picture }),
+    provider: `${AUTH_PROVIDERS.OIDC}:${slug}`,
+    providerUserId: claims.sub,
+    isVerified: true,
+  };
+};
+
+/**
+ * Complete an OpenID Connect login from the authorization callback
+ */
+export const completeOidcLogin = async (
+  slug: string,
+  code: string,
+  stateNonceHash: string,
+  service: string,
+  linkUserId?: string
+): Promise<OAuthLoginResult> => {
+  const provider = getOidcProvider(slug);
+
+  // Single use, whatever the outcome
+  const flow = await getKeyValueStore().take<OidcFlowRecord>(
+    flowKey(stateNonceHash)
+  );
+  if (!flow) throwError("OpenID Connect login expired or already used", 400);
+
+  // A callback for another provider than the one the login was started with
+  // could have its code redeemed at the wrong issuer (IdP mix-up)
+  if (flow.provider !== slug) {
+    throwError("OpenID Connect login was started with another provider", 400);
+  }
+
+  const discovery = await getDiscoveryDocument(provider);
+  const tokens = await exchangeAuthorizationCode(
+    provider,
+    discovery,
+    code,
+    flow.codeVerifier
+  );
+  if (!tokens.id_token) throwError("No ID token returned by provider", 502);
+
+  let claims: Partial<OidcClaims> = await verifyIdToken(
+    tokens.id_token,
+    provider,
+    discovery,
+    flow.nonce
+  );
+
+  if (!claims.email && tokens.access_token) {
+    claims = {
+      ...(await fetchUserInfo(discovery, tokens.access_token, claims.sub!)),
+      ...claims,
+    };
+  }
+
+  return createOAuthUser(mapOidcClaims(claims, slug, service), linkUserId);
+};
+
+/**
+ * Drop cached discovery documents and key sets
+ */
+export const clearOidcCache = (): void => {
+  discoveryCache.clear();
+  jwksCache.clear();
+};
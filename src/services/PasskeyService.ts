@@ -0,0 +1,333 @@
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import type { Credential, User } from "@prisma/client";
+import { config } from "../config/app";
+import { prisma } from "../config/prisma";
+import { logger } from "../helpers/logger";
+import { isAccountLocked } from "../helpers/user";
+import {
+  generateWebAuthnChallengeToken,
+  verifyMfaChallengeToken,
+  verifyWebAuthnChallengeToken,
+} from "../helpers/jwt";
+import { hashData } from "../utils/crypto";
+import { addMinutes, currentDate } from "../utils/dayjs";
+import { throwError } from "../utils/response";
+import type { IWebAuthnChallengePayload } from "../types/auth";
+import type { PasskeySummary } from "../types/user";
+import {
+  KV_NAMESPACES,
+  PASSKEY_SUMMARY_FIELDS,
+  WEBAUTHN_CHALLENGE_EXPIRY_MINUTES,
+} from "../constants/common";
+import { getKeyValueStore } from "./KeyValueStore";
+import { recordSuccessfulLogin } from "./UserService";
+
+const challengeKey = (challenge: string) =>
+  `${KV_NAMESPACES.WEBAUTHN_CHALLENGE}:${hashData(challenge)}`;
+
+// Remember an issued challenge so that it can be answered only once
+const storeChallenge = async (
+  challenge: string,
+  purpose: IWebAuthnChallengePayload["purpose"]
+): Promise<void> => {
+  await getKeyValueStore().set(
+    challengeKey(challenge),
+    purpose,
+    addMinutes(WEBAUTHN_CHALLENGE_EXPIRY_MINUTES)
+  );
+};
+
+// Consume a challenge before verifying, so a captured response cannot be replayed
+const consumeChallenge = async (
+  challenge: string,
+  purpose: IWebAuthnChallengePayload["purpose"]
+): Promise<void> => {
+  const stored = await getKeyValueStore().take<string>(challengeKey(challenge));
+  if (stored !== purpose) {
+    throwError("Passkey challenge expired or already used", 400);
+  }
+};
+
+// Verify a WebAuthn response, turning library errors into a client error
+const runCeremony = async <T>(ceremony: () => Promise<T>): Promise<T> => {
+  try {
+    return await ceremony();
+  } catch (error) {
+    logger.warn("Passkey verification failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throwError("Passkey verification failed", 400);
+  }
+};
+
+// Map a stored credential to the shape expected by the WebAuthn library
+const toWebAuthnCredential = (credential: Credential) => ({
+  id: credential.credentialId,
+  publicKey: new Uint8Array(credential.publicKey),
+  counter: credential.counter,
+  transports: credential.transports,
+});
+
+// A stored counter that does not increase indicates a cloned authenticator
+// Authenticators that do not implement counters always report 0
+const isSignCounterValid = (storedCounter: number, newCounter: number) =>
+  (storedCounter === 0 && newCounter === 0) || newCounter > storedCounter;
+
+/**
+ * Generate registration options for adding a passkey to the user's account
+ */
+export const createPasskeyRegistrationOptions = async (
+  user: User
+): Promise<{
+  options: PublicKeyCredentialCreationOptionsJSON;
+  challengeToken: string;
+}> => {
+  const existingCredentials = await prisma.credential.findMany({
+    where: { userId: user.id },
+    select: { credentialId: true, transports: true },
+  });
+
+  const options = await generateRegistrationOptions({
+    rpName: config.app.name,
+    rpID: config.webauthn.rpId,
+    userName: user.email,
+    userDisplayName: user.fullname,
+    userID: new TextEncoder().encode(user.id),
+    attestationType: "none",
+    excludeCredentials: existingCredentials.map((credential) => ({
+      id: credential.credentialId,
+      transports: credential.transports,
+    })),
+    authenticatorSelection: {
+      residentKey: "preferred",
+      userVerification: "preferred",
+    },
+  });
+
+  const challengeToken = generateWebAuthnChallengeToken({
+    challenge: options.challenge,
+    service: user.service,
+    purpose: "webauthn_registration",
+    userId: user.id,
+  });
+  await storeChallenge(options.challenge, "webauthn_registration");
+
+  return { options, challengeToken };
+};
+
+/**
+ * Verify a registration response and store the new credential
+ */
+export const registerPasskey = async (
+  user: User,
+  response: RegistrationResponseJSON,
+  challengeToken: string,
+  name?: string
+): Promise<PasskeySummary> => {
+  const challenge = verifyWebAuthnChallengeToken(
+    challengeToken,
+    "webauthn_registration"
+  );
+  if (challenge.userId !== user.id) {
+    throwError("Passkey challenge does not belong to this user", 403);
+  }
+  await consumeChallenge(challenge.challenge, "webauthn_registration");
+
+  const verification = await runCeremony(() =>
+    verifyRegistrationResponse({
+      response,
+      expectedChallenge: challenge.challenge,
+      expectedOrigin: config.webauthn.origins,
+      expectedRPID: config.webauthn.rpId,
+      requireUserVerification: false,
+    })
+  );
+
+  if (!verification.verified) throwError("Passkey verification failed", 400);
+
+  const { credential, credentialDeviceType, credentialBackedUp } =
+    verification.registrationInfo;
+
+  const existing = await prisma.credential.findUnique({
+    where: { credentialId: credential.id },
+  });
+  if (existing) throwError("This passkey is already registered", 409);
+
+  return prisma.credential.create({
+    data: {
+      userId: user.id,
+      credentialId: credential.id,
+      publicKey: credential.publicKey,
+      counter: credential.counter,
+      transports: credential.transports ?? [],
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp,
+      ...(name && { name }),
+    },
+    select: PASSKEY_SUMMARY_FIELDS,
+  });
+};
+
+/**
+ * Generate authentication options for a passkey login
+ * Without an MFA token any discoverable passkey may answer (passwordless);
+ * with one, only the challenged user's passkeys are allowed (second factor)
+ */
+export const createPasskeyLoginOptions = async (
+  service: string,
+  mfaToken?: string
+): Promise<{
+  options: PublicKeyCredentialRequestOptionsJSON;
+  challengeToken: string;
+}> => {
+  let userId: string | undefined;
+  let allowCredentials: { id: string; transports: string[] }[] = [];
+
+  if (mfaToken) {
+    const payload = verifyMfaChallengeToken(mfaToken);
+    if (payload.service !== service) throwError("Service mismatch", 403);
+
+    userId = payload.userId;
+    allowCredentials = (
+      await prisma.credential.findMany({
+        where: { userId },
+        select: { credentialId: true, transports: true },
+      })
+    ).map((credential) => ({
+      id: credential.credentialId,
+      transports: credential.transports,
+    }));
+
+    if (allowCredentials.length === 0) {
+      throwError("No passkeys registered for this account", 400);
+    }
+  }
+
+  const options = await generateAuthenticationOptions({
+    rpID: config.webauthn.rpId,
+    allowCredentials,
+    userVerification: mfaToken ? "preferred" : "required",
+  });
+
+  const challengeToken = generateWebAuthnChallengeToken({
+    challenge: options.challenge,
+    service,
+    purpose: "webauthn_authentication",
+    ...(userId && { userId }),
+  });
+  await storeChallenge(options.challenge, "webauthn_authentication");
+
+  return { options, challengeToken };
+};
+
+/**
+ * Verify an authentication response and return the authenticated user
+ */
+export const authenticateWithPasskey = async (
+  response: AuthenticationResponseJSON,
+  challengeToken: string,
+  service: string
+): Promise<User> => {
+  const challenge = verifyWebAuthnChallengeToken(
+    challengeToken,
+    "webauthn_authentication"
+  );
+  if (challenge.service !== service) throwError("Service mismatch", 403);
+  await consumeChallenge(challenge.challenge, "webauthn_authentication");
+
+  const credential = await prisma.credential.findUnique({
+    where: { credentialId: response.id },
+    include: { user: true },
+  });
+
+  if (!credential || credential.user.service !== service) {
+    throwError("Passkey not recognized", 401);
+  }
+
+  // An MFA assertion must come from the user who passed the first factor
+  if (challenge.userId && challenge.userId !== credential.userId) {
+    throwError("Passkey not recognized", 401);
+  }
+
+  const user = credential.user;
+
+  if (!user.emailInfo.isVerified) {
+    throwError("Please verify your email before logging in", 403);
+  }
+
+  if (isAccountLocked(user)) {
+    throwError(
+      "Account is temporarily locked due to multiple failed login attempts",
+      423
+    );
+  }
+
+  const verification = await runCeremony(() =>
+    verifyAuthenticationResponse({
+      response,
+      expectedChallenge: challenge.challenge,
+      expectedOrigin: config.webauthn.origins,
+      expectedRPID: config.webauthn.rpId,
+      credential: toWebAuthnCredential(credential),
+      // Passwordless logins must prove the user, not just the device
+      requireUserVerification: !challenge.userId,
+    })
+  );
+
+  if (!verification.verified) throwError("Passkey verification failed", 401);
+
+  const { newCounter } = verification.authenticationInfo;
+  if (!isSignCounterValid(credential.counter, newCounter)) {
+    logger.warn("Passkey sign counter did not increase, possible clone", {
+      userId: user.id,
+      credentialId: credential.id,
+      storedCounter: credential.counter,
+      newCounter,
+    });
+    throwError("Passkey verification failed", 401);
+  }
+
+  await prisma.credential.update({
+    where: { id: credential.id },
+    data: { counter: newCounter, lastUsedAt: currentDate() },
+  });
+
+  await recordSuccessfulLogin(user.id);
+
+  return user;
+};
+
+/**
+ * List the passkeys registered by a user
+ */
+export const listUserPasskeys = async (
+  userId: string
+): Promise<PasskeySummary[]> =>
+  prisma.credential.findMany({
+    where: { userId },
+    select: PASSKEY_SUMMARY_FIELDS,
+    orderBy: { createdAt: "desc" },
+  });
+
+/**
+ * Remove one of the user's passkeys
+ */
+export const deleteUserPasskey = async (
+  userId: string,
+  passkeyId: string
+): Promise<void> => {
+  const result = await prisma.credential.deleteMany({
+    where: { id: passkeyId, userId },
+  });
+
+  if (result.count === 0) throwError("Passkey not found", 404);
+};
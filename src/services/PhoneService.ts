@@ -0,0 +1,179 @@
+import dayjs from "dayjs";
+import { prisma } from "../config/prisma";
+import type { PhoneInfo, User } from "@prisma/client";
+import { config } from "../config/app";
+import { PHONE_OTP_SETTINGS } from "../constants/common";
+import { generateNumericCode, hashData } from "../utils/crypto";
+import { addMinutes, currentDate } from "../utils/dayjs";
+import { throwError } from "../utils/response";
+import { sendSms } from "./SmsService";
+
+// Phone number an OTP is sent to: a pending change, else the unverified current number
+const getPhoneToVerify = (user: User): string | null => {
+  if (user.phoneInfo?.pendingPhone) return user.phoneInfo.pendingPhone;
+  if (user.phone && !user.phoneInfo?.isVerified) return user.phone;
+  return null;
+};
+
+// Reject while verification is locked after too many wrong codes
+const assertOtpNotLocked = (phoneInfo: PhoneInfo | null) => {
+  if (
+    phoneInfo?.otpLockedUntil &&
+    dayjs(phoneInfo.otpLockedUntil).isAfter(currentDate())
+  ) {
+    throwError(
+      "Too many failed verification attempts. Please try again later.",
+      429
+    );
+  }
+};
+
+// Ensure no verified account of the same service already uses the number
+const assertPhoneAvailable = async (user: User, phone: string) => {
+  const existingUser = await prisma.user.findFirst({
+    where: {
+      phone,
+      service: user.service,
+      id: { not: user.id },
+    },
+  });
+
+  if (existingUser?.phoneInfo?.isVerified) {
+    throwError("Phone number is already taken", 409);
+  }
+};
+
+// Generate an OTP for the number, store its hash and deliver it by SMS
+// Sending is throttled by a cooldown and blocked during a verification lockout
+const issuePhoneOtp = async (user: User, phone: string): Promise<User> => {
+  const phoneInfo = user.phoneInfo;
+
+  assertOtpNotLocked(phoneInfo);
+
+  if (
+    phoneInfo?.otpSentAt &&
+    dayjs(phoneInfo.otpSentAt)
+      .add(PHONE_OTP_SETTINGS.RESEND_COOLDOWN_SECONDS, "second")
+      .isAfter(currentDate())
+  ) {
+    throwError(
+      `Please wait ${PHONE_OTP_SETTINGS.RESEND_COOLDOWN_SECONDS} seconds before requesting a new code`,
+      429
+    );
+  }
+
+  const otp = generateNumericCode(PHONE_OTP_SETTINGS.LENGTH);
+
+  const updatedUser = await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      phoneInfo: {
+        isVerified: phoneInfo?.isVerified ?? false,
+        pendingPhone: phone === user.phone ? null : phone,
+        lastOtp: hashData(otp),
+        otpExpires: addMinutes(PHONE_OTP_SETTINGS.EXPIRY_MINUTES),
+        otpSentAt: currentDate(),
+        otpAttempts: 0,
+        otpLockedUntil: null,
+      },
+    },
+  });
+
+  await sendSms(
+    phone,
+    `Your ${config.app.name} verification code is ${otp}. It expires in ${PHONE_OTP_SETTINGS.EXPIRY_MINUTES} minutes.`
+  );
+
+  return updatedUser;
+};
+
+/**
+ * Start verification of a new phone number
+ * The current number stays in place until the new one is verified
+ */
+export const startPhoneVerification = async (
+  user: User,
+  phone: string
+): Promise<User> => {
+  await assertPhoneAvailable(user, phone);
+
+  return issuePhoneOtp(user, phone);
+};
+
+/**
+ * Send a new OTP for the number awaiting verification
+ */
+export const resendPhoneOtp = async (user: User): Promise<void> => {
+  const phone = getPhoneToVerify(user);
+  if (!phone) throwError("No phone number awaiting verification", 400);
+
+  await issuePhoneOtp(user, phone);
+};
+
+/**
+ * Verify the phone OTP and mark the number as verified
+ * Too many wrong codes invalidate the OTP and block new ones for a while
+ */
+export const verifyPhoneOtp = async (
+  user: User,
+  code: string
+): Promise<User> => {
+  const phoneInfo = user.phoneInfo;
+
+  assertOtpNotLocked(phoneInfo);
+
+  const phone = getPhoneToVerify(user);
+  if (!phone || !phoneInfo?.lastOtp || !phoneInfo.otpExpires) {
+    throwError("No phone number awaiting verification", 400);
+  }
+
+  if (dayjs(phoneInfo.otpExpires).isBefore(currentDate())) {
+    throwError("Verification code has expired. Please request a new one.");
+  }
+
+  if (hashData(code) !== phoneInfo.lastOtp) {
+    const attempts = phoneInfo.otpAttempts + 1;
+    const isLocked = attempts >= PHONE_OTP_SETTINGS.MAX_ATTEMPTS;
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        phoneInfo: {
+          ...phoneInfo,
+          otpAttempts: attempts,
+          ...(isLocked && {
+            lastOtp: null,
+            otpExpires: null,
+            otpLockedUntil: addMinutes(PHONE_OTP_SETTINGS.LOCK_MINUTES),
+          }),
+        },
+      },
+    });
+
+    throwError(
+      isLocked
+        ? "Too many failed verification attempts. Please try again later."
+        : "Invalid verification code",
+      isLocked ? 429 : 400
+    );
+  }
+
+  // The number may have been claimed since the code was sent
+  await assertPhoneAvailable(user, phone);
+
+  return prisma.user.update({
+    where: { id: user.id },
+    data: {
+      phone,
+      phoneInfo: {
+        isVerified: true,
+        pendingPhone: null,
+        lastOtp: null,
+        otpExpires: null,
+        otpSentAt: null,
+        otpAttempts: 0,
+        otpLockedUntil: null,
+      },
+    },
+  });
+};
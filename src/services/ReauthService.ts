@@ -0,0 +1,89 @@
+import type { PasswordInfo, User } from "@prisma/client";
+import {
+  AUDIT_EVENT_TYPES,
+  AUTH_ASSURANCE_LEVELS,
+  ERROR_REASONS,
+} from "../constants/common";
+import { comparePassword, isAccountLocked } from "../helpers/user";
+import { throwError, throwReasonError } from "../utils/response";
+import { verifyUserSecondFactor } from "./MfaService";
+import { recordFailedCheck } from "./UserService";
+import type { AuthAssuranceLevel, ReauthInput } from "../types/auth";
+import type { ClientContext } from "../types/audit";
+
+/**
+ * Confirm a signed-in user is present, the same way they sign in:
+ * the password if the account has one, plus a code when MFA is enabled
+ * Accounts with neither sign in again with their provider instead
+ */
+export const reauthenticateUser = async (
+  user: User,
+  { password, code, recoveryCode }: ReauthInput,
+  client: ClientContext = {}
+): Promise<AuthAssuranceLevel> => {
+  const passwordInfo = user.passwordInfo as PasswordInfo;
+  const isMfaEnabled = !!user.mfaInfo?.isEnabled;
+
+  if (!passwordInfo.hash && !isMfaEnabled) {
+    throwReasonError(
+      "Please sign in again to confirm it's you",
+      403,
+      ERROR_REASONS.REAUTHENTICATION_REQUIRED
+    );
+  }
+
+  if (isAccountLocked(user)) {
+    throwError(
+      "Account is temporarily locked due to multiple failed login attempts",
+      423
+    );
+  }
+
+  if (passwordInfo.hash) {
+    if (!password) {
+      throwReasonError(
+        "Current password is required",
+        403,
+        ERROR_REASONS.CURRENT_PASSWORD_REQUIRED
+      );
+    }
+
+    if (!(await comparePassword(passwordInfo.hash, password))) {
+      await recordFailedCheck(user, {
+        ...client,
+        type: AUDIT_EVENT_TYPES.REAUTHENTICATION,
+        metadata: { method: "password" },
+      });
+      throwReasonError(
+        "Current password is incorrect",
+        401,
+        ERROR_REASONS.INVALID_CURRENT_PASSWORD
+      );
+    }
+  }
+
+  if (!isMfaEnabled) return AUTH_ASSURANCE_LEVELS.PASSWORD;
+
+  if (!code && !recoveryCode) {
+    throwReasonError(
+      "Verification code is required",
+      403,
+      ERROR_REASONS.MFA_CODE_REQUIRED
+    );
+  }
+
+  await verifyUserSecondFactor(
+    user,
+    {
+      ...(code && { code }),
+      ...(recoveryCode && { recoveryCode }),
+    },
+    {
+      ...client,
+      type: AUDIT_EVENT_TYPES.REAUTHENTICATION,
+      metadata: { method: recoveryCode ? "recovery_code" : "mfa" },
+    }
+  );
+
+  return AUTH_ASSURANCE_LEVELS.OTP;
+};
@@ -0,0 +1,68 @@
+import type { Service } from "@prisma/client";
+import { prisma } from "../config/prisma";
+import { SERVICE_CACHE_TTL_SECONDS, SERVICE_STATUS } from "../constants/common";
+import { addSeconds, currentDate } from "../utils/dayjs";
+import { throwError } from "../utils/response";
+import { resolveServicePolicy } from "../helpers/servicePolicy";
+import type { ServiceCache, ServicePolicy } from "../types/service";
+
+// The whole registry is cached: it is small and read on every request,
+// and unknown slugs are then answered without a database round trip
+let cache: ServiceCache | null = null;
+let pendingLoad: Promise<ServiceCache> | null = null;
+
+// Load every service from the database, sharing one query between callers
+const loadServices = (): Promise<ServiceCache> => {
+  pendingLoad ??= prisma.service
+    .findMany()
+    .then((services) => {
+      cache = {
+        services: new Map(services.map((service) => [service.slug, service])),
+        expiresAt: addSeconds(SERVICE_CACHE_TTL_SECONDS).getTime(),
+      };
+      return cache;
+    })
+    .finally(() => {
+      pendingLoad = null;
+    });
+
+  return pendingLoad;
+};
+
+/**
+ * Get a registered service by slug, whatever its status
+ */
+export const getService = async (slug: string): Promise<Service | null> => {
+  const registry =
+    cache && cache.expiresAt > currentDate().getTime()
+      ? cache
+      : await loadServices();
+
+  return registry.services.get(slug) ?? null;
+};
+
+/**
+ * Get a service that is allowed to authenticate users
+ * Throws when the slug is unknown or the service is disabled
+ */
+export const getActiveService = async (slug: string): Promise<Service> => {
+  const service = await getService(slug);
+  if (service?.status !== SERVICE_STATUS.ACTIVE) {
+    throwError("Invalid service.", 400);
+  }
+
+  return service;
+};
+
+/**
+ * Get the effective policy of a service
+ */
+export const getServicePolicy = async (slug: string): Promise<ServicePolicy> =>
+  resolveServicePolicy(await getService(slug));
+
+/**
+ * Drop the cached registry so the next lookup reads the database again
+ */
+export const clearServiceCache = (): void => {
+  cache = null;
+};
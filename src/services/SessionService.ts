@@ -1,22 +1,49 @@
 import { prisma } from "../config/prisma";
-import type { TokenPair } from "../types/auth";
+import type {
+  AuthAssuranceLevel,
+  AuthContext,
+  ElevatedAccessToken,
+  SessionSummary,
+  TokenPair,
+} from "../types/auth";
 import { config } from "../config/app";
 import { generateRandomString, hashData } from "../utils/crypto";
 import { addDays, currentDate } from "../utils/dayjs";
 import { generateAccessToken } from "../helpers/jwt";
 import { throwError } from "../utils/response";
+import { logger } from "../helpers/logger";
+import { parseUserAgent } from "../utils/userAgent";
+import { getServicePolicy } from "./ServiceRegistry";
+import { recordAuditEvent } from "./AuditService";
+import {
+  AUDIT_EVENT_TYPES,
+  AUDIT_OUTCOMES,
+  REAUTH_TOKEN_EXPIRY_SECONDS,
+  SESSION_ROTATED_TOKENS_LIMIT,
+  SESSION_SUMMARY_FIELDS,
+} from "../constants/common";
 import type { Session, User } from "@prisma/client";
+import type { ClientContext } from "../types/audit";
+
+// A session starts at sign-in, so its creation time is the auth time
+const sessionAuthContext = (session: Session): AuthContext => ({
+  authTime: session.createdAt,
+  ...(session.acr && { acr: session.acr as AuthAssuranceLevel }),
+});
 
 /**
  * Create session with refresh token
+ * Refresh token lifetime is in days
  */
 export const createSession = async (
   user: User,
   userAgent?: string,
-  ipAddress?: string
+  ipAddress?: string,
+  refreshTokenExpiresIn: string = config.jwt.refreshExpiresIn,
+  acr?: AuthAssuranceLevel
 ): Promise<{ session: Session; refreshToken: string }> => {
   const refreshToken = generateRandomString(40);
-  const expiresAt = addDays(parseInt(config.jwt.refreshExpiresIn));
+  const expiresAt = addDays(parseInt(refreshTokenExpiresIn));
 
   const session = await prisma.session.create({
     data: {
@@ -24,6 +51,7 @@ export const createSession = async (
       refreshToken: hashData(refreshToken),
       userAgent: userAgent || null,
       ipAddress: ipAddress || null,
+      acr: acr ?? null,
       expiresAt,
     },
   });
@@ -36,27 +64,80 @@ export const createSession = async (
 
 /**
  * Generate token pair (access token + refresh token)
+ * Token lifetimes come from the policy of the user's service,
+ * acr records how the user signed in
  */
 export const generateTokenPair = async (
   user: User,
   userAgent?: string,
-  ipAddress?: string
+  ipAddress?: string,
+  acr?: AuthAssuranceLevel
 ): Promise<TokenPair> => {
-  const accessToken = generateAccessToken(user);
-  const { refreshToken } = await createSession(user, userAgent, ipAddress);
+  const policy = await getServicePolicy(user.service);
+  const { session, refreshToken } = await createSession(
+    user,
+    userAgent,
+    ipAddress,
+    policy.refreshTokenExpiresIn,
+    acr
+  );
+  const accessToken = generateAccessToken(
+    user,
+    policy.accessTokenExpiresIn,
+    sessionAuthContext(session)
+  );
 
   return {
     accessToken,
     refreshToken,
-    expiresIn: config.jwt.expiresIn,
+    expiresIn: policy.accessTokenExpiresIn,
   };
 };
 
+/**
+ * Revoke the token family a replayed refresh token belongs to
+ * Returns false when the token was never issued
+ */
+const revokeFamilyOnReuse = async (
+  hashedRefreshToken: string,
+  client: ClientContext
+): Promise<boolean> => {
+  const family = await prisma.session.findFirst({
+    where: { rotatedTokens: { has: hashedRefreshToken } },
+    include: { user: { select: { service: true } } },
+  });
+  if (!family) return false;
+
+  await prisma.session.deleteMany({ where: { id: family.id } });
+
+  logger.warn("Refresh token reuse detected, session family revoked", {
+    userId: family.userId,
+    sessionId: family.id,
+    ipAddress: family.ipAddress,
+    userAgent: family.userAgent,
+  });
+
+  // The client is whoever replayed the token, not the session's owner
+  await recordAuditEvent({
+    type: AUDIT_EVENT_TYPES.REFRESH_TOKEN_REUSE,
+    outcome: AUDIT_OUTCOMES.FAILURE,
+    service: family.user.service,
+    userId: family.userId,
+    ...client,
+    metadata: { sessionId: family.id },
+  });
+
+  return true;
+};
+
 /**
  * Refresh access token using refresh token
+ * The refresh token is rotated within its session and the old one is remembered,
+ * so presenting an already-rotated token revokes the whole family
  */
 export const refreshAccessToken = async (
-  refreshToken: string
+  refreshToken: string,
+  client: ClientContext = {}
 ): Promise<TokenPair> => {
   const hashedRefreshToken = hashData(refreshToken);
 
@@ -70,13 +151,65 @@ export const refreshAccessToken = async (
     },
   });
 
-  if (!session) throwError("Invalid or expired refresh token");
+  if (!session) {
+    if (await revokeFamilyOnReuse(hashedRefreshToken, client)) {
+      throwError("Refresh token reuse detected. Please sign in again.", 401);
+    }
+    throwError("Invalid or expired refresh token", 401);
+  }
   if (!session.user) throwError("User not found");
 
-  // Delete the old session
-  await revokeRefreshToken(refreshToken);
-  // Generate new token pair
-  return generateTokenPair(session.user);
+  const policy = await getServicePolicy(session.user.service);
+
+  // Only rotates while the token is still current, so a concurrent replay loses
+  // and the list read with it is still the stored one
+  const newRefreshToken = generateRandomString(40);
+  const rotated = await prisma.session.updateMany({
+    where: { id: session.id, refreshToken: hashedRefreshToken },
+    data: {
+      refreshToken: hashData(newRefreshToken),
+      rotatedTokens: [...session.rotatedTokens, hashedRefreshToken].slice(
+        -SESSION_ROTATED_TOKENS_LIMIT
+      ),
+      expiresAt: addDays(parseInt(policy.refreshTokenExpiresIn)),
+      lastUsedAt: currentDate(),
+    },
+  });
+
+  if (rotated.count === 0) {
+    await revokeFamilyOnReuse(hashedRefreshToken, client);
+    throwError("Refresh token reuse detected. Please sign in again.", 401);
+  }
+
+  return {
+    accessToken: generateAccessToken(
+      session.user,
+      policy.accessTokenExpiresIn,
+      sessionAuthContext(session)
+    ),
+    refreshToken: newRefreshToken,
+    expiresIn: policy.accessTokenExpiresIn,
+  };
+};
+
+/**
+ * Issue a short-lived access token with a fresh auth_time after re-authentication
+ * It is used with the session's current refresh token; the session is unchanged
+ */
+export const generateElevatedAccessToken = (
+  user: User,
+  acr: AuthAssuranceLevel
+): ElevatedAccessToken => {
+  const expiresIn = `${REAUTH_TOKEN_EXPIRY_SECONDS}s`;
+
+  return {
+    accessToken: generateAccessToken(user, expiresIn, {
+      authTime: currentDate(),
+      acr,
+    }),
+    expiresIn,
+    acr,
+  };
 };
 
 /**
@@ -93,13 +226,53 @@ export const revokeRefreshToken = async (
   });
 };
 
+/**
+ * List the user's active sessions, most recently used first
+ */
+export const listUserSessions = async (
+  userId: string,
+  currentSessionId?: string
+): Promise<SessionSummary[]> => {
+  const sessions = await prisma.session.findMany({
+    where: { userId, expiresAt: { gt: currentDate() } },
+    select: SESSION_SUMMARY_FIELDS,
+    orderBy: { lastUsedAt: "desc" },
+  });
+
+  return sessions.map(({ userAgent, lastUsedAt, ...session }) => ({
+    ...session,
+    lastUsedAt: lastUsedAt ?? session.createdAt,
+    ...parseUserAgent(userAgent),
+    current: session.id === currentSessionId,
+  }));
+};
+
+/**
+ * Revoke one of the user's sessions (logout from a single device)
+ */
+export const revokeUserSession = async (
+  userId: string,
+  sessionId: string
+): Promise<void> => {
+  const result = await prisma.session.deleteMany({
+    where: { id: sessionId, userId },
+  });
+
+  if (result.count === 0) throwError("Session not found", 404);
+};
+
 /**
  * Revoke all user sessions (logout from all devices)
+ * Pass the current session to keep it signed in
  */
-export const revokeAllUserSessions = async (userId: string): Promise<void> => {
+export const revokeAllUserSessions = async (
+  userId: string,
+  exceptSessionId?: string
+): Promise<void> => {
   await prisma.session.deleteMany({
     where: {
       userId,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
     },
   });
 };
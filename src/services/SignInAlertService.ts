@@ -0,0 +1,120 @@
+import type { User } from "@prisma/client";
+import { prisma } from "../config/prisma";
+import { KV_NAMESPACES, SIGNIN_REPORT_EXPIRY_DAYS } from "../constants/common";
+import { logger } from "../helpers/logger";
+import { generateNewSignInTemplate } from "../templates/emailTemplates";
+import { generateRandomString, hashData } from "../utils/crypto";
+import { addDays, formatTimestamp } from "../utils/dayjs";
+import { throwError } from "../utils/response";
+import { parseUserAgent } from "../utils/userAgent";
+import { sendEmail } from "./EmailService";
+import { getKeyValueStore } from "./KeyValueStore";
+import type { SignInReportRecord } from "../types/auth";
+
+// Report tokens are stored hashed, like every other emailed secret
+const reportKey = (token: string) =>
+  `${KV_NAMESPACES.SIGNIN_REPORT}:${hashData(token)}`;
+
+/**
+ * Email the user when a sign-in comes from a user agent and IP address
+ * combination none of their other sessions has used
+ * The session is found by its refresh token; failures are only logged, and
+ * the sign-in does not wait for the email to be sent
+ */
+export const notifyNewSignIn = async (
+  user: User,
+  refreshToken: string,
+  location: string | null
+): Promise<void> => {
+  try {
+    const session = await prisma.session.findUnique({
+      where: { refreshToken: hashData(refreshToken) },
+    });
+    if (!session) return;
+
+    const otherSessions = { userId: user.id, id: { not: session.id } };
+    const [previousCount, knownCount] = await Promise.all([
+      prisma.session.count({ where: otherSessions }),
+      prisma.session.count({
+        where: {
+          ...otherSessions,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+        },
+      }),
+    ]);
+
+    // A first sign-in has nothing to compare against
+    if (previousCount === 0 || knownCount > 0) return;
+
+    const token = generateRandomString();
+    const record: SignInReportRecord = {
+      userId: user.id,
+      sessionId: session.id,
+      service: user.service,
+    };
+    await getKeyValueStore().set(
+      reportKey(token),
+      record,
+      addDays(SIGNIN_REPORT_EXPIRY_DAYS)
+    );
+
+    // Notify the owner (non-blocking)
+    const { device, browser, os } = parseUserAgent(session.userAgent);
+    generateNewSignInTemplate(
+      user.fullname,
+      {
+        device: [browser, os && `on ${os}`].filter(Boolean).join(" ") || device,
+        location: location ?? "Unknown location",
+        ipAddress: session.ipAddress ?? "Unknown",
+        signInTime: formatTimestamp(session.createdAt),
+      },
+      token,
+      SIGNIN_REPORT_EXPIRY_DAYS
+    )
+      .then((template) => sendEmail(user.email, template))
+      .catch((error) => {
+        logger.error("Failed to send new sign-in email", {
+          error,
+          userId: user.id,
+        });
+      });
+  } catch (error) {
+    logger.error("Failed to prepare new sign-in email", {
+      error,
+      userId: user.id,
+    });
+  }
+};
+
+/**
+ * Handle a "this wasn't me" report: sign the reported session out and
+ * require a password reset before the next password sign-in
+ * The token works once; returns the report for auditing
+ */
+export const reportSignIn = async (
+  token: string
+): Promise<SignInReportRecord> => {
+  const record = await getKeyValueStore().take<SignInReportRecord>(
+    reportKey(token)
+  );
+  if (!record) throwError("Invalid or expired sign-in report link", 400);
+
+  await prisma.session.deleteMany({
+    where: { id: record.sessionId, userId: record.userId },
+  });
+
+  const user = await prisma.user.findUnique({ where: { id: record.userId } });
+
+  // Accounts without a password have nothing to reset
+  if (user?.passwordInfo.hash) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        passwordInfo: { ...user.passwordInfo, resetRequired: true },
+      },
+    });
+  }
+
+  return record;
+};
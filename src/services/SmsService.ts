@@ -0,0 +1,71 @@
+import { appendFile, mkdir } from "fs/promises";
+import { dirname, resolve } from "path";
+import { config } from "../config/app";
+import { SMS_PROVIDERS } from "../constants/common";
+import { logger } from "../helpers/logger";
+import { formatTimestamp } from "../utils/dayjs";
+import { throwError } from "../utils/response";
+import type { SmsProvider, SmsSender } from "../types/sms";
+
+/**
+ * Development sender that writes messages to the application log
+ */
+export const createConsoleSmsSender = (): SmsSender => ({
+  send: async (to, message) => {
+    logger.info("SMS message", { to, message });
+  },
+});
+
+/**
+ * Development sender that appends messages to a local file
+ */
+export const createFileSmsSender = (filePath: string): SmsSender => {
+  const outputPath = resolve(process.cwd(), filePath);
+
+  return {
+    send: async (to, message) => {
+      await mkdir(dirname(outputPath), { recursive: true });
+      await appendFile(
+        outputPath,
+        `[${formatTimestamp()}] To: ${to} | ${message}\n`,
+        "utf-8"
+      );
+    },
+  };
+};
+
+/**
+ * Create the sender for a built-in provider
+ */
+const createSmsSender = (provider: SmsProvider): SmsSender => {
+  switch (provider) {
+    case SMS_PROVIDERS.CONSOLE:
+      return createConsoleSmsSender();
+    case SMS_PROVIDERS.FILE:
+      return createFileSmsSender(config.sms.outputFile);
+    default:
+      throw new Error(`Unsupported SMS provider: ${provider}`);
+  }
+};
+
+// Active sender, replaceable at startup with a production provider
+let sender: SmsSender = createSmsSender(config.sms.provider);
+
+/**
+ * Replace the active SMS sender (e.g., with a Twilio or SNS implementation)
+ */
+export const setSmsSender = (smsSender: SmsSender): void => {
+  sender = smsSender;
+};
+
+/**
+ * Send SMS
+ */
+export const sendSms = async (to: string, message: string): Promise<void> => {
+  try {
+    await sender.send(to, message);
+  } catch (error) {
+    logger.error("SMS sending failed", { error });
+    throwError("Failed to send SMS");
+  }
+};
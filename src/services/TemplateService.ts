@@ -52,6 +52,22 @@ const htmlToText = (html: string): string => {
     .trim();
 };
 
+/**
+ * Render a template as a standalone HTML page
+ */
+export const renderPage = async (
+  templateName: string,
+  data: Record<string, unknown>
+): Promise<string> => {
+  const htmlTemplate = await loadTemplate(templateName);
+
+  return htmlTemplate({
+    ...data,
+    appName: config.app.name,
+    currentYear: currentYear(),
+  });
+};
+
 /**
  * Render a template with data
  */
@@ -0,0 +1,171 @@
+import { config } from "../config/app";
+import {
+  KV_NAMESPACES,
+  THROTTLE_ACTIONS,
+  THROTTLE_BACKOFF,
+  THROTTLE_POLICIES,
+  THROTTLE_SCOPES,
+} from "../constants/common";
+import { hashData } from "../utils/crypto";
+import { currentDate } from "../utils/dayjs";
+import { throwRateLimitError } from "../utils/response";
+import { getKeyValueStore } from "./KeyValueStore";
+import type {
+  ThrottleAction,
+  ThrottlePolicy,
+  ThrottleScope,
+  ThrottleBlock,
+  ThrottleSubject,
+} from "../types/store";
+
+// Limits of an action; registration takes the deployment's configured ones
+const getThrottlePolicy = (action: ThrottleAction): ThrottlePolicy => {
+  if (action === THROTTLE_ACTIONS.REGISTER) {
+    const { maxRegistrationAttempts, registrationLockTime } = config.security;
+    return {
+      windowSeconds: registrationLockTime * 60,
+      limits: { ip: maxRegistrationAttempts, email: maxRegistrationAttempts },
+    };
+  }
+  return THROTTLE_POLICIES[action];
+};
+
+// Counter keys for every scope the subject and the action's policy allow
+// Emails are hashed so the store holds no addresses
+const throttleKeys = (
+  action: ThrottleAction,
+  policy: ThrottlePolicy,
+  { service, ipAddress, email }: ThrottleSubject
+): [ThrottleScope, string][] => {
+  const emailHash = email && hashData(`${service}:${email.toLowerCase()}`);
+
+  const keys: [ThrottleScope, string | undefined][] = [
+    [THROTTLE_SCOPES.IP, ipAddress],
+    [THROTTLE_SCOPES.EMAIL, emailHash],
+    [
+      THROTTLE_SCOPES.IP_EMAIL,
+      ipAddress && emailHash && `${ipAddress}:${emailHash}`,
+    ],
+  ];
+
+  return keys
+    .filter(
+      (entry): entry is [ThrottleScope, string] =>
+        !!entry[1] && policy.limits[entry[0]] !== undefined
+    )
+    .map(([scope, id]) => [
+      scope,
+      `${KV_NAMESPACES.REQUEST_THROTTLE}:${action}:${scope}:${id}`,
+    ]);
+};
+
+// Each key has a block record next to it
+const blockKey = (key: string) => `${key}:block`;
+
+// A key counts attempts in fixed windows; these are the counters of the
+// window `now` falls in and of the one before it
+const windowKeys = (key: string, windowMs: number, now: number) => {
+  const window = Math.floor(now / windowMs);
+  return { current: `${key}:${window}`, previous: `${key}:${window - 1}` };
+};
+
+// Count an attempt in the key's sliding window, estimated as this window's
+// attempts plus the previous window's, weighted by how much of it the sliding
+// window still covers, so a burst cannot double up across a window boundary
+// The count is atomic, so a parallel burst cannot slip past the limit
+// Returns when the key is unblocked if it is blocked, else null
+const countAttempt = async (
+  key: string,
+  limit: number,
+  windowSeconds: number
+): Promise<number | null> => {
+  const store = getKeyValueStore();
+  const now = currentDate().getTime();
+  const windowMs = windowSeconds * 1000;
+  const block = await store.get<ThrottleBlock>(blockKey(key));
+
+  // Requests during a block are rejected without extending it
+  if (block && block.blockedUntil > now) return block.blockedUntil;
+
+  // A window's counter is kept through the next one, where it is the previous
+  const { current, previous } = windowKeys(key, windowMs, now);
+  const windowStart = now - (now % windowMs);
+  const [{ count }, previousCount] = await Promise.all([
+    store.increment(current, new Date(windowStart + 2 * windowMs)),
+    store.get<number>(previous),
+  ]);
+
+  const overlap = 1 - (now - windowStart) / windowMs;
+  if (count + (previousCount ?? 0) * overlap <= limit) return null;
+
+  // Each block doubles the last one while the limit keeps being hit
+  const strikes = (block?.strikes ?? 0) + 1;
+  const blockSeconds = Math.min(
+    THROTTLE_BACKOFF.BASE_SECONDS * 2 ** (strikes - 1),
+    THROTTLE_BACKOFF.MAX_SECONDS
+  );
+  const blockedUntil = now + blockSeconds * 1000;
+
+  // Strikes are kept for a window after the block ends
+  await store.set(
+    blockKey(key),
+    { strikes, blockedUntil },
+    new Date(blockedUntil + windowMs)
+  );
+
+  return blockedUntil;
+};
+
+/**
+ * Count a request against the action's limits per IP, email and IP+email
+ * Throws 429 with a retry-after while any of them is blocked
+ */
+export const consumeThrottle = async (
+  action: ThrottleAction,
+  subject: ThrottleSubject
+): Promise<void> => {
+  const policy = getThrottlePolicy(action);
+  const { limits, windowSeconds } = policy;
+
+  const blockedUntil = (
+    await Promise.all(
+      throttleKeys(action, policy, subject).map(([scope, key]) =>
+        countAttempt(key, limits[scope]!, windowSeconds)
+      )
+    )
+  ).filter((until) => until !== null);
+
+  if (blockedUntil.length) {
+    throwRateLimitError(
+      "Too many requests. Please try again later.",
+      (Math.max(...blockedUntil) - currentDate().getTime()) / 1000
+    );
+  }
+};
+
+/**
+ * Clear the account's counters after a request proved its owner,
+ * so a successful sign-in is not held back by earlier typos
+ * The per-IP counter is kept, as one IP may target many accounts
+ */
+export const resetThrottle = async (
+  action: ThrottleAction,
+  subject: ThrottleSubject
+): Promise<void> => {
+  const store = getKeyValueStore();
+  const policy = getThrottlePolicy(action);
+  const now = currentDate().getTime();
+
+  await Promise.all(
+    throttleKeys(action, policy, subject)
+      .filter(([scope]) => scope !== THROTTLE_SCOPES.IP)
+      .flatMap(([, key]) => {
+        const { current, previous } = windowKeys(
+          key,
+          policy.windowSeconds * 1000,
+          now
+        );
+        return [current, previous, blockKey(key)].map((k) => store.delete(k));
+      })
+  );
+};
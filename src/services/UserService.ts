@@ -1,4 +1,3 @@
-import { config } from "../config/app";
 import { prisma } from "../config/prisma";
 import type {
   AccountLockoutInfo,
@@ -8,10 +7,14 @@ import type {
   User,
 } from "@prisma/client";
 import { generateRandomString, hashData } from "../utils/crypto";
-import { addMinutes, currentDate } from "../utils/dayjs";
-import { throwError } from "../utils/response";
+import { addDays, addMinutes, currentDate } from "../utils/dayjs";
+import { throwError, throwReasonError } from "../utils/response";
 import { sendEmail } from "./EmailService";
 import { revokeAllUserSessions } from "./SessionService";
+import { startPhoneVerification } from "./PhoneService";
+import { getServicePolicy } from "./ServiceRegistry";
+import { getKeyValueStore } from "./KeyValueStore";
+import { recordAuditEvent } from "./AuditService";
 import {
   comparePassword,
   generateVerificationToken,
@@ -19,15 +22,85 @@ import {
   isAccountLocked,
 } from "../helpers/user";
 import {
+  generateAccountLockedTemplate,
+  generateEmailChangeNoticeTemplate,
   generateEmailVerificationTemplate,
+  generateMagicLinkTemplate,
+  generatePasswordChangedTemplate,
   generatePasswordResetTemplate,
 } from "../templates/emailTemplates";
 import type {
+  EmailChangeRevertRecord,
+  EmailChangeRevertResult,
   MongoRawCommandResult,
   UpdateUserProfile,
   UserExistsResult,
 } from "../types/user";
+import type { ServicePolicy } from "../types/service";
+import type { ClientContext, FailedCheckAudit } from "../types/audit";
 import { logger } from "../helpers/logger";
+import { generateMfaChallengeToken, isRecentAuthTime } from "../helpers/jwt";
+import {
+  ACCOUNT_LOCK_MAX_MINUTES,
+  AUDIT_EVENT_TYPES,
+  AUDIT_OUTCOMES,
+  EMAIL_CHANGE_REVERT_EXPIRY_DAYS,
+  ERROR_REASONS,
+  KV_NAMESPACES,
+  MAGIC_LINK_EXPIRY_MINUTES,
+  RECENT_AUTH_MAX_AGE_SECONDS,
+} from "../constants/common";
+
+// Undo tokens are stored hashed, like every other emailed secret
+const emailChangeRevertKey = (token: string) =>
+  `${KV_NAMESPACES.EMAIL_CHANGE_REVERT}:${hashData(token)}`;
+
+// Tell the owner their password changed; the change stands if the email fails
+const sendPasswordChangedEmail = async (
+  userId: string,
+  email: string,
+  fullname: string
+): Promise<void> => {
+  try {
+    const emailTemplate = await generatePasswordChangedTemplate(fullname);
+    await sendEmail(email, emailTemplate);
+  } catch (error) {
+    logger.error("Failed to send password changed email", { error, userId });
+  }
+};
+
+// Tell the old address about an email change, with a link to undo it
+const sendEmailChangeNotice = async (
+  user: User,
+  newEmail: string
+): Promise<void> => {
+  try {
+    const token = generateRandomString();
+    const record: EmailChangeRevertRecord = {
+      userId: user.id,
+      service: user.service,
+      previousEmail: user.email,
+    };
+    await getKeyValueStore().set(
+      emailChangeRevertKey(token),
+      record,
+      addDays(EMAIL_CHANGE_REVERT_EXPIRY_DAYS)
+    );
+
+    const emailTemplate = await generateEmailChangeNoticeTemplate(
+      user.fullname,
+      newEmail,
+      token,
+      EMAIL_CHANGE_REVERT_EXPIRY_DAYS
+    );
+    await sendEmail(user.email, emailTemplate);
+  } catch (error) {
+    logger.error("Failed to send email change notice", {
+      error,
+      userId: user.id,
+    });
+  }
+};
 
 // Check if a user exists by email or phone, excluding a specific user ID if provided
 export const checkUserExists = async (
@@ -214,11 +287,19 @@ export const verifyEmailWithToken = async (
 };
 
 // Authenticate a user with email and password
+// Returns an MFA challenge token instead of completing the login when MFA is enabled
+// The redirect URL is where the unlock link leads if this attempt locks the account
 export const authenticateUser = async (
   email: string,
   password: string,
-  service: string
-): Promise<{ user: User | null; isValid: boolean }> => {
+  service: string,
+  unlockRedirectUrl?: string
+): Promise<{
+  user: User | null;
+  isValid: boolean;
+  mfaToken?: string;
+  accountLocked?: boolean;
+}> => {
   const user = await prisma.user.findFirst({
     where: {
       email,
@@ -241,8 +322,10 @@ export const authenticateUser = async (
     );
   }
 
-  // Email not verified
-  if (!emailInfo.isVerified) {
+  const policy = await getServicePolicy(service);
+
+  // Email not verified, when the service requires it
+  if (!emailInfo.isVerified && policy.requireEmailVerification) {
     throwError("Please verify your email before logging in", 403);
   }
 
@@ -254,63 +337,197 @@ export const authenticateUser = async (
     );
   }
 
+  // A sign-in was reported as not the owner's, the password may be known
+  if (passwordData.resetRequired) {
+    throwError(
+      "A password reset is required. Please set a new password using 'Forgot Password'.",
+      403
+    );
+  }
+
   // Password does not match
   if (!(await comparePassword(user.passwordInfo?.hash, password))) {
-    await incrementFailedLoginAttempts(user);
-    return { user, isValid: false };
+    const accountLocked = await incrementFailedLoginAttempts(
+      user,
+      policy,
+      unlockRedirectUrl
+    );
+    return { user, isValid: false, ...(accountLocked && { accountLocked }) };
   }
 
-  // Reset failed login attempts
-  const lockout = user.lockoutInfo as AccountLockoutInfo;
-  if (lockout.failedAttemptCount > 0) {
-    await resetFailedLoginAttempts(user.id);
+  // Second factor required before the login is complete; failures are only
+  // cleared then, so signing in again does not reset wrong-code guesses
+  if (user.mfaInfo?.isEnabled) {
+    return { user, isValid: true, mfaToken: generateMfaChallengeToken(user) };
   }
 
-  await prisma.user.update({
-    where: { id: user.id },
-    data: { lastLoginAt: currentDate() },
-  });
+  await recordSuccessfulLogin(user.id);
 
   return { user, isValid: true };
 };
 
+// Cleared lockout state: no failures, no lock and no pending unlock link
+const clearedLockoutInfo = (): AccountLockoutInfo => ({
+  failedAttemptCount: 0,
+  isLocked: false,
+  lockedUntil: null,
+  lockCount: 0,
+  unlockToken: null,
+  unlockExpires: null,
+});
+
+// Record a completed login, with every factor verified
+// Only then are earlier failed attempts forgiven
+export const recordSuccessfulLogin = async (userId: string): Promise<void> => {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { lastLoginAt: currentDate(), lockoutInfo: clearedLockoutInfo() },
+  });
+};
+
 // Increment the count of failed login attempts and lock account if needed
+// Limits come from the policy of the user's service
+// Returns whether this attempt locked the account
 export const incrementFailedLoginAttempts = async (
-  user: User
-): Promise<void> => {
-  const { maxLoginAttempts, loginLockTime } = config.security;
+  user: User,
+  policy?: ServicePolicy,
+  unlockRedirectUrl?: string
+): Promise<boolean> => {
+  const { maxLoginAttempts, loginLockTime } =
+    policy ?? (await getServicePolicy(user.service));
 
   const lockout = user.lockoutInfo as AccountLockoutInfo;
-  const newAttempts = lockout.failedAttemptCount + 1;
+
+  // A lock that has run out starts a fresh window of attempts, so one typo
+  // does not relock at once; lockCount still escalates the next full lockout
+  const hasLockExpired = lockout.isLocked && !isAccountLocked(user);
+  const newAttempts = (hasLockExpired ? 0 : lockout.failedAttemptCount) + 1;
+
+  if (newAttempts < maxLoginAttempts) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        lockoutInfo: {
+          ...lockout,
+          failedAttemptCount: newAttempts,
+          ...(hasLockExpired && {
+            isLocked: false,
+            lockedUntil: null,
+            unlockToken: null,
+            unlockExpires: null,
+          }),
+        },
+      },
+    });
+    return false;
+  }
+
+  // Each lock lasts twice as long as the one before, up to a ceiling
+  const lockMinutes = Math.min(
+    loginLockTime * 2 ** lockout.lockCount,
+    ACCOUNT_LOCK_MAX_MINUTES
+  );
+  const { token, hashed, expires } = generateVerificationToken(lockMinutes);
 
   await prisma.user.update({
     where: { id: user.id },
     data: {
       lockoutInfo: {
         failedAttemptCount: newAttempts,
-        isLocked: newAttempts >= maxLoginAttempts,
-        ...(newAttempts >= maxLoginAttempts && {
-          lockedUntil: addMinutes(loginLockTime),
-        }),
+        isLocked: true,
+        lockedUntil: addMinutes(lockMinutes),
+        lockCount: lockout.lockCount + 1,
+        unlockToken: hashed,
+        unlockExpires: expires,
       },
     },
   });
+
+  // The lock stands even if the owner cannot be told about it
+  try {
+    const emailTemplate = await generateAccountLockedTemplate(
+      user.fullname,
+      lockMinutes,
+      token,
+      unlockRedirectUrl
+    );
+    await sendEmail(user.email, emailTemplate);
+  } catch (error) {
+    logger.error("Failed to send account locked email", {
+      error,
+      userId: user.id,
+    });
+  }
+
+  return true;
 };
 
-// Reset failed login attempts and unlock the account
-export const resetFailedLoginAttempts = async (
-  userId: string
+/**
+ * Count a wrong password or code given to confirm an action, and audit it
+ * together with the lockout it may cause
+ */
+export const recordFailedCheck = async (
+  user: User,
+  { type, metadata, ...client }: FailedCheckAudit
 ): Promise<void> => {
-  await prisma.user.update({
-    where: { id: userId },
-    data: {
-      lockoutInfo: {
-        failedAttemptCount: 0,
-        isLocked: false,
-        lockedUntil: null,
+  const accountLocked = await incrementFailedLoginAttempts(user);
+  const event = { userId: user.id, service: user.service, ...client };
+
+  await recordAuditEvent({
+    ...event,
+    type,
+    outcome: AUDIT_OUTCOMES.FAILURE,
+    ...(metadata && { metadata }),
+  });
+  if (accountLocked) {
+    await recordAuditEvent({
+      ...event,
+      type: AUDIT_EVENT_TYPES.ACCOUNT_LOCKED,
+      outcome: AUDIT_OUTCOMES.SUCCESS,
+    });
+  }
+};
+
+// Unlock an account with the one-time link from the lockout email
+// The link is opened from an email, so the token alone names the account
+// Returns the ID and service of the unlocked user
+export const unlockAccountWithToken = async (
+  token: string
+): Promise<{ userId: string; service: string }> => {
+  const hashedToken = hashData(token);
+
+  // Use raw MongoDB query for nested composite type field
+  const result = await prisma.$runCommandRaw({
+    find: "users",
+    filter: {
+      $expr: {
+        $and: [
+          { $eq: ["$lockoutInfo.unlockToken", hashedToken] },
+          { $gt: ["$lockoutInfo.unlockExpires", currentDate()] },
+        ],
       },
     },
+    limit: 1,
+  });
+
+  const userDoc = (result as MongoRawCommandResult).cursor?.firstBatch?.[0];
+
+  if (!userDoc) throwError("Invalid or expired unlock link", 400);
+
+  const userId =
+    typeof userDoc._id === "string" ? userDoc._id : userDoc._id.$oid;
+
+  // Reset only while the token is still stored, so the link cannot be used twice
+  const unlocked = await prisma.user.updateMany({
+    where: {
+      id: userId,
+      lockoutInfo: { is: { unlockToken: hashedToken } },
+    },
+    data: { lockoutInfo: clearedLockoutInfo() },
   });
+  if (unlocked.count === 0) throwError("Invalid or expired unlock link", 400);
+
+  return { userId, service: userDoc["service"] as string };
 };
 
 // Send password reset email with a reset token and redirect URL
@@ -349,10 +566,11 @@ export const sendPasswordResetEmail = async (
 };
 
 // Reset user password using a valid reset token
+// Returns the ID of the user whose password was reset
 export const resetPasswordWithToken = async (
   token: string,
   newPassword: string
-): Promise<void> => {
+): Promise<string> => {
   const hashedToken = hashData(token);
 
   const result = await prisma.$runCommandRaw({
@@ -391,15 +609,9 @@ export const resetPasswordWithToken = async (
         hash: hashedPassword,
         resetToken: null,
         resetExpires: null,
+        resetRequired: false,
       },
-      lockoutInfo: {
-        ...lockoutInfo,
-        ...(isAccountLocked && {
-          isLocked: false,
-          lockedUntil: null,
-          failedAttemptCount: 0,
-        }),
-      },
+      lockoutInfo: isAccountLocked ? clearedLockoutInfo() : lockoutInfo,
       emailInfo: {
         ...emailInfo,
         ...(isEmailUnverified && {
@@ -413,20 +625,196 @@ export const resetPasswordWithToken = async (
 
   // Revoke all user sessions
   await revokeAllUserSessions(userId);
+
+  await sendPasswordChangedEmail(
+    userId,
+    userDoc["email"] as string,
+    userDoc["fullname"] as string
+  );
+
+  return userId;
+};
+
+// Send a single-use sign-in link to a verified account
+// Unknown or unverified addresses are ignored silently to avoid account enumeration
+export const sendMagicLinkEmail = async (
+  email: string,
+  redirectUrl: string,
+  service: string
+): Promise<void> => {
+  const user = await prisma.user.findFirst({
+    where: {
+      email,
+      service,
+    },
+  });
+  if (!user || !user.emailInfo.isVerified) return;
+
+  const { token, hashed, expires } = generateVerificationToken(
+    MAGIC_LINK_EXPIRY_MINUTES
+  );
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      magicLinkInfo: {
+        token: hashed,
+        expires,
+      },
+    },
+  });
+
+  const emailTemplate = await generateMagicLinkTemplate(
+    user.fullname,
+    token,
+    redirectUrl,
+    MAGIC_LINK_EXPIRY_MINUTES
+  );
+
+  await sendEmail(email, emailTemplate);
+};
+
+// Sign a user in with a magic link token
+// Returns an MFA challenge token instead of completing the login when MFA is enabled
+export const authenticateWithMagicLink = async (
+  token: string,
+  service: string
+): Promise<{ user: User; mfaToken?: string }> => {
+  const hashedToken = hashData(token);
+
+  // Use raw MongoDB query for nested composite type field
+  const result = await prisma.$runCommandRaw({
+    find: "users",
+    filter: {
+      service,
+      $expr: {
+        $and: [
+          { $eq: ["$magicLinkInfo.token", hashedToken] },
+          { $gt: ["$magicLinkInfo.expires", currentDate()] },
+        ],
+      },
+    },
+    limit: 1,
+  });
+
+  const userDoc = (result as MongoRawCommandResult).cursor?.firstBatch?.[0];
+
+  if (!userDoc) throwError("Invalid or expired sign-in link", 401);
+
+  const userId =
+    typeof userDoc._id === "string" ? userDoc._id : userDoc._id.$oid;
+
+  // Clear the token only while it is still stored, so the link cannot be used twice
+  const consumed = await prisma.user.updateMany({
+    where: {
+      id: userId,
+      magicLinkInfo: { is: { token: hashedToken } },
+    },
+    data: { magicLinkInfo: null },
+  });
+  if (consumed.count === 0) throwError("Invalid or expired sign-in link", 401);
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) throwError("Invalid or expired sign-in link", 401);
+
+  if (!user.emailInfo.isVerified) {
+    throwError("Please verify your email before logging in", 403);
+  }
+
+  if (isAccountLocked(user)) {
+    throwError(
+      "Account is temporarily locked due to multiple failed login attempts",
+      423
+    );
+  }
+
+  // The link proves access to the inbox only, MFA still applies
+  if (user.mfaInfo?.isEnabled) {
+    return { user, mfaToken: generateMfaChallengeToken(user) };
+  }
+
+  await recordSuccessfulLogin(user.id);
+
+  return { user };
+};
+
+/**
+ * Make sure the account owner is present before a password or email change
+ * Accounts with a password confirm it; accounts without one need an access
+ * token from a recent sign-in or re-authentication
+ */
+const confirmSensitiveChange = async (
+  user: User,
+  currentPassword: string | undefined,
+  authTime: number | undefined,
+  audit: FailedCheckAudit
+): Promise<void> => {
+  const passwordInfo = user.passwordInfo as PasswordInfo;
+
+  if (passwordInfo.hash) {
+    if (!currentPassword) {
+      throwReasonError(
+        "Current password is required to change your password or email",
+        403,
+        ERROR_REASONS.CURRENT_PASSWORD_REQUIRED
+      );
+    }
+
+    // No guesses while locked, or each one would relock and re-email
+    if (isAccountLocked(user)) {
+      throwError(
+        "Account is temporarily locked due to multiple failed login attempts",
+        423
+      );
+    }
+
+    // Wrong guesses count towards the lockout like failed sign-ins
+    if (!(await comparePassword(passwordInfo.hash, currentPassword))) {
+      await recordFailedCheck(user, audit);
+      throwReasonError(
+        "Current password is incorrect",
+        401,
+        ERROR_REASONS.INVALID_CURRENT_PASSWORD
+      );
+    }
+    return;
+  }
+
+  if (!isRecentAuthTime(authTime, RECENT_AUTH_MAX_AGE_SECONDS)) {
+    throwReasonError(
+      "Please sign in again to change your password or email",
+      403,
+      ERROR_REASONS.REAUTHENTICATION_REQUIRED
+    );
+  }
 };
 
 // Update user profile
+// authTime is the auth_time claim of the access token the request came with
 export const updateUserProfile = async (
   user: User,
-  updates: UpdateUserProfile
+  updates: UpdateUserProfile,
+  sessionId: string,
+  authTime?: number,
+  client: ClientContext = {}
 ): Promise<{ user: User; message: string }> => {
-  const { fullname, phone, email, password, redirectUrl } = updates;
+  const { fullname, phone, email, password, currentPassword, redirectUrl } =
+    updates;
 
   const emailInfo = user.emailInfo as EmailInfo;
   const passwordInfo = user.passwordInfo as PasswordInfo;
   let message: string = "Profile updated successfully";
   let updatedUser = user;
 
+  if (password || (email && email !== user.email)) {
+    await confirmSensitiveChange(user, currentPassword, authTime, {
+      ...client,
+      type: password
+        ? AUDIT_EVENT_TYPES.PASSWORD_CHANGE
+        : AUDIT_EVENT_TYPES.EMAIL_CHANGE,
+      metadata: { method: "password" },
+    });
+  }
+
   // Validate email/phone availability
   if (email || phone) {
     const userExists = await checkUserExists(
@@ -481,6 +869,8 @@ export const updateUserProfile = async (
 
       message =
         "Profile updated. Verification email sent to your new email address. Please verify to complete the email change.";
+
+      await sendEmailChangeNotice(user, email);
     } catch (error) {
       // Rollback pending email on email send failure
       await prisma.user.update({
@@ -511,7 +901,13 @@ export const updateUserProfile = async (
     updateData.fullname = fullname;
   }
 
-  // TODO: Update phone number with verification workflow
+  // Handle phone update with OTP verification workflow
+  if (phone && phone !== user.phone) {
+    updatedUser = await startPhoneVerification(user, phone);
+
+    message =
+      "Profile updated. Verification code sent to your new phone number. Please verify to complete the phone change.";
+  }
 
   // Update password
   if (password) {
@@ -533,5 +929,74 @@ export const updateUserProfile = async (
     });
   }
 
+  // Other devices may be signed in by whoever knew the old password
+  if (password) {
+    await revokeAllUserSessions(user.id, sessionId);
+    await sendPasswordChangedEmail(user.id, user.email, user.fullname);
+  }
+
   return { user: updatedUser, message };
 };
+
+/**
+ * Handle the old address's undo link for an email change
+ * A pending change is cancelled and a completed one reverted; either way
+ * every session is signed out. The token works once.
+ * A completed change may have come with a new password, so reverting it also
+ * requires a password reset before the next password sign-in
+ */
+export const revertEmailChange = async (
+  token: string
+): Promise<EmailChangeRevertResult> => {
+  const record = await getKeyValueStore().take<EmailChangeRevertRecord>(
+    emailChangeRevertKey(token)
+  );
+  if (!record) throwError("Invalid or expired email change link", 400);
+
+  const user = await prisma.user.findUnique({ where: { id: record.userId } });
+  if (!user) throwError("User not found", 404);
+
+  const emailInfo = user.emailInfo as EmailInfo;
+  const wasCompleted = user.email !== record.previousEmail;
+  const passwordInfo = user.passwordInfo as PasswordInfo | null;
+
+  if (wasCompleted) {
+    const emailTaken = await prisma.user.findFirst({
+      where: {
+        email: record.previousEmail,
+        service: record.service,
+        id: { not: user.id },
+      },
+    });
+
+    if (emailTaken) throwError("Email address is already in use", 409);
+  }
+
+  // The old address was verified before the change, so it stays verified
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      ...(wasCompleted && { email: record.previousEmail }),
+      emailInfo: {
+        ...emailInfo,
+        ...(wasCompleted && { isVerified: true }),
+        pendingEmail: null,
+        verificationToken: null,
+        verificationExpires: null,
+      },
+      ...(wasCompleted &&
+        passwordInfo?.hash && {
+          passwordInfo: { ...passwordInfo, resetRequired: true },
+        }),
+    },
+  });
+
+  await revokeAllUserSessions(user.id);
+
+  logger.info("Email change undone", {
+    userId: user.id,
+    wasCompleted,
+  });
+
+  return { ...record, wasCompleted };
+};
@@ -1,6 +1,6 @@
 import { config } from "../config/app";
 import { renderTemplate } from "../services/TemplateService";
-import type { EmailTemplate } from "../types/email";
+import type { EmailTemplate, NewSignInDetails } from "../types/email";
 
 /**
  * Generate email verification template
@@ -46,3 +46,110 @@ export const generatePasswordResetTemplate = async (
     resetUrl,
   });
 };
+
+/**
+ * Generate magic link sign-in template
+ */
+export const generateMagicLinkTemplate = async (
+  fullname: string,
+  loginToken: string,
+  redirectUrl: string,
+  expiryMinutes: number
+): Promise<EmailTemplate> => {
+  const loginUrl = `${redirectUrl}?token=${loginToken}`;
+
+  return await renderTemplate("magic-link", {
+    subject: `${config.app.name} - Your Sign-In Link`,
+    fullname,
+    loginUrl,
+    expiryMinutes,
+  });
+};
+
+/**
+ * Generate recovery code used notification template
+ */
+export const generateRecoveryCodeUsedTemplate = async (
+  fullname: string,
+  remainingCodes: number
+): Promise<EmailTemplate> => {
+  return await renderTemplate("recovery-code-used", {
+    subject: `${config.app.name} - Recovery Code Used`,
+    fullname,
+    remainingCodes,
+  });
+};
+
+/**
+ * Generate account locked notification template
+ * The unlock link opens the client's redirect URL, or else our own unlock page
+ */
+export const generateAccountLockedTemplate = async (
+  fullname: string,
+  lockMinutes: number,
+  unlockToken: string,
+  redirectUrl?: string
+): Promise<EmailTemplate> => {
+  const unlockUrl = redirectUrl
+    ? `${redirectUrl}?token=${unlockToken}`
+    : `${config.app.url}/api/auth/unlock-account?token=${unlockToken}`;
+
+  return await renderTemplate("account-locked", {
+    subject: `${config.app.name} - Account Locked`,
+    fullname,
+    lockMinutes,
+    unlockUrl,
+  });
+};
+
+/**
+ * Generate password changed notification template
+ */
+export const generatePasswordChangedTemplate = async (
+  fullname: string
+): Promise<EmailTemplate> => {
+  return await renderTemplate("password-changed", {
+    subject: `${config.app.name} - Your Password Was Changed`,
+    fullname,
+  });
+};
+
+/**
+ * Generate email change notice template, sent to the old address
+ */
+export const generateEmailChangeNoticeTemplate = async (
+  fullname: string,
+  newEmail: string,
+  revertToken: string,
+  expiryDays: number
+): Promise<EmailTemplate> => {
+  const revertUrl = `${config.app.url}/api/auth/email-change/revert?token=${revertToken}`;
+
+  return await renderTemplate("email-change-notice", {
+    subject: `${config.app.name} - Email Address Change Requested`,
+    fullname,
+    newEmail,
+    revertUrl,
+    expiryDays,
+  });
+};
+
+/**
+ * Generate new sign-in notification template
+ */
+export const generateNewSignInTemplate = async (
+  fullname: string,
+  signIn: NewSignInDetails,
+  reportToken: string,
+  expiryDays: number
+): Promise<EmailTemplate> => {
+  const reportUrl = `${config.app.url}/api/auth/signin-report?token=${reportToken}`;
+
+  return await renderTemplate("new-signin", {
+    subject: `${config.app.name} - New Sign-In to Your Account`,
+    fullname,
+    ...signIn,
+    reportUrl,
+    expiryDays,
+  });
+};
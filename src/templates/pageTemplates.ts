@@ -0,0 +1,32 @@
+import { renderPage } from "../services/TemplateService";
+
+/**
+ * Generate the page an emailed link opens before anything changes
+ * Mail scanners follow links, so the action only runs when the form posts
+ * the token back to actionUrl
+ */
+export const generateLinkConfirmationPage = async (
+  title: string,
+  message: string,
+  actionUrl: string,
+  token: string,
+  buttonLabel: string
+): Promise<string> => {
+  return await renderPage("link-action", {
+    title,
+    message,
+    actionUrl,
+    token,
+    buttonLabel,
+  });
+};
+
+/**
+ * Generate the page shown once the action of an emailed link is done
+ */
+export const generateLinkResultPage = async (
+  title: string,
+  message: string
+): Promise<string> => {
+  return await renderPage("link-action", { title, message });
+};
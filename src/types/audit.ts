@@ -0,0 +1,71 @@
+import type { Prisma } from "@prisma/client";
+import { AUDIT_EVENT_TYPES, AUDIT_OUTCOMES } from "../constants/common";
+
+export type AuditEventType =
+  (typeof AUDIT_EVENT_TYPES)[keyof typeof AUDIT_EVENT_TYPES];
+
+export type AuditOutcome = (typeof AUDIT_OUTCOMES)[keyof typeof AUDIT_OUTCOMES];
+
+export type AuditMetadata = Record<string, string | number | boolean>;
+
+// Where a request came from
+export interface ClientContext {
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+export interface AuditEventInput extends ClientContext {
+  type: AuditEventType;
+  outcome: AuditOutcome;
+  service: string;
+  userId?: string | undefined;
+  metadata?: AuditMetadata;
+}
+
+// A wrong password or code to record, and the action it was meant to confirm
+export interface FailedCheckAudit extends ClientContext {
+  type: AuditEventType;
+  metadata?: AuditMetadata;
+}
+
+// Fields covered by an event's hash, in a fixed order
+export interface AuditHashInput {
+  chain: string;
+  sequence: number;
+  userId: string | null;
+  service: string;
+  type: string;
+  outcome: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  metadata: Prisma.JsonValue | null;
+  createdAt: Date;
+  previousHash: string | null;
+}
+
+export interface AuditEventSummary {
+  id: string;
+  type: string;
+  outcome: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  metadata: Prisma.JsonValue | null;
+  createdAt: Date;
+}
+
+export interface AuditActivityPage {
+  events: AuditEventSummary[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+// Result of walking the chain: where it breaks, if anywhere
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  brokenAtSequence?: number;
+}
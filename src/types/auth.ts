@@ -1,25 +1,156 @@
+import type { JsonWebKey, KeyObject } from "crypto";
 import type { User } from "@prisma/client";
+import type { ServicePolicy } from "./service";
+import type { OAuthProviderName } from "./user";
+import {
+  AUTH_ASSURANCE_LEVELS,
+  ERROR_REASONS,
+  JWT_ALGORITHMS,
+} from "../constants/common";
+
+export type JwtAlgorithm =
+  | typeof JWT_ALGORITHMS.HS256
+  | typeof JWT_ALGORITHMS.RS256
+  | typeof JWT_ALGORITHMS.ES256;
+
+export type AsymmetricJwtAlgorithm = Exclude<JwtAlgorithm, "HS256">;
+
+export interface SigningKey {
+  kid: string;
+  algorithm: AsymmetricJwtAlgorithm;
+  publicKey: KeyObject;
+  privateKey?: KeyObject; // absent for retired keys kept only for verification
+}
+
+export interface JsonWebKeySet {
+  keys: (JsonWebKey & { kid: string; alg: string; use: "sig" })[];
+}
+
+export type AuthAssuranceLevel =
+  (typeof AUTH_ASSURANCE_LEVELS)[keyof typeof AUTH_ASSURANCE_LEVELS];
 
 export interface IJWTPayload {
   userId: string;
   email: string;
   service: string;
   fullname?: string;
+  auth_time?: number; // seconds since epoch of the last authentication
+  acr?: AuthAssuranceLevel;
+  iat?: number;
+  exp?: number;
+}
+
+// When and how the user last authenticated, carried into access tokens
+export interface AuthContext {
+  authTime: Date;
+  acr?: AuthAssuranceLevel;
+}
+
+export interface ReauthInput extends MfaVerificationInput {
+  password?: string;
+}
+
+// Short-lived access token with a fresh auth_time
+export interface ElevatedAccessToken {
+  accessToken: string;
+  expiresIn: string;
+  acr: AuthAssuranceLevel;
+}
+
+export interface IMfaChallengePayload {
+  userId: string;
+  service: string;
+  purpose: "mfa_challenge";
   iat?: number;
   exp?: number;
 }
 
+export interface IWebAuthnChallengePayload {
+  challenge: string;
+  service: string;
+  purpose: "webauthn_registration" | "webauthn_authentication";
+  userId?: string; // bound user, set for registration and MFA assertions
+  iat?: number;
+  exp?: number;
+}
+
+export interface IOAuthStatePayload {
+  redirectUrl: string;
+  nextUrl?: string;
+  service: string;
+  codeChallenge?: string; // PKCE S256 challenge from the client
+  nonceHash: string; // hash of the nonce held in the browser-binding cookie
+  linkUserId?: string; // signed-in user linking a provider from their profile
+  purpose: "oauth_state";
+  iat?: number;
+  exp?: number;
+}
+
+// An OAuth identity waiting for the password account holder's confirmation
+export interface IOAuthLinkPayload {
+  userId: string;
+  service: string;
+  provider: OAuthProviderName;
+  providerUserId: string;
+  email: string;
+  purpose: "oauth_link";
+  iat?: number;
+  exp?: number;
+}
+
+// Lets a signed-in user start a provider flow that links instead of logging in
+export interface IOAuthLinkIntentPayload {
+  userId: string;
+  service: string;
+  purpose: "oauth_link_intent";
+  iat?: number;
+  exp?: number;
+}
+
+export interface MfaVerificationInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
 export interface TokenPair {
   accessToken: string;
   refreshToken: string;
   expiresIn: string;
 }
 
+export interface DeviceInfo {
+  device: string;
+  browser: string | null;
+  os: string | null;
+}
+
+// Pending "this wasn't me" report for a sign-in, kept in the key-value store
+export interface SignInReportRecord {
+  userId: string;
+  sessionId: string;
+  service: string;
+}
+
+export interface SessionSummary extends DeviceInfo {
+  id: string;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+export type ErrorReason = (typeof ERROR_REASONS)[keyof typeof ERROR_REASONS];
+
 // Express Request interface extension
 declare module "express-serve-static-core" {
   interface Request {
     user?: User;
     jwt?: IJWTPayload;
     service?: string;
+    servicePolicy?: ServicePolicy;
+    sessionId?: string;
+    oauthState?: IOAuthStatePayload;
+    oauthLinkToken?: string;
   }
 }
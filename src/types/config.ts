@@ -1,3 +1,14 @@
+import type { JwtAlgorithm } from "./auth";
+import type { SmsProvider } from "./sms";
+import type { KeyValueStoreDriver } from "./store";
+import type { OidcProviderConfig } from "./oidc";
+
+export interface OAuthProviderConfig {
+  clientId: string;
+  clientSecret: string;
+  callbackUrl: string;
+}
+
 export interface IConfig {
   port: number;
   nodeEnv: string;
@@ -13,6 +24,9 @@ export interface IConfig {
     refreshSecret: string;
     expiresIn: string;
     refreshExpiresIn: string;
+    algorithm: JwtAlgorithm;
+    keysDir: string;
+    activeKeyId: string;
   };
   email: {
     host: string;
@@ -28,23 +42,32 @@ export interface IConfig {
     loginLockTime: number;
     maxRegistrationAttempts: number;
     registrationLockTime: number;
+    encryptionKey: string;
+  };
+  webauthn: {
+    rpId: string;
+    origins: string[];
+  };
+  sms: {
+    provider: SmsProvider;
+    outputFile: string;
+  };
+  kvStore: {
+    driver: KeyValueStoreDriver;
   };
   rateLimit: {
     windowMs: number;
     maxRequests: number;
   };
   discordAlert: string;
+  // A provider is only enabled when its credentials are configured
   oauth: {
-    google: {
-      clientId: string;
-      clientSecret: string;
-      callbackUrl: string;
-    };
-    github: {
-      clientId: string;
-      clientSecret: string;
-      callbackUrl: string;
-    };
+    google?: OAuthProviderConfig | undefined;
+    github?: OAuthProviderConfig | undefined;
+    microsoft?: (OAuthProviderConfig & { tenant: string }) | undefined;
+    gitlab?: (OAuthProviderConfig & { baseUrl: string }) | undefined;
+    discord?: OAuthProviderConfig | undefined;
+    oidc: Record<string, OidcProviderConfig>; // by provider slug
   };
   loki: {
     enabled: boolean;
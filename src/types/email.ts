@@ -8,3 +8,11 @@ export interface TemplateData {
   subject: string;
   [key: string]: unknown;
 }
+
+// What a new sign-in email tells the user about the sign-in
+export interface NewSignInDetails {
+  device: string;
+  location: string;
+  ipAddress: string;
+  signInTime: string;
+}
@@ -0,0 +1,67 @@
+import type { JsonWebKey } from "crypto";
+import type { OAuthProviderConfig } from "./config";
+
+// A generic OpenID Connect identity provider, configured by issuer URL
+export interface OidcProviderConfig extends OAuthProviderConfig {
+  issuer: string;
+  scopes: string[];
+}
+
+// Fields of the discovery document (/.well-known/openid-configuration) we use
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  id_token_signing_alg_values_supported?: string[];
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+export interface OidcTokenResponse {
+  id_token?: string;
+  access_token?: string;
+  token_type?: string;
+}
+
+// Standard claims mapped into an OAuth user
+export interface OidcClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  azp?: string;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  preferred_username?: string;
+  picture?: string;
+}
+
+// Microsoft ID token claims that say whether its email can be trusted
+// Graph "mail" is set by the tenant admin, so only these prove ownership
+export interface MicrosoftIdTokenClaims {
+  email?: string;
+  email_verified?: boolean | string;
+  xms_edov?: boolean | string; // email domain owner verified
+}
+
+// Cached per issuer / JWKS URI until expiresAt (epoch milliseconds)
+export interface OidcDiscoveryCacheEntry {
+  document: OidcDiscoveryDocument;
+  expiresAt: number;
+}
+
+export interface OidcJwksCacheEntry {
+  keys: (JsonWebKey & { kid?: string })[];
+  expiresAt: number;
+}
+
+// Secrets of an authorization request, kept server-side until the callback
+export interface OidcFlowRecord {
+  provider: string; // slug the flow was started for
+  codeVerifier: string;
+  nonce: string;
+}
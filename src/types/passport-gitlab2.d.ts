@@ -0,0 +1,35 @@
+// passport-gitlab2 ships without type definitions
+declare module "passport-gitlab2" {
+  import type { Request } from "express";
+  import type { Profile as PassportProfile } from "passport";
+  import type { VerifyCallback } from "passport-oauth2";
+  import oauth2 from "passport-oauth2";
+
+  export interface Profile extends PassportProfile {
+    username: string;
+    avatarUrl?: string;
+    profileUrl?: string;
+  }
+
+  export interface StrategyOptions {
+    clientID: string;
+    clientSecret: string;
+    callbackURL: string;
+    baseURL?: string;
+    scope?: string | string[];
+    passReqToCallback: true;
+  }
+
+  export class Strategy extends oauth2.Strategy {
+    constructor(
+      options: StrategyOptions,
+      verify: (
+        req: Request,
+        accessToken: string,
+        refreshToken: string,
+        profile: Profile,
+        done: VerifyCallback
+      ) => void
+    );
+  }
+}
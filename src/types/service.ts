@@ -0,0 +1,27 @@
+import type { Service } from "@prisma/client";
+
+// Snapshot of the service registry held in memory, keyed by slug
+export interface ServiceCache {
+  services: Map<string, Service>;
+  expiresAt: number;
+}
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+}
+
+// A service's effective policy, overrides merged over the global defaults
+export interface ServicePolicy {
+  accessTokenExpiresIn: string;
+  refreshTokenExpiresIn: string;
+  maxLoginAttempts: number;
+  loginLockTime: number;
+  requireEmailVerification: boolean;
+  password: PasswordPolicy;
+  redirectUrlPatterns: string[];
+}
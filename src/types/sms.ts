@@ -0,0 +1,10 @@
+import { SMS_PROVIDERS } from "../constants/common";
+
+export type SmsProvider =
+  | typeof SMS_PROVIDERS.CONSOLE
+  | typeof SMS_PROVIDERS.FILE;
+
+// Contract for SMS delivery backends (e.g., console, file, Twilio)
+export interface SmsSender {
+  send(to: string, message: string): Promise<void>;
+}
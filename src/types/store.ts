@@ -0,0 +1,53 @@
+import {
+  KV_STORE_DRIVERS,
+  THROTTLE_ACTIONS,
+  THROTTLE_SCOPES,
+} from "../constants/common";
+
+export type KeyValueStoreDriver =
+  | typeof KV_STORE_DRIVERS.MEMORY
+  | typeof KV_STORE_DRIVERS.DATABASE;
+
+// Contract for short-lived state shared between instances (e.g., login codes)
+// Expired entries are never returned
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, expiresAt: Date): Promise<void>;
+  // Read and remove in one step, so only one caller gets a single-use value
+  take<T>(key: string): Promise<T | null>;
+  delete(key: string): Promise<void>;
+  // Add one to a counter in one step, so concurrent callers never share a count
+  // A missing or expired counter starts at 1 and expires at expiresAt
+  increment(key: string, expiresAt: Date): Promise<AttemptCounter>;
+}
+
+// Attempts counted in a fixed window that ends at resetAt (epoch milliseconds)
+export interface AttemptCounter {
+  count: number;
+  resetAt: number;
+}
+
+export type ThrottleAction =
+  (typeof THROTTLE_ACTIONS)[keyof typeof THROTTLE_ACTIONS];
+
+export type ThrottleScope =
+  (typeof THROTTLE_SCOPES)[keyof typeof THROTTLE_SCOPES];
+
+// Attempts allowed per sliding window, per scope; unlisted scopes are not counted
+export interface ThrottlePolicy {
+  windowSeconds: number;
+  limits: Partial<Record<ThrottleScope, number>>;
+}
+
+// Who a throttled request comes from and which account it targets
+export interface ThrottleSubject {
+  service: string;
+  ipAddress?: string | undefined;
+  email?: string | undefined;
+}
+
+// Backoff reached for one key and when its current block ends (epoch milliseconds)
+export interface ThrottleBlock {
+  strikes: number;
+  blockedUntil: number;
+}
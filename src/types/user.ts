@@ -1,20 +1,60 @@
 import { AUTH_PROVIDERS } from "../constants/common";
-import type { TokenPair } from "./auth";
 import type { User } from "@prisma/client";
+import type { ClientContext } from "./audit";
+
+// Built-in providers, plus "oidc:<slug>" for each OpenID Connect provider
+export type OAuthProviderName =
+  | (typeof AUTH_PROVIDERS)[keyof typeof AUTH_PROVIDERS]
+  | `${typeof AUTH_PROVIDERS.OIDC}:${string}`;
 
 export interface IOAuthUser {
   email: string;
   service: string;
   isVerified: boolean;
-  provider: typeof AUTH_PROVIDERS.GOOGLE | typeof AUTH_PROVIDERS.GITHUB;
+  provider: OAuthProviderName;
+  providerUserId: string;
   displayName: string;
   avatarUrl?: string;
 }
 
-export interface LoginStoreRecord {
-  user: User;
-  tokens: TokenPair;
-  expiresAt: number;
+// Outcome of an OAuth login: the user, or a link to an existing password
+// account that its holder must confirm first
+export type OAuthLoginResult = { user: User } | { linkToken: string };
+
+// Outcome of confirming a pending link: done, or a second factor is needed
+export type OAuthLinkConfirmation = { user: User } | { mfaRequired: true };
+
+// OAuth login code entry, kept in the key-value store until exchanged
+// Holds the user and the client to open the session for, as tokens are only
+// issued on exchange, or a link token when the login awaits link confirmation
+export type LoginStoreRecord = (
+  | { userId: string; client: ClientContext; location: string | null }
+  | { linkToken: string }
+) & {
+  codeChallenge?: string; // PKCE S256 challenge the exchange must answer
+};
+
+export interface PasskeySummary {
+  id: string;
+  name: string | null;
+  deviceType: string | null;
+  backedUp: boolean;
+  transports: string[];
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+// A provider account, unique within a service
+export type LinkedIdentityKey = Pick<
+  IOAuthUser,
+  "service" | "provider" | "providerUserId"
+>;
+
+export interface LinkedIdentitySummary {
+  id: string;
+  provider: string;
+  email: string | null;
+  createdAt: Date;
 }
 
 export interface UpdateUserProfile {
@@ -22,9 +62,22 @@ export interface UpdateUserProfile {
   email?: string;
   phone?: string;
   password?: string;
+  currentPassword?: string;
   redirectUrl?: string;
 }
 
+// Email change the old address can still undo, kept in the key-value store
+export interface EmailChangeRevertRecord {
+  userId: string;
+  service: string;
+  previousEmail: string;
+}
+
+// Outcome of an undo link: a pending change is cancelled, a completed one reverted
+export interface EmailChangeRevertResult extends EmailChangeRevertRecord {
+  wasCompleted: boolean;
+}
+
 export type UserExistsResult =
   | { exists: false }
   | { exists: true; user: User; field: "email" | "phone" };
@@ -4,6 +4,62 @@ import crypto from "crypto";
 export const generateRandomString = (length: number = 32): string =>
   crypto.randomBytes(length).toString("hex");
 
+// Generate a cryptographically secure numeric code (e.g., SMS one-time passwords)
+export const generateNumericCode = (length: number = 6): string =>
+  Array.from({ length }, () => crypto.randomInt(10)).join("");
+
 // Hash sensitive data using SHA-256
 export const hashData = (data: string): string =>
   crypto.createHash("sha256").update(data).digest("hex");
+
+// Derive a PKCE S256 code challenge from a code verifier
+export const createPkceChallenge = (verifier: string): string =>
+  crypto.createHash("sha256").update(verifier).digest("base64url");
+
+// Check a PKCE code verifier against the challenge sent when the flow started
+export const verifyPkceChallenge = (
+  verifier: string,
+  challenge: string
+): boolean => {
+  const expected = Buffer.from(challenge);
+  const actual = Buffer.from(createPkceChallenge(verifier));
+
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+};
+
+// Encrypt data using AES-256-GCM with a key derived from the given secret
+export const encryptData = (data: string, secret: string): string => {
+  const key = crypto.createHash("sha256").update(secret).digest();
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const encrypted = Buffer.concat([
+    cipher.update(data, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString("base64"))
+    .join(".");
+};
+
+// Decrypt data produced by encryptData, throws if the payload was tampered with
+export const decryptData = (payload: string, secret: string): string => {
+  const [iv, authTag, encrypted] = payload
+    .split(".")
+    .map((part) => Buffer.from(part, "base64"));
+
+  if (!iv || !authTag || !encrypted) {
+    throw new Error("Malformed encrypted payload");
+  }
+
+  const key = crypto.createHash("sha256").update(secret).digest();
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    "utf8"
+  );
+};
@@ -1,3 +1,7 @@
+import type { OAuthProviderConfig } from "../types/config";
+import type { OidcProviderConfig } from "../types/oidc";
+import { OIDC_SETTINGS } from "../constants/common";
+
 // Get required environment variable
 export const getRequiredEnvVar = (key: string): string => {
   const value = process.env[key];
@@ -25,3 +29,66 @@ export const getRequiredEnvNumber = (key: string): number => {
   }
   return parsed;
 };
+
+// Get an optional environment variable that must be one of the given values
+export const getEnvOption = <T extends string>(
+  key: string,
+  options: Record<string, T>,
+  defaultValue: T
+): T => {
+  const value = process.env[key] || defaultValue;
+  const allowed: string[] = Object.values(options);
+
+  if (!allowed.includes(value)) {
+    throw new Error(
+      `Environment variable ${key} must be one of: ${allowed.join(", ")}`
+    );
+  }
+  return value as T;
+};
+
+// Get OAuth client credentials from <PREFIX>_CLIENT_ID, <PREFIX>_CLIENT_SECRET
+// and <PREFIX>_CALLBACK_URL, or undefined unless all three are set
+export const getOAuthProviderEnv = (
+  prefix: string
+): OAuthProviderConfig | undefined => {
+  const clientId = process.env[`${prefix}_CLIENT_ID`];
+  const clientSecret = process.env[`${prefix}_CLIENT_SECRET`];
+  const callbackUrl = process.env[`${prefix}_CALLBACK_URL`];
+
+  if (!clientId || !clientSecret || !callbackUrl) return undefined;
+  return { clientId, clientSecret, callbackUrl };
+};
+
+// Get the OpenID Connect providers listed in OIDC_PROVIDERS (comma-separated slugs)
+// Each needs OIDC_<SLUG>_ISSUER and client credentials, OIDC_<SLUG>_SCOPES is optional
+export const getOidcProvidersEnv = (): Record<string, OidcProviderConfig> => {
+  const slugs = (process.env["OIDC_PROVIDERS"] ?? "")
+    .split(",")
+    .map((slug) => slug.trim().toLowerCase())
+    .filter(Boolean);
+
+  return Object.fromEntries(
+    slugs.map((slug) => {
+      const prefix = `OIDC_${slug.toUpperCase().replace(/-/g, "_")}`;
+      const credentials = getOAuthProviderEnv(prefix);
+      if (!credentials) {
+        throw new Error(
+          `OpenID Connect provider ${slug} is missing credentials`
+        );
+      }
+
+      const scopes = process.env[`${prefix}_SCOPES`];
+      return [
+        slug,
+        {
+          ...credentials,
+          issuer: getRequiredEnvVar(`${prefix}_ISSUER`),
+          scopes: scopes
+            ? scopes.split(/[\s,]+/).filter(Boolean)
+            : [...OIDC_SETTINGS.DEFAULT_SCOPES],
+        },
+      ];
+    })
+  );
+};
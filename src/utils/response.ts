@@ -1,10 +1,45 @@
 import type { Response } from "express";
+import type { ErrorReason } from "../types/auth";
 
 // Error handling utility
 export function throwError(message: string, code: number = 500): never {
   throw Object.assign(new Error(message), { code, isOperational: true });
 }
 
+// Rate limit error utility, the handler sends retryAfter as a Retry-After header
+export function throwRateLimitError(
+  message: string,
+  retryAfterSeconds: number
+): never {
+  throw Object.assign(new Error(message), {
+    code: 429,
+    isOperational: true,
+    retryAfter: Math.max(1, Math.ceil(retryAfterSeconds)),
+  });
+}
+
+// Error utility for failures the client must react to, the handler sends the reason
+export function throwReasonError(
+  message: string,
+  code: number,
+  reason: ErrorReason
+): never {
+  throw Object.assign(new Error(message), {
+    code,
+    isOperational: true,
+    reason,
+  });
+}
+
+// HTML page response utility, for pages opened from emailed links
+export function sendPage(
+  res: Response,
+  html: string,
+  code: number = 200
+): void {
+  res.status(code).type("html").send(html);
+}
+
 // Success response utility
 export function sendSuccess(
   res: Response,
@@ -0,0 +1,20 @@
+import UAParser from "ua-parser-js";
+import type { DeviceInfo } from "../types/auth";
+
+// Join the defined parts of a name/version pair (e.g., "Chrome 129.0")
+const describe = (...parts: (string | undefined)[]): string | null =>
+  parts.filter(Boolean).join(" ") || null;
+
+// Parse a User-Agent header into human-readable device, browser and OS names
+export const parseUserAgent = (userAgent?: string | null): DeviceInfo => {
+  if (!userAgent) return { device: "unknown", browser: null, os: null };
+
+  const { browser, device, os } = UAParser(userAgent);
+
+  return {
+    // Desktop browsers report no device details
+    device: describe(device.vendor, device.model) ?? device.type ?? "desktop",
+    browser: describe(browser.name, browser.version),
+    os: describe(os.name, os.version),
+  };
+};
@@ -6,14 +6,31 @@ import {
   githubAuth,
   githubCallback,
   exchangeCode,
+  verifyOAuthState,
 } from "../../src/controllers/OauthController";
 import { generateTokenPair } from "../../src/services/SessionService";
-import { generateRandomString } from "../../src/utils/crypto";
+import {
+  generateRandomString,
+  hashData,
+  verifyPkceChallenge,
+} from "../../src/utils/crypto";
+import {
+  generateOAuthStateToken,
+  verifyOAuthStateToken,
+} from "../../src/helpers/jwt";
+import { getActiveService } from "../../src/services/ServiceRegistry";
+import { getOAuthLoginUser } from "../../src/services/OauthService";
 
 // Mock dependencies
 jest.mock("passport");
 jest.mock("../../src/services/SessionService");
 jest.mock("../../src/utils/crypto");
+jest.mock("../../src/services/ServiceRegistry");
+jest.mock("../../src/services/OauthService");
+jest.mock("../../src/helpers/jwt");
+jest.mock("../../src/helpers/user");
+jest.mock("../../src/services/AuditService");
+jest.mock("../../src/services/SignInAlertService");
 
 // Mock timers to prevent hanging
 jest.useFakeTimers();
@@ -25,6 +42,23 @@ const mockGenerateTokenPair = generateTokenPair as jest.MockedFunction<
 const mockGenerateRandomString = generateRandomString as jest.MockedFunction<
   typeof generateRandomString
 >;
+const mockHashData = hashData as jest.MockedFunction<typeof hashData>;
+const mockVerifyPkceChallenge = verifyPkceChallenge as jest.MockedFunction<
+  typeof verifyPkceChallenge
+>;
+const mockGenerateOAuthStateToken =
+  generateOAuthStateToken as jest.MockedFunction<
+    typeof generateOAuthStateToken
+  >;
+const mockVerifyOAuthStateToken = verifyOAuthStateToken as jest.MockedFunction<
+  typeof verifyOAuthStateToken
+>;
+const mockGetActiveService = getActiveService as jest.MockedFunction<
+  typeof getActiveService
+>;
+const mockGetOAuthLoginUser = getOAuthLoginUser as jest.MockedFunction<
+  typeof getOAuthLoginUser
+>;
 
 describe("OauthController - Key Tests", () => {
   let mockReq: Partial<Request>;
@@ -37,11 +71,15 @@ describe("OauthController - Key Tests", () => {
       query: {
         redirectUrl: "http://localhost:3000/callback",
         service: "examaxis",
-        state: JSON.stringify({
-          redirectUrl: "http://localhost:3000/callback",
-          service: "examaxis",
-        }),
+        state: "signed-state",
       },
+      oauthState: {
+        redirectUrl: "http://localhost:3000/callback",
+        service: "examaxis",
+        nonceHash: "hashed-browser-nonce",
+        purpose: "oauth_state",
+      },
+      cookies: { credlock_oauth_state: "browser-nonce" },
       headers: { "user-agent": "test-agent" },
       ip: "127.0.0.1",
       user: {
@@ -54,6 +92,8 @@ describe("OauthController - Key Tests", () => {
 
     mockRes = {
       redirect: jest.fn(),
+      cookie: jest.fn(),
+      clearCookie: jest.fn(),
       json: jest.fn(),
       status: jest.fn().mockReturnThis(),
     };
@@ -70,6 +110,14 @@ describe("OauthController - Key Tests", () => {
     });
 
     mockGenerateRandomString.mockReturnValue("mock-random-code");
+    mockHashData.mockImplementation((value) => `hashed-${value}`);
+    mockGenerateOAuthStateToken.mockReturnValue("signed-state");
+    mockVerifyOAuthStateToken.mockReturnValue(mockReq.oauthState!);
+    mockGetActiveService.mockResolvedValue({
+      slug: "examaxis",
+      redirectUrlPatterns: ["http://localhost:3000/*"],
+    } as any);
+    mockGetOAuthLoginUser.mockResolvedValue(mockReq.user as any);
     mockPassport.authenticate.mockImplementation(() =>
       jest.fn((req, res, next) => next())
     );
@@ -93,36 +141,143 @@ describe("OauthController - Key Tests", () => {
         scope: ["profile", "email"],
         accessType: "offline",
         prompt: "select_account",
-        state: JSON.stringify({
-          redirectUrl: "http://localhost:3000/callback",
-          service: "examaxis",
-        }),
+        state: "signed-state",
+      });
+    });
+
+    it("should bind the signed state to the browser with a cookie", async () => {
+      await googleAuth(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.cookie).toHaveBeenCalledWith(
+        "credlock_oauth_state",
+        "mock-random-code",
+        expect.objectContaining({
+          httpOnly: true,
+          sameSite: "lax",
+          path: "/api/oauth",
+        })
+      );
+      expect(mockGenerateOAuthStateToken).toHaveBeenCalledWith({
+        redirectUrl: "http://localhost:3000/callback",
+        service: "examaxis",
+        nonceHash: "hashed-mock-random-code",
+        purpose: "oauth_state",
       });
     });
+
+    it("should carry the PKCE challenge in the signed state", async () => {
+      mockReq.query = { ...mockReq.query, code_challenge: "pkce-challenge" };
+
+      await googleAuth(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockGenerateOAuthStateToken).toHaveBeenCalledWith(
+        expect.objectContaining({ codeChallenge: "pkce-challenge" })
+      );
+    });
+
+    it("should reject a service that is not registered or disabled", async () => {
+      const error = Object.assign(new Error("Invalid service."), { code: 400 });
+      mockGetActiveService.mockRejectedValue(error);
+
+      await googleAuth(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockGetActiveService).toHaveBeenCalledWith("examaxis");
+      expect(mockPassport.authenticate).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+
+    it("should reject a redirect URL the service has not allowed", async () => {
+      mockReq.query = {
+        ...mockReq.query,
+        nextUrl: "https://evil.example.com/phish",
+      };
+
+      await googleAuth(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockPassport.authenticate).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: "Redirect URL is not allowed for this service",
+        })
+      );
+    });
   });
 
   describe("googleCallback", () => {
-    it("should generate tokens and redirect with login code", async () => {
+    it("should redirect with a login code without issuing tokens", async () => {
       await googleCallback(mockReq as Request, mockRes as Response, mockNext);
 
-      expect(mockGenerateTokenPair).toHaveBeenCalledWith(
-        mockReq.user,
-        "test-agent",
-        "127.0.0.1"
-      );
+      expect(mockGenerateTokenPair).not.toHaveBeenCalled();
       expect(mockRes.redirect).toHaveBeenCalledWith(
         "http://localhost:3000/callback?code=mock-random-code"
       );
     });
+  });
 
-    it("should handle token generation errors", async () => {
-      const error = new Error("Token generation failed");
-      mockGenerateTokenPair.mockRejectedValue(error);
+  describe("verifyOAuthState", () => {
+    beforeEach(() => {
+      delete mockReq.oauthState;
+    });
 
-      await googleCallback(mockReq as Request, mockRes as Response, mockNext);
+    it("should accept a signed state from the same browser", () => {
+      verifyOAuthState(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockVerifyOAuthStateToken).toHaveBeenCalledWith("signed-state");
+      expect(mockRes.clearCookie).toHaveBeenCalledWith(
+        "credlock_oauth_state",
+        expect.objectContaining({ path: "/api/oauth" })
+      );
+      expect(mockReq.oauthState).toMatchObject({ service: "examaxis" });
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it("should reject a state started in another browser", () => {
+      mockReq.cookies = { credlock_oauth_state: "other-nonce" };
+
+      verifyOAuthState(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockReq.oauthState).toBeUndefined();
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: "OAuth state does not match this browser",
+          code: 401,
+        })
+      );
+    });
+
+    it("should reject a state without the binding cookie", () => {
+      mockReq.cookies = {};
+
+      verifyOAuthState(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 401 })
+      );
+    });
+
+    it("should reject a forged or malformed state", () => {
+      const error = Object.assign(new Error("Invalid or expired OAuth state"), {
+        code: 401,
+      });
+      mockVerifyOAuthStateToken.mockImplementation(() => {
+        throw error;
+      });
+      mockReq.query = { state: '{"redirectUrl":"https://evil.example.com"' };
+
+      verifyOAuthState(mockReq as Request, mockRes as Response, mockNext);
 
       expect(mockNext).toHaveBeenCalledWith(error);
     });
+
+    it("should reject a missing state", () => {
+      mockReq.query = {};
+
+      verifyOAuthState(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Missing state parameter" })
+      );
+    });
   });
 
   describe("githubAuth", () => {
@@ -131,23 +286,16 @@ describe("OauthController - Key Tests", () => {
 
       expect(mockPassport.authenticate).toHaveBeenCalledWith("github", {
         scope: ["user:email"],
-        state: JSON.stringify({
-          redirectUrl: "http://localhost:3000/callback",
-          service: "examaxis",
-        }),
+        state: "signed-state",
       });
     });
   });
 
   describe("githubCallback", () => {
-    it("should generate tokens and redirect with login code", async () => {
+    it("should redirect with a login code without issuing tokens", async () => {
       await githubCallback(mockReq as Request, mockRes as Response, mockNext);
 
-      expect(mockGenerateTokenPair).toHaveBeenCalledWith(
-        mockReq.user,
-        "test-agent",
-        "127.0.0.1"
-      );
+      expect(mockGenerateTokenPair).not.toHaveBeenCalled();
       expect(mockRes.redirect).toHaveBeenCalledWith(
         "http://localhost:3000/callback?code=mock-random-code"
       );
@@ -155,12 +303,117 @@ describe("OauthController - Key Tests", () => {
   });
 
   describe("exchangeCode", () => {
-    it("should throw error for invalid code", () => {
+    it("should reject an invalid code", async () => {
       mockReq.query = { code: "invalid-code" };
 
-      expect(() => {
-        exchangeCode(mockReq as Request, mockRes as Response);
-      }).toThrow("Invalid or expired login code");
+      await exchangeCode(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Invalid or expired login code" })
+      );
+    });
+
+    it("should exchange a code once for tokens of the callback's session", async () => {
+      await googleCallback(mockReq as Request, mockRes as Response, mockNext);
+      mockReq.query = { code: "mock-random-code" };
+      mockReq.headers = { "user-agent": "frontend-server" };
+
+      await exchangeCode(mockReq as Request, mockRes as Response, mockNext);
+      await exchangeCode(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockGetOAuthLoginUser).toHaveBeenCalledWith("user123");
+      expect(mockGenerateTokenPair).toHaveBeenCalledTimes(1);
+      expect(mockGenerateTokenPair).toHaveBeenCalledWith(
+        mockReq.user,
+        "test-agent",
+        "127.0.0.1",
+        "oauth"
+      );
+      expect(mockRes.json).toHaveBeenCalledTimes(1);
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Invalid or expired login code" })
+      );
+    });
+
+    it("should hand over a link token when the login awaits link confirmation", async () => {
+      delete mockReq.user;
+      mockReq.oauthLinkToken = "link-token";
+      await googleCallback(mockReq as Request, mockRes as Response, mockNext);
+      mockReq.query = { code: "mock-random-code" };
+
+      await exchangeCode(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockGenerateTokenPair).not.toHaveBeenCalled();
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          msg: "Account link confirmation required",
+          data: { linkRequired: true, linkToken: "link-token" },
+        })
+      );
+    });
+
+    describe("with PKCE", () => {
+      beforeEach(async () => {
+        mockReq.oauthState = {
+          ...mockReq.oauthState!,
+          codeChallenge: "pkce-challenge",
+        };
+        await googleCallback(mockReq as Request, mockRes as Response, mockNext);
+      });
+
+      it("should exchange the code for the matching verifier", async () => {
+        mockVerifyPkceChallenge.mockReturnValue(true);
+        mockReq.query = {
+          code: "mock-random-code",
+          code_verifier: "pkce-verifier",
+        };
+
+        await exchangeCode(mockReq as Request, mockRes as Response, mockNext);
+
+        expect(mockVerifyPkceChallenge).toHaveBeenCalledWith(
+          "pkce-verifier",
+          "pkce-challenge"
+        );
+        expect(mockRes.json).toHaveBeenCalledWith(
+          expect.objectContaining({
+            data: expect.objectContaining({
+              tokens: expect.objectContaining({
+                accessToken: "mock-access-token",
+              }),
+            }),
+          })
+        );
+      });
+
+      it("should reject a missing verifier and burn the code", async () => {
+        mockReq.query = { code: "mock-random-code" };
+
+        await exchangeCode(mockReq as Request, mockRes as Response, mockNext);
+        expect(mockNext).toHaveBeenLastCalledWith(
+          expect.objectContaining({ message: "Invalid code verifier" })
+        );
+
+        await exchangeCode(mockReq as Request, mockRes as Response, mockNext);
+        expect(mockNext).toHaveBeenLastCalledWith(
+          expect.objectContaining({ message: "Invalid or expired login code" })
+        );
+      });
+
+      it("should reject a verifier that does not match", async () => {
+        mockVerifyPkceChallenge.mockReturnValue(false);
+        mockReq.query = {
+          code: "mock-random-code",
+          code_verifier: "wrong-verifier",
+        };
+
+        await exchangeCode(mockReq as Request, mockRes as Response, mockNext);
+
+        expect(mockNext).toHaveBeenCalledWith(
+          expect.objectContaining({ message: "Invalid code verifier" })
+        );
+        expect(mockRes.json).not.toHaveBeenCalled();
+        expect(mockGenerateTokenPair).not.toHaveBeenCalled();
+      });
     });
   });
 });
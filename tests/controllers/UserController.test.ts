@@ -2,11 +2,16 @@ import * as UserController from "../../src/controllers/UserController";
 import * as UserService from "../../src/services/UserService";
 import * as SessionService from "../../src/services/SessionService";
 import * as EmailValidation from "../../src/services/EmailValidation";
+import * as ThrottleService from "../../src/services/ThrottleService";
+import * as AuditService from "../../src/services/AuditService";
 
 // Mock dependencies
 jest.mock("../../src/services/UserService");
 jest.mock("../../src/services/SessionService");
 jest.mock("../../src/services/EmailValidation");
+jest.mock("../../src/services/ThrottleService");
+jest.mock("../../src/services/AuditService");
+jest.mock("../../src/services/SignInAlertService");
 
 const mockedUserService = UserService as jest.Mocked<typeof UserService>;
 const mockedSessionService = SessionService as jest.Mocked<
@@ -15,6 +20,10 @@ const mockedSessionService = SessionService as jest.Mocked<
 const mockedEmailValidation = EmailValidation as jest.Mocked<
   typeof EmailValidation
 >;
+const mockedThrottleService = ThrottleService as jest.Mocked<
+  typeof ThrottleService
+>;
+const mockedAuditService = AuditService as jest.Mocked<typeof AuditService>;
 
 // Helper function to create clean mock user objects (Prisma format)
 const createMockUser = (overrides: Partial<any> = {}): any => {
@@ -68,6 +77,7 @@ const getSerializedUser = (user: any) => {
       phone: user.phone,
       phone_verified: user.phoneInfo?.isVerified ?? false,
     }),
+    mfa_enabled: user.mfaInfo?.isEnabled ?? false,
     isActive: user.isActive,
     lastLoginAt: user.lastLoginAt,
     createdAt: user.createdAt,
@@ -350,7 +360,8 @@ describe("UserController", () => {
       expect(mockedSessionService.generateTokenPair).toHaveBeenCalledWith(
         mockUser,
         "test-agent",
-        "127.0.0.1"
+        "127.0.0.1",
+        "otp"
       );
       expect(mockResponse.json).toHaveBeenCalledWith({
         status: "success",
@@ -431,12 +442,22 @@ describe("UserController", () => {
       expect(mockedUserService.authenticateUser).toHaveBeenCalledWith(
         "john@example.com",
         "password123",
-        "examaxis"
+        "examaxis",
+        undefined
       );
       expect(mockedSessionService.generateTokenPair).toHaveBeenCalledWith(
         mockUser,
         "test-agent",
-        "127.0.0.1"
+        "127.0.0.1",
+        "pwd"
+      );
+      expect(mockedThrottleService.resetThrottle).toHaveBeenCalledWith(
+        "signin",
+        {
+          service: "examaxis",
+          ipAddress: "127.0.0.1",
+          email: "john@example.com",
+        }
       );
       expect(mockResponse.json).toHaveBeenCalledWith({
         status: "success",
@@ -449,6 +470,31 @@ describe("UserController", () => {
       });
     });
 
+    it("should return an MFA challenge instead of tokens when MFA is enabled", async () => {
+      mockRequest.body = {
+        email: "john@example.com",
+        password: "password123",
+      };
+
+      mockedUserService.authenticateUser.mockResolvedValue({
+        user: createMockUser(),
+        isValid: true,
+        mfaToken: "mfa-token",
+      });
+
+      await UserController.login(mockRequest, mockResponse, mockNext);
+
+      expect(mockedSessionService.generateTokenPair).not.toHaveBeenCalled();
+      // Sign-in failures are only forgiven once the second factor is proven
+      expect(mockedThrottleService.resetThrottle).not.toHaveBeenCalled();
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: "success",
+        code: 200,
+        msg: "Multi-factor authentication required",
+        data: { mfaRequired: true, mfaToken: "mfa-token" },
+      });
+    });
+
     it("should return error for invalid credentials", async () => {
       mockRequest.body = {
         email: "john@example.com",
@@ -467,6 +513,41 @@ describe("UserController", () => {
           message: "Invalid email or password!",
         })
       );
+      expect(mockedThrottleService.resetThrottle).not.toHaveBeenCalled();
+      expect(mockedAuditService.recordAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "signin",
+          outcome: "failure",
+          service: "examaxis",
+          userId: "507f1f77bcf86cd799439011",
+          ipAddress: "127.0.0.1",
+        })
+      );
+    });
+
+    it("should record a lockout caused by the failed attempt", async () => {
+      mockRequest.body = {
+        email: "john@example.com",
+        password: "wrongpassword",
+      };
+
+      mockedUserService.authenticateUser.mockResolvedValue({
+        user: createMockUser(),
+        isValid: false,
+        accountLocked: true,
+      });
+
+      await UserController.login(mockRequest, mockResponse, mockNext);
+
+      expect(mockedAuditService.recordAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "account_locked",
+          userId: "507f1f77bcf86cd799439011",
+        })
+      );
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 401 })
+      );
     });
   });
 
@@ -485,7 +566,8 @@ describe("UserController", () => {
       await UserController.refreshToken(mockRequest, mockResponse, mockNext);
 
       expect(mockedSessionService.refreshAccessToken).toHaveBeenCalledWith(
-        "old-refresh-token"
+        "old-refresh-token",
+        { ipAddress: "127.0.0.1", userAgent: undefined }
       );
       expect(mockResponse.json).toHaveBeenCalledWith({
         status: "success",
@@ -514,6 +596,16 @@ describe("UserController", () => {
   });
 
   describe("updateProfile", () => {
+    beforeEach(() => {
+      mockRequest.sessionId = "session123";
+      mockRequest.jwt = {
+        userId: "507f1f77bcf86cd799439011",
+        email: "john@example.com",
+        service: "examaxis",
+        auth_time: 1700000000,
+      };
+    });
+
     it("should update fullname successfully", async () => {
       const mockUser = createMockUser();
       const updatedUser = { ...mockUser, fullname: "Jane Doe" };
@@ -536,7 +628,9 @@ describe("UserController", () => {
           phone: undefined,
           password: undefined,
           redirectUrl: undefined,
-        }
+        },
+        "session123",
+        1700000000
       );
       expect(mockResponse.json).toHaveBeenCalledWith({
         status: "success",
@@ -577,7 +671,9 @@ describe("UserController", () => {
           phone: undefined,
           password: undefined,
           redirectUrl: "https://example.com/verify",
-        }
+        },
+        "session123",
+        1700000000
       );
       expect(mockResponse.json).toHaveBeenCalledWith({
         status: "success",
@@ -611,7 +707,9 @@ describe("UserController", () => {
           phone: "+1234567890",
           password: undefined,
           redirectUrl: undefined,
-        }
+        },
+        "session123",
+        1700000000
       );
       expect(mockResponse.json).toHaveBeenCalledWith({
         status: "success",
@@ -645,7 +743,9 @@ describe("UserController", () => {
           phone: undefined,
           password: "newpassword123",
           redirectUrl: undefined,
-        }
+        },
+        "session123",
+        1700000000
       );
       expect(mockResponse.json).toHaveBeenCalledWith({
         status: "success",
@@ -682,7 +782,9 @@ describe("UserController", () => {
           phone: "+9876543210",
           password: undefined,
           redirectUrl: undefined,
-        }
+        },
+        "session123",
+        1700000000
       );
       expect(mockResponse.json).toHaveBeenCalledWith({
         status: "success",
@@ -741,7 +843,9 @@ describe("UserController", () => {
         password: "newpassword123",
       };
 
-      mockedUserService.resetPasswordWithToken.mockResolvedValue();
+      mockedUserService.resetPasswordWithToken.mockResolvedValue(
+        "507f1f77bcf86cd799439011"
+      );
 
       await UserController.resetPassword(mockRequest, mockResponse, mockNext);
 
@@ -758,6 +862,86 @@ describe("UserController", () => {
     });
   });
 
+  describe("requestMagicLink", () => {
+    it("should send a magic link without revealing account existence", async () => {
+      mockRequest.body = {
+        email: "john@example.com",
+        redirectUrl: "https://example.com/magic",
+      };
+
+      mockedUserService.sendMagicLinkEmail.mockResolvedValue();
+
+      await UserController.requestMagicLink(
+        mockRequest,
+        mockResponse,
+        mockNext
+      );
+
+      expect(mockedUserService.sendMagicLinkEmail).toHaveBeenCalledWith(
+        "john@example.com",
+        "https://example.com/magic",
+        "examaxis"
+      );
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: "success",
+        code: 200,
+        msg: "If a verified account with that email exists, a sign-in link has been sent",
+        data: undefined,
+      });
+    });
+  });
+
+  describe("magicLinkLogin", () => {
+    it("should return tokens and the user for a valid link", async () => {
+      const mockUser = createMockUser({
+        emailInfo: { ...createMockUser().emailInfo, isVerified: true },
+      });
+      const mockTokens = {
+        accessToken: "access-token",
+        refreshToken: "refresh-token",
+        expiresIn: "15m",
+      };
+      mockRequest.body = { token: "magic-token" };
+
+      mockedUserService.authenticateWithMagicLink.mockResolvedValue({
+        user: mockUser,
+      });
+      mockedSessionService.generateTokenPair.mockResolvedValue(mockTokens);
+
+      await UserController.magicLinkLogin(mockRequest, mockResponse, mockNext);
+
+      expect(mockedUserService.authenticateWithMagicLink).toHaveBeenCalledWith(
+        "magic-token",
+        "examaxis"
+      );
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: "success",
+        code: 200,
+        msg: "Login successful",
+        data: { user: getSerializedUser(mockUser), tokens: mockTokens },
+      });
+    });
+
+    it("should return an MFA challenge when the second factor is required", async () => {
+      mockRequest.body = { token: "magic-token" };
+
+      mockedUserService.authenticateWithMagicLink.mockResolvedValue({
+        user: createMockUser(),
+        mfaToken: "mfa-token",
+      });
+
+      await UserController.magicLinkLogin(mockRequest, mockResponse, mockNext);
+
+      expect(mockedSessionService.generateTokenPair).not.toHaveBeenCalled();
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: "success",
+        code: 200,
+        msg: "Multi-factor authentication required",
+        data: { mfaRequired: true, mfaToken: "mfa-token" },
+      });
+    });
+  });
+
   describe("logout", () => {
     it("should logout user with refresh token", async () => {
       const mockUser = createMockUser();
@@ -1,13 +1,20 @@
 import jwt from "jsonwebtoken";
-import { generateAccessToken, verifyAccessToken } from "../../src/helpers/jwt";
+import {
+  generateAccessToken,
+  isRecentAuthTime,
+  verifyAccessToken,
+} from "../../src/helpers/jwt";
 import { config } from "../../src/config/app";
+import * as SigningKeys from "../../src/helpers/signingKeys";
 
 // Mock the config module
 jest.mock("../../src/config/app");
 jest.mock("jsonwebtoken");
+jest.mock("../../src/helpers/signingKeys");
 
 const mockedConfig = config as jest.Mocked<typeof config>;
 const mockedJwt = jwt as jest.Mocked<typeof jwt>;
+const mockedSigningKeys = SigningKeys as jest.Mocked<typeof SigningKeys>;
 
 describe("JWT Helpers", () => {
   const mockUser = {
@@ -48,8 +55,13 @@ describe("JWT Helpers", () => {
       refreshSecret: "test-refresh-secret",
       expiresIn: "15m",
       refreshExpiresIn: "7d", // 7 days
+      algorithm: "HS256",
+      keysDir: "keys",
+      activeKeyId: "",
     };
 
+    mockedSigningKeys.usesAsymmetricSigning.mockReturnValue(false);
+
     mockedConfig.app = {
       name: "CredLock",
       url: "http://localhost:3000",
@@ -121,6 +133,41 @@ describe("JWT Helpers", () => {
     });
   });
 
+  describe("auth_time and acr claims", () => {
+    it("should add the claims from the auth context", () => {
+      mockedJwt.sign.mockReturnValue("mock.jwt.token" as any);
+
+      generateAccessToken(mockUser, "15m", {
+        authTime: new Date("2024-01-01T00:00:00.000Z"),
+        acr: "otp",
+      });
+
+      expect(mockedJwt.sign).toHaveBeenCalledWith(
+        expect.objectContaining({ auth_time: 1704067200, acr: "otp" }),
+        mockedConfig.jwt.secret,
+        expect.any(Object)
+      );
+    });
+
+    it("should omit the claims without an auth context", () => {
+      mockedJwt.sign.mockReturnValue("mock.jwt.token" as any);
+
+      generateAccessToken(mockUser);
+
+      const [payload] = mockedJwt.sign.mock.calls[0]!;
+      expect(payload).not.toHaveProperty("auth_time");
+      expect(payload).not.toHaveProperty("acr");
+    });
+
+    it("should tell whether an auth_time is recent", () => {
+      const now = Math.floor(Date.now() / 1000);
+
+      expect(isRecentAuthTime(now - 60, 300)).toBe(true);
+      expect(isRecentAuthTime(now - 600, 300)).toBe(false);
+      expect(isRecentAuthTime(undefined, 300)).toBe(false);
+    });
+  });
+
   describe("verifyAccessToken", () => {
     it("should verify valid token successfully", () => {
       const mockToken = "valid.jwt.token";
@@ -235,6 +282,73 @@ describe("JWT Helpers", () => {
     });
   });
 
+  describe("Asymmetric signing", () => {
+    const signingKey = {
+      kid: "2025-01",
+      algorithm: "ES256" as const,
+      publicKey: { type: "public" } as any,
+      privateKey: { type: "private" } as any,
+    };
+
+    beforeEach(() => {
+      mockedConfig.jwt.algorithm = "ES256";
+      mockedSigningKeys.usesAsymmetricSigning.mockReturnValue(true);
+    });
+
+    it("should sign with the active key and set the kid header", () => {
+      mockedSigningKeys.getActiveSigningKey.mockReturnValue(signingKey);
+      mockedJwt.sign.mockReturnValue("signed.jwt.token" as any);
+
+      const result = generateAccessToken(mockUser);
+
+      expect(result).toBe("signed.jwt.token");
+      expect(mockedJwt.sign).toHaveBeenCalledWith(
+        expect.any(Object),
+        signingKey.privateKey,
+        {
+          expiresIn: mockedConfig.jwt.expiresIn,
+          issuer: mockedConfig.app.name,
+          audience: mockedConfig.app.name,
+          algorithm: "ES256",
+          keyid: "2025-01",
+        }
+      );
+    });
+
+    it("should verify with the key selected by kid", () => {
+      const expectedPayload = { userId: mockUser.id };
+      mockedJwt.decode.mockReturnValue({ header: { kid: "2025-01" } } as any);
+      mockedSigningKeys.getVerificationKey.mockReturnValue(signingKey);
+      mockedJwt.verify.mockReturnValue(expectedPayload as any);
+
+      const result = verifyAccessToken("signed.jwt.token");
+
+      expect(result).toEqual(expectedPayload);
+      expect(mockedSigningKeys.getVerificationKey).toHaveBeenCalledWith(
+        "2025-01"
+      );
+      expect(mockedJwt.verify).toHaveBeenCalledWith(
+        "signed.jwt.token",
+        signingKey.publicKey,
+        {
+          issuer: mockedConfig.app.name,
+          audience: mockedConfig.app.name,
+          algorithms: ["ES256"],
+        }
+      );
+    });
+
+    it("should reject tokens signed with an unknown key", () => {
+      mockedJwt.decode.mockReturnValue({ header: { kid: "retired" } } as any);
+      mockedSigningKeys.getVerificationKey.mockReturnValue(undefined);
+
+      expect(() => verifyAccessToken("signed.jwt.token")).toThrow(
+        "Invalid access token"
+      );
+      expect(mockedJwt.verify).not.toHaveBeenCalled();
+    });
+  });
+
   describe("Edge Cases", () => {
     it("should handle user with minimal required fields", () => {
       const minimalUser = {
@@ -0,0 +1,79 @@
+import { TOTP } from "otpauth";
+import {
+  decryptMfaSecret,
+  encryptMfaSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotpCode,
+} from "../../src/helpers/mfa";
+
+// Generate the current code for a secret the way an authenticator app would
+const currentCode = (secret: string): string => new TOTP({ secret }).generate();
+
+describe("MFA Helpers", () => {
+  describe("generateTotpSecret", () => {
+    it("should generate a base32 secret and otpauth URI", () => {
+      const { secret, otpauthUri } = generateTotpSecret("john@example.com");
+
+      expect(secret).toMatch(/^[A-Z2-7]+$/);
+      expect(otpauthUri).toMatch(/^otpauth:\/\/totp\//);
+      expect(otpauthUri).toContain(`secret=${secret}`);
+      expect(otpauthUri).toContain("john%40example.com");
+    });
+  });
+
+  describe("verifyTotpCode", () => {
+    it("should return the time step for a valid code", () => {
+      const { secret } = generateTotpSecret("john@example.com");
+      const step = verifyTotpCode(secret, currentCode(secret));
+
+      expect(step).toBe(Math.floor(Date.now() / 1000 / 30));
+    });
+
+    it("should return null for an invalid code", () => {
+      const { secret } = generateTotpSecret("john@example.com");
+      const code = currentCode(secret) === "000000" ? "111111" : "000000";
+
+      expect(verifyTotpCode(secret, code)).toBeNull();
+    });
+
+    it("should reject a code that was already used", () => {
+      const { secret } = generateTotpSecret("john@example.com");
+      const code = currentCode(secret);
+      const step = verifyTotpCode(secret, code);
+
+      expect(verifyTotpCode(secret, code, step)).toBeNull();
+    });
+  });
+
+  describe("encryptMfaSecret / decryptMfaSecret", () => {
+    it("should round-trip the secret", () => {
+      const encrypted = encryptMfaSecret("JBSWY3DPEHPK3PXP");
+
+      expect(encrypted).not.toBe("JBSWY3DPEHPK3PXP");
+      expect(decryptMfaSecret(encrypted)).toBe("JBSWY3DPEHPK3PXP");
+    });
+  });
+
+  describe("generateRecoveryCodes", () => {
+    it("should generate unique formatted codes with matching hashes", () => {
+      const { codes, hashed } = generateRecoveryCodes();
+
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      codes.forEach((code, index) => {
+        expect(code).toMatch(/^[a-f0-9]{5}-[a-f0-9]{5}$/);
+        expect(hashed[index]).toBe(hashRecoveryCode(code));
+      });
+    });
+  });
+
+  describe("hashRecoveryCode", () => {
+    it("should ignore case, spaces and dashes", () => {
+      expect(hashRecoveryCode(" ABCDE-12345 ")).toBe(
+        hashRecoveryCode("abcde12345")
+      );
+    });
+  });
+});
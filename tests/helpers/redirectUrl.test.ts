@@ -0,0 +1,93 @@
+import {
+  assertRedirectUrlsAllowed,
+  isRedirectUrlAllowed,
+} from "../../src/helpers/redirectUrl";
+
+describe("redirectUrl helpers", () => {
+  describe("isRedirectUrlAllowed", () => {
+    it("should allow any path when the pattern has none", () => {
+      const patterns = ["https://app.example.com"];
+
+      expect(
+        isRedirectUrlAllowed("https://app.example.com/verify?x=1", patterns)
+      ).toBe(true);
+      expect(isRedirectUrlAllowed("http://app.example.com/", patterns)).toBe(
+        false
+      );
+    });
+
+    it("should match exact and wildcard paths", () => {
+      const patterns = [
+        "https://app.example.com/auth/*",
+        "https://app.example.com/welcome",
+      ];
+
+      expect(
+        isRedirectUrlAllowed("https://app.example.com/auth/reset", patterns)
+      ).toBe(true);
+      expect(
+        isRedirectUrlAllowed("https://app.example.com/welcome", patterns)
+      ).toBe(true);
+      expect(
+        isRedirectUrlAllowed("https://app.example.com/welcome/x", patterns)
+      ).toBe(false);
+      expect(
+        isRedirectUrlAllowed("https://app.example.com/auth/../admin", patterns)
+      ).toBe(false);
+    });
+
+    it("should match subdomain wildcards but not the bare domain", () => {
+      const patterns = ["https://*.example.com"];
+
+      expect(isRedirectUrlAllowed("https://a.b.example.com/", patterns)).toBe(
+        true
+      );
+      expect(isRedirectUrlAllowed("https://example.com/", patterns)).toBe(
+        false
+      );
+      expect(isRedirectUrlAllowed("https://evilexample.com/", patterns)).toBe(
+        false
+      );
+    });
+
+    it("should require the same port", () => {
+      const patterns = ["http://localhost:3000"];
+
+      expect(isRedirectUrlAllowed("http://localhost:3000/cb", patterns)).toBe(
+        true
+      );
+      expect(isRedirectUrlAllowed("http://localhost:4000/cb", patterns)).toBe(
+        false
+      );
+    });
+
+    it("should reject credentials, malformed URLs and empty allowlists", () => {
+      const patterns = ["https://app.example.com"];
+
+      expect(
+        isRedirectUrlAllowed("https://user@app.example.com/", patterns)
+      ).toBe(false);
+      expect(isRedirectUrlAllowed("not a url", patterns)).toBe(false);
+      expect(isRedirectUrlAllowed("https://app.example.com/", [])).toBe(false);
+    });
+  });
+
+  describe("assertRedirectUrlsAllowed", () => {
+    it("should skip missing URLs and reject disallowed ones", () => {
+      const patterns = ["https://app.example.com"];
+
+      expect(() =>
+        assertRedirectUrlsAllowed(
+          ["https://app.example.com/cb", undefined],
+          patterns
+        )
+      ).not.toThrow();
+      expect(() =>
+        assertRedirectUrlsAllowed(
+          ["https://app.example.com/cb", "https://evil.com"],
+          patterns
+        )
+      ).toThrow("Redirect URL is not allowed for this service");
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  getPasswordPolicyViolation,
+  resolveServicePolicy,
+} from "../../src/helpers/servicePolicy";
+import { config } from "../../src/config/app";
+import { DEFAULT_PASSWORD_POLICY } from "../../src/constants/common";
+
+const createMockService = (policy: any = null): any => ({
+  id: "507f1f77bcf86cd799439011",
+  slug: "examaxis",
+  name: "ExamAxis",
+  status: "active",
+  redirectUrlPatterns: ["https://examaxis.com/*"],
+  policy,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe("servicePolicy helpers", () => {
+  describe("resolveServicePolicy", () => {
+    it("should fall back to the global configuration", () => {
+      expect(resolveServicePolicy(createMockService())).toEqual({
+        accessTokenExpiresIn: config.jwt.expiresIn,
+        refreshTokenExpiresIn: config.jwt.refreshExpiresIn,
+        maxLoginAttempts: config.security.maxLoginAttempts,
+        loginLockTime: config.security.loginLockTime,
+        requireEmailVerification: true,
+        password: DEFAULT_PASSWORD_POLICY,
+        redirectUrlPatterns: ["https://examaxis.com/*"],
+      });
+    });
+
+    it("should apply only the overrides a service sets", () => {
+      const policy = resolveServicePolicy(
+        createMockService({
+          accessTokenExpiresIn: "5m",
+          refreshTokenExpiresIn: null,
+          maxLoginAttempts: 3,
+          loginLockTime: null,
+          requireEmailVerification: false,
+          password: { minLength: 12, requireSymbol: false, maxLength: null },
+        })
+      );
+
+      expect(policy).toEqual({
+        accessTokenExpiresIn: "5m",
+        refreshTokenExpiresIn: config.jwt.refreshExpiresIn,
+        maxLoginAttempts: 3,
+        loginLockTime: config.security.loginLockTime,
+        requireEmailVerification: false,
+        password: {
+          ...DEFAULT_PASSWORD_POLICY,
+          minLength: 12,
+          requireSymbol: false,
+        },
+        redirectUrlPatterns: ["https://examaxis.com/*"],
+      });
+    });
+
+    it("should use the defaults and allow no redirects for an unknown service", () => {
+      expect(resolveServicePolicy(null)).toEqual({
+        ...resolveServicePolicy(createMockService()),
+        redirectUrlPatterns: [],
+      });
+    });
+  });
+
+  describe("getPasswordPolicyViolation", () => {
+    it("should accept a password meeting every requirement", () => {
+      expect(
+        getPasswordPolicyViolation("StrongPass123!", DEFAULT_PASSWORD_POLICY)
+      ).toBeNull();
+    });
+
+    it("should enforce the length limits", () => {
+      const policy = {
+        ...DEFAULT_PASSWORD_POLICY,
+        minLength: 12,
+        maxLength: 16,
+      };
+
+      expect(getPasswordPolicyViolation("Short1!a", policy)).toBe(
+        "Password must be at least 12 characters long"
+      );
+      expect(getPasswordPolicyViolation("VeryLongPassword123!", policy)).toBe(
+        "Password cannot exceed 16 characters"
+      );
+    });
+
+    it("should list only the character classes the policy requires", () => {
+      const policy = {
+        ...DEFAULT_PASSWORD_POLICY,
+        requireUppercase: false,
+        requireSymbol: false,
+      };
+
+      expect(getPasswordPolicyViolation("lowercaseonly", policy)).toBe(
+        "Password must contain at least one lowercase letter and one number"
+      );
+      expect(getPasswordPolicyViolation("lowercase123", policy)).toBeNull();
+    });
+
+    it("should reject characters outside the allowed set", () => {
+      expect(
+        getPasswordPolicyViolation("StrongPass123!~", DEFAULT_PASSWORD_POLICY)
+      ).toContain("Password can only contain");
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { generateKeyPairSync } from "crypto";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { config } from "../../src/config/app";
+import {
+  getActiveSigningKey,
+  getJwks,
+  getVerificationKey,
+  loadSigningKeys,
+  resetSigningKeys,
+} from "../../src/helpers/signingKeys";
+
+const writeEcKey = (dir: string, kid: string, publicOnly = false) => {
+  const { privateKey, publicKey } = generateKeyPairSync("ec", {
+    namedCurve: "P-256",
+  });
+
+  writeFileSync(
+    join(dir, publicOnly ? `${kid}.pub.pem` : `${kid}.pem`),
+    publicOnly
+      ? publicKey.export({ type: "spki", format: "pem" })
+      : privateKey.export({ type: "pkcs8", format: "pem" })
+  );
+};
+
+describe("Signing Keys", () => {
+  const originalJwtConfig = { ...config.jwt };
+  let keysDir: string;
+
+  beforeEach(() => {
+    keysDir = mkdtempSync(join(tmpdir(), "credlock-keys-"));
+    Object.assign(config.jwt, {
+      algorithm: "ES256",
+      keysDir,
+      activeKeyId: "2025-02",
+    });
+    resetSigningKeys();
+  });
+
+  afterEach(() => {
+    rmSync(keysDir, { recursive: true, force: true });
+    Object.assign(config.jwt, originalJwtConfig);
+    resetSigningKeys();
+  });
+
+  it("should load private and verification-only keys by kid", () => {
+    writeEcKey(keysDir, "2025-01", true);
+    writeEcKey(keysDir, "2025-02");
+
+    expect(getActiveSigningKey().kid).toBe("2025-02");
+    expect(getActiveSigningKey().privateKey).toBeDefined();
+    expect(getVerificationKey("2025-01")?.privateKey).toBeUndefined();
+    expect(getVerificationKey("unknown")).toBeUndefined();
+  });
+
+  it("should publish every public key in JWKS format", () => {
+    writeEcKey(keysDir, "2025-01", true);
+    writeEcKey(keysDir, "2025-02");
+
+    const { keys } = getJwks();
+
+    expect(keys.map((key) => key.kid)).toEqual(["2025-01", "2025-02"]);
+    expect(keys[0]).toMatchObject({
+      kty: "EC",
+      crv: "P-256",
+      alg: "ES256",
+      use: "sig",
+    });
+    expect(keys[0]).not.toHaveProperty("d");
+  });
+
+  it("should fail when the active key has no private key", () => {
+    writeEcKey(keysDir, "2025-02", true);
+
+    expect(() => loadSigningKeys()).toThrow(
+      'Active signing key "2025-02" was not found'
+    );
+  });
+
+  it("should reject keys that do not match the algorithm", () => {
+    const { privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+    writeFileSync(
+      join(keysDir, "2025-02.pem"),
+      privateKey.export({ type: "pkcs8", format: "pem" })
+    );
+
+    expect(() => loadSigningKeys()).toThrow(
+      'Signing key "2025-02" is not a valid ES256 key'
+    );
+  });
+
+  it("should not load keys when signing with HS256", () => {
+    config.jwt.algorithm = "HS256";
+
+    expect(loadSigningKeys().size).toBe(0);
+    expect(getJwks()).toEqual({ keys: [] });
+  });
+});
@@ -55,6 +55,7 @@ describe("User Helpers", () => {
       loginLockTime: 3600000,
       maxRegistrationAttempts: 3,
       registrationLockTime: 3600000,
+      encryptionKey: "test-encryption-key",
     };
   });
 
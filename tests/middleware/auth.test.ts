@@ -1,5 +1,5 @@
 import type { Request, Response, NextFunction } from "express";
-import { authenticate } from "../../src/middleware/auth";
+import { authenticate, requireRecentAuth } from "../../src/middleware/auth";
 import * as JwtHelper from "../../src/helpers/jwt";
 import type { IJWTPayload } from "../../src/types/auth";
 import { prisma } from "../../src/config/prisma";
@@ -12,6 +12,7 @@ jest.mock("../../src/config/prisma", () => ({
     },
     session: {
       findFirst: jest.fn(),
+      update: jest.fn(),
     },
   },
 }));
@@ -110,6 +111,7 @@ describe("Authentication Middleware", () => {
       });
       expect(mockRequest.user).toBe(mockUser);
       expect(mockRequest.jwt).toBe(mockPayload);
+      expect(mockRequest.sessionId).toBe("session123");
       expect(mockNext).toHaveBeenCalled();
       expect(mockResponse.status).not.toHaveBeenCalled();
     });
@@ -232,6 +234,7 @@ describe("Authentication Middleware", () => {
 
       (mockedPrisma.session.findFirst as jest.Mock).mockResolvedValueOnce({
         id: "session123",
+        userId: "user123",
         isActive: true,
       } as any);
       mockedJwtHelper.verifyAccessToken.mockReturnValue(mockPayload);
@@ -292,6 +295,7 @@ describe("Authentication Middleware", () => {
       const refreshToken = "valid-refresh-token";
       (mockedPrisma.session.findFirst as jest.Mock).mockResolvedValueOnce({
         id: "session123",
+        userId: "user123",
         isActive: true,
       } as any);
 
@@ -335,6 +339,7 @@ describe("Authentication Middleware", () => {
 
       (mockedPrisma.session.findFirst as jest.Mock).mockResolvedValueOnce({
         id: "session123",
+        userId: "user123",
         isActive: true,
       } as any);
       mockedJwtHelper.verifyAccessToken.mockReturnValue(mockPayload);
@@ -396,6 +401,7 @@ describe("Authentication Middleware", () => {
       const refreshToken = "valid-refresh-token";
       (mockedPrisma.session.findFirst as jest.Mock).mockResolvedValueOnce({
         id: "session123",
+        userId: "user123",
         isActive: true,
       } as any);
 
@@ -421,5 +427,145 @@ describe("Authentication Middleware", () => {
       );
       expect(mockNext).toHaveBeenCalled();
     });
+
+    it("should reject a refresh token from another user's session", async () => {
+      mockRequest.headers = {
+        authorization: "Bearer valid-token",
+        "x-refresh-token": "other-refresh-token",
+      };
+
+      (mockedPrisma.session.findFirst as jest.Mock).mockResolvedValueOnce({
+        id: "session456",
+        userId: "another-user",
+      } as any);
+      mockedJwtHelper.verifyAccessToken.mockReturnValue({
+        userId: "user123",
+        email: "test@example.com",
+        service: "examaxis",
+      });
+
+      await authenticate(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: "Invalid or expired refresh token",
+          code: 401,
+        })
+      );
+      expect(mockedPrisma.user.findFirst).not.toHaveBeenCalled();
+    });
+
+    it("should record activity on a session that has been idle", async () => {
+      mockRequest.headers = {
+        authorization: "Bearer valid-token",
+        "x-refresh-token": "valid-refresh-token",
+      };
+
+      (mockedPrisma.session.findFirst as jest.Mock).mockResolvedValueOnce({
+        id: "session123",
+        userId: "user123",
+        lastUsedAt: new Date(Date.now() - 5 * 60 * 1000),
+      } as any);
+      mockedJwtHelper.verifyAccessToken.mockReturnValue({
+        userId: "user123",
+        email: "test@example.com",
+        service: "examaxis",
+      });
+      (mockedPrisma.user.findFirst as jest.Mock).mockResolvedValue({
+        id: "user123",
+        lockoutInfo: { isLocked: false, lockedUntil: null },
+      } as any);
+
+      await authenticate(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockedPrisma.session.update).toHaveBeenCalledWith({
+        where: { id: "session123" },
+        data: { lastUsedAt: expect.any(Date) },
+      });
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it("should not rewrite activity for a recently used session", async () => {
+      mockRequest.headers = {
+        authorization: "Bearer valid-token",
+        "x-refresh-token": "valid-refresh-token",
+      };
+
+      (mockedPrisma.session.findFirst as jest.Mock).mockResolvedValueOnce({
+        id: "session123",
+        userId: "user123",
+        lastUsedAt: new Date(),
+      } as any);
+      mockedJwtHelper.verifyAccessToken.mockReturnValue({
+        userId: "user123",
+        email: "test@example.com",
+        service: "examaxis",
+      });
+      (mockedPrisma.user.findFirst as jest.Mock).mockResolvedValue({
+        id: "user123",
+        lockoutInfo: { isLocked: false, lockedUntil: null },
+      } as any);
+
+      await authenticate(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockedPrisma.session.update).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+  });
+
+  describe("requireRecentAuth", () => {
+    beforeEach(() => {
+      mockRequest.jwt = {
+        userId: "user123",
+        email: "test@example.com",
+        service: "examaxis",
+        auth_time: 1700000000,
+      };
+    });
+
+    it("should continue when the user authenticated recently", () => {
+      mockedJwtHelper.isRecentAuthTime.mockReturnValue(true);
+
+      requireRecentAuth(300)(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockedJwtHelper.isRecentAuthTime).toHaveBeenCalledWith(
+        1700000000,
+        300
+      );
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it("should ask for re-authentication otherwise", () => {
+      mockedJwtHelper.isRecentAuthTime.mockReturnValue(false);
+
+      requireRecentAuth(300)(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 403,
+          reason: "reauthentication_required",
+        })
+      );
+    });
   });
 });
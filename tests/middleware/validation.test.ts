@@ -1,11 +1,14 @@
 import {
   registerSchema,
   loginSchema,
+  mfaLoginSchema,
   updateProfileSchema,
   verifyEmailSchema,
   forgotPasswordSchema,
   resetPasswordSchema,
   refreshTokenSchema,
+  oauthParamsSchema,
+  exchangeCodeSchema,
   tokenHeaderSchema,
   validate,
 } from "../../src/middleware/validation";
@@ -266,6 +269,50 @@ describe("Validation Schemas", () => {
     });
   });
 
+  describe("MFA Login Schema", () => {
+    it("should accept a TOTP code", () => {
+      const { error } = mfaLoginSchema.validate({
+        mfaToken: "mfa-token",
+        code: "123456",
+      });
+      expect(error).toBeUndefined();
+    });
+
+    it("should accept a recovery code", () => {
+      const { error } = mfaLoginSchema.validate({
+        mfaToken: "mfa-token",
+        recoveryCode: "a1b2c-3d4e5",
+      });
+      expect(error).toBeUndefined();
+    });
+
+    it("should reject when neither code is provided", () => {
+      const { error } = mfaLoginSchema.validate({ mfaToken: "mfa-token" });
+      expect(error?.details[0]?.message).toBe(
+        "Either a verification code or a recovery code is required"
+      );
+    });
+
+    it("should reject when both codes are provided", () => {
+      const { error } = mfaLoginSchema.validate({
+        mfaToken: "mfa-token",
+        code: "123456",
+        recoveryCode: "a1b2c-3d4e5",
+      });
+      expect(error).toBeDefined();
+    });
+
+    it("should reject a malformed TOTP code", () => {
+      const { error } = mfaLoginSchema.validate({
+        mfaToken: "mfa-token",
+        code: "12ab56",
+      });
+      expect(error?.details[0]?.message).toBe(
+        "Verification code must be a 6-digit number"
+      );
+    });
+  });
+
   describe("Verify Email Schema", () => {
     it("should validate correct token", () => {
       const validData = { token: "sometoken123" };
@@ -511,6 +558,115 @@ describe("Validation Schemas", () => {
     });
   });
 
+  describe("Service Password Policy", () => {
+    const relaxedPolicy = {
+      minLength: 10,
+      maxLength: 64,
+      requireLowercase: true,
+      requireUppercase: false,
+      requireNumber: false,
+      requireSymbol: false,
+    };
+
+    it("should validate passwords against the policy in context", () => {
+      const { error } = resetPasswordSchema.validate(
+        { token: "resettoken123", password: "longlowercase" },
+        { context: { servicePolicy: { password: relaxedPolicy } } }
+      );
+      expect(error).toBeUndefined();
+    });
+
+    it("should report the policy's own requirements", () => {
+      const { error } = resetPasswordSchema.validate(
+        { token: "resettoken123", password: "short" },
+        { context: { servicePolicy: { password: relaxedPolicy } } }
+      );
+      expect(error?.details[0]?.message).toBe(
+        "Password must be at least 10 characters long"
+      );
+    });
+
+    it("should pass the request's service policy to the schema", () => {
+      const mockReq = {
+        body: { token: "resettoken123", password: "longlowercase" },
+        servicePolicy: { password: relaxedPolicy },
+      } as any;
+      const mockNext = jest.fn();
+
+      validate(resetPasswordSchema)(mockReq, {} as any, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it("should not apply the password policy to sign-in", () => {
+      const { error } = loginSchema.validate({
+        email: "user@example.com",
+        password: "legacypass",
+      });
+      expect(error).toBeUndefined();
+    });
+  });
+
+  describe("Redirect URL Allowlist", () => {
+    const servicePolicy = {
+      redirectUrlPatterns: ["https://app.example.com/auth/*"],
+    };
+
+    it("should accept a redirect URL matching the service patterns", () => {
+      const { error } = forgotPasswordSchema.validate(
+        {
+          email: "user@example.com",
+          redirectUrl: "https://app.example.com/auth/reset",
+        },
+        { context: { servicePolicy } }
+      );
+      expect(error).toBeUndefined();
+    });
+
+    it("should reject a redirect URL outside the service patterns", () => {
+      const { error } = forgotPasswordSchema.validate(
+        {
+          email: "user@example.com",
+          redirectUrl: "https://evil.example.com/auth/reset",
+        },
+        { context: { servicePolicy } }
+      );
+      expect(error?.details[0]?.message).toBe(
+        "Redirect URL is not allowed for this service"
+      );
+    });
+  });
+
+  describe("OAuth PKCE Parameters", () => {
+    it("should accept an S256 code challenge", () => {
+      const { error } = oauthParamsSchema.validate({
+        redirectUrl: "https://example.com/callback",
+        code_challenge: "E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM",
+        code_challenge_method: "S256",
+      });
+      expect(error).toBeUndefined();
+    });
+
+    it("should reject the plain challenge method", () => {
+      const { error } = oauthParamsSchema.validate({
+        redirectUrl: "https://example.com/callback",
+        code_challenge: "E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM",
+        code_challenge_method: "plain",
+      });
+      expect(error?.details[0]?.message).toBe(
+        "Only the S256 code_challenge_method is supported"
+      );
+    });
+
+    it("should reject a malformed code verifier", () => {
+      const { error } = exchangeCodeSchema.validate({
+        code: "login-code",
+        code_verifier: "too-short",
+      });
+      expect(error).toBeTruthy();
+    });
+  });
+
   describe("Validation Middleware Function", () => {
     it("should validate body data by default", () => {
       const mockReq = {
@@ -0,0 +1,207 @@
+import { Prisma } from "@prisma/client";
+import {
+  getAuditChain,
+  listUserAuditEvents,
+  recordAuditEvent,
+  verifyAuditChain,
+} from "../../src/services/AuditService";
+import { prisma } from "../../src/config/prisma";
+import { logger } from "../../src/helpers/logger";
+
+// Mock dependencies
+jest.mock("../../src/config/prisma", () => ({
+  prisma: {
+    auditEvent: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      count: jest.fn(),
+    },
+  },
+}));
+jest.mock("../../src/helpers/logger");
+
+const mockedPrisma = {
+  auditEvent: {
+    findFirst: prisma.auditEvent.findFirst as jest.MockedFunction<any>,
+    findMany: prisma.auditEvent.findMany as jest.MockedFunction<any>,
+    create: prisma.auditEvent.create as jest.MockedFunction<any>,
+    count: prisma.auditEvent.count as jest.MockedFunction<any>,
+  },
+};
+
+// Stored events, in sequence order
+let events: any[];
+
+const signinEvent = (userId: string) => ({
+  type: "signin" as const,
+  outcome: "success" as const,
+  service: "examaxis",
+  userId,
+  ipAddress: "127.0.0.1",
+  userAgent: "test-agent",
+  metadata: { method: "password" },
+});
+
+describe("AuditService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    events = [];
+
+    // Minimal collection: the head of a chain, appends and reads by sequence
+    mockedPrisma.auditEvent.findFirst.mockImplementation(
+      async ({ where }: any) =>
+        events.filter((event) => event.chain === where.chain).pop() ?? null
+    );
+    mockedPrisma.auditEvent.create.mockImplementation(async ({ data }: any) => {
+      const event = {
+        id: `event${data.sequence}`,
+        ...data,
+        metadata: data.metadata === Prisma.JsonNull ? null : data.metadata,
+      };
+      events.push(event);
+      return event;
+    });
+    mockedPrisma.auditEvent.findMany.mockImplementation(
+      async ({ where, take }: any) =>
+        events
+          .filter(
+            (event) =>
+              event.chain === where.chain && event.sequence > where.sequence.gt
+          )
+          .slice(0, take)
+    );
+  });
+
+  describe("recordAuditEvent", () => {
+    it("should chain each event to the one before it", async () => {
+      await recordAuditEvent(signinEvent("user1"));
+      await recordAuditEvent(signinEvent("user1"));
+
+      expect(events).toHaveLength(2);
+      expect(events[0]).toMatchObject({
+        chain: "user:user1",
+        sequence: 1,
+        previousHash: null,
+      });
+      expect(events[1]).toMatchObject({
+        chain: "user:user1",
+        sequence: 2,
+        previousHash: events[0].hash,
+      });
+      expect(events[1].hash).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it("should keep a separate chain per user", async () => {
+      await recordAuditEvent(signinEvent("user1"));
+      await recordAuditEvent(signinEvent("user2"));
+
+      expect(mockedPrisma.auditEvent.findFirst).toHaveBeenLastCalledWith(
+        expect.objectContaining({ where: { chain: "user:user2" } })
+      );
+      expect(events[1]).toMatchObject({
+        chain: "user:user2",
+        sequence: 1,
+        previousHash: null,
+      });
+    });
+
+    it("should chain events about no known user per service", async () => {
+      await recordAuditEvent({ ...signinEvent("user1"), userId: undefined });
+
+      expect(events[0]).toMatchObject({
+        chain: "service:examaxis",
+        sequence: 1,
+        userId: null,
+      });
+    });
+
+    it("should retry when another writer took the sequence", async () => {
+      mockedPrisma.auditEvent.create.mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+          code: "P2002",
+          clientVersion: "test",
+        })
+      );
+
+      await recordAuditEvent(signinEvent("user1"));
+
+      expect(mockedPrisma.auditEvent.create).toHaveBeenCalledTimes(2);
+      expect(events).toHaveLength(1);
+    });
+
+    it("should log instead of throwing when the event cannot be stored", async () => {
+      mockedPrisma.auditEvent.create.mockRejectedValue(new Error("DB down"));
+
+      await expect(
+        recordAuditEvent(signinEvent("user1"))
+      ).resolves.toBeUndefined();
+      expect(mockedPrisma.auditEvent.create).toHaveBeenCalledTimes(1);
+      expect(logger.error).toHaveBeenCalledWith(
+        "Failed to record audit event",
+        expect.objectContaining({ type: "signin", userId: "user1" })
+      );
+    });
+  });
+
+  describe("verifyAuditChain", () => {
+    const chain = getAuditChain({ userId: "user1", service: "examaxis" });
+
+    beforeEach(async () => {
+      // Another user's event must not count towards user1's chain
+      for (const userId of ["user1", "user1", "user1", "user2"]) {
+        await recordAuditEvent(signinEvent(userId));
+      }
+    });
+
+    it("should accept an untouched chain", async () => {
+      await expect(verifyAuditChain(chain)).resolves.toEqual({
+        valid: true,
+        checked: 3,
+      });
+    });
+
+    it("should detect an edited event", async () => {
+      events[1].outcome = "failure";
+
+      await expect(verifyAuditChain(chain)).resolves.toEqual({
+        valid: false,
+        checked: 1,
+        brokenAtSequence: 2,
+      });
+    });
+
+    it("should detect a removed event", async () => {
+      events.splice(1, 1);
+
+      await expect(verifyAuditChain(chain)).resolves.toMatchObject({
+        valid: false,
+        brokenAtSequence: 2,
+      });
+    });
+  });
+
+  describe("listUserAuditEvents", () => {
+    it("should page through the user's events, newest first", async () => {
+      mockedPrisma.auditEvent.findMany.mockResolvedValue([]);
+      mockedPrisma.auditEvent.count.mockResolvedValue(45);
+
+      const result = await listUserAuditEvents("user1", 2, 20);
+
+      expect(mockedPrisma.auditEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: "user1" },
+          orderBy: { createdAt: "desc" },
+          skip: 20,
+          take: 20,
+        })
+      );
+      expect(result.pagination).toEqual({
+        page: 2,
+        limit: 20,
+        total: 45,
+        totalPages: 3,
+      });
+    });
+  });
+});
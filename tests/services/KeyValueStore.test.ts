@@ -0,0 +1,183 @@
+import {
+  createDatabaseKeyValueStore,
+  createMemoryKeyValueStore,
+  getKeyValueStore,
+  setKeyValueStore,
+} from "../../src/services/KeyValueStore";
+import { prisma } from "../../src/config/prisma";
+
+// Mock dependencies
+jest.mock("../../src/config/prisma", () => ({
+  prisma: {
+    keyValueEntry: {
+      findFirst: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    $runCommandRaw: jest.fn(),
+  },
+}));
+
+const mockedPrisma = {
+  keyValueEntry: {
+    findFirst: prisma.keyValueEntry.findFirst as jest.MockedFunction<any>,
+    upsert: prisma.keyValueEntry.upsert as jest.MockedFunction<any>,
+    deleteMany: prisma.keyValueEntry.deleteMany as jest.MockedFunction<any>,
+  },
+  $runCommandRaw: prisma.$runCommandRaw as jest.MockedFunction<any>,
+};
+
+const inOneMinute = () => new Date(Date.now() + 60 * 1000);
+
+describe("KeyValueStore", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("createMemoryKeyValueStore", () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should store and return values until they expire", async () => {
+      jest.useFakeTimers({ now: new Date("2025-01-01T00:00:00Z") });
+      const store = createMemoryKeyValueStore();
+
+      await store.set("key", { value: 1 }, inOneMinute());
+      await expect(store.get("key")).resolves.toEqual({ value: 1 });
+
+      jest.setSystemTime(new Date("2025-01-01T00:01:00Z"));
+      await expect(store.get("key")).resolves.toBeNull();
+    });
+
+    it("should hand a value to a single taker", async () => {
+      const store = createMemoryKeyValueStore();
+      await store.set("key", "code", inOneMinute());
+
+      await expect(store.take("key")).resolves.toBe("code");
+      await expect(store.take("key")).resolves.toBeNull();
+    });
+
+    it("should delete values", async () => {
+      const store = createMemoryKeyValueStore();
+      await store.set("key", "value", inOneMinute());
+
+      await store.delete("key");
+
+      await expect(store.get("key")).resolves.toBeNull();
+    });
+
+    it("should count concurrent increments once each", async () => {
+      const store = createMemoryKeyValueStore();
+      const expiresAt = inOneMinute();
+
+      const counters = await Promise.all(
+        [1, 2, 3].map(() => store.increment("key", expiresAt))
+      );
+
+      expect(counters.map(({ count }) => count)).toEqual([1, 2, 3]);
+      expect(counters[2]?.resetAt).toBe(expiresAt.getTime());
+    });
+
+    it("should restart an expired counter", async () => {
+      jest.useFakeTimers({ now: new Date("2025-01-01T00:00:00Z") });
+      const store = createMemoryKeyValueStore();
+      await store.increment("key", inOneMinute());
+
+      jest.setSystemTime(new Date("2025-01-01T00:01:00Z"));
+      const expiresAt = inOneMinute();
+
+      await expect(store.increment("key", expiresAt)).resolves.toEqual({
+        count: 1,
+        resetAt: expiresAt.getTime(),
+      });
+    });
+  });
+
+  describe("createDatabaseKeyValueStore", () => {
+    const entry = {
+      id: "507f1f77bcf86cd799439011",
+      key: "key",
+      value: { value: 1 },
+      expiresAt: inOneMinute(),
+    };
+
+    it("should upsert values with their expiry", async () => {
+      const expiresAt = inOneMinute();
+
+      await createDatabaseKeyValueStore().set("key", { value: 1 }, expiresAt);
+
+      expect(mockedPrisma.keyValueEntry.upsert).toHaveBeenCalledWith({
+        where: { key: "key" },
+        create: { key: "key", value: { value: 1 }, expiresAt },
+        update: { value: { value: 1 }, expiresAt },
+      });
+    });
+
+    it("should only read entries that have not expired", async () => {
+      mockedPrisma.keyValueEntry.findFirst.mockResolvedValue(null);
+
+      await expect(
+        createDatabaseKeyValueStore().get("key")
+      ).resolves.toBeNull();
+      expect(mockedPrisma.keyValueEntry.findFirst).toHaveBeenCalledWith({
+        where: { key: "key", expiresAt: { gt: expect.any(Date) } },
+      });
+    });
+
+    it("should return a taken value to the caller that deleted it", async () => {
+      mockedPrisma.keyValueEntry.findFirst.mockResolvedValue(entry);
+      mockedPrisma.keyValueEntry.deleteMany.mockResolvedValue({ count: 1 });
+
+      await expect(createDatabaseKeyValueStore().take("key")).resolves.toEqual({
+        value: 1,
+      });
+      expect(mockedPrisma.keyValueEntry.deleteMany).toHaveBeenCalledWith({
+        where: { id: entry.id },
+      });
+    });
+
+    it("should return nothing when a concurrent take won", async () => {
+      mockedPrisma.keyValueEntry.findFirst.mockResolvedValue(entry);
+      mockedPrisma.keyValueEntry.deleteMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        createDatabaseKeyValueStore().take("key")
+      ).resolves.toBeNull();
+    });
+
+    it("should increment counters with a single findAndModify", async () => {
+      const expiresAt = inOneMinute();
+      mockedPrisma.$runCommandRaw.mockResolvedValue({
+        value: {
+          key: "key",
+          value: 3,
+          expiresAt: { $date: expiresAt.toISOString() },
+        },
+        ok: 1,
+      });
+
+      await expect(
+        createDatabaseKeyValueStore().increment("key", expiresAt)
+      ).resolves.toEqual({ count: 3, resetAt: expiresAt.getTime() });
+      expect(mockedPrisma.$runCommandRaw).toHaveBeenCalledWith(
+        expect.objectContaining({
+          findAndModify: "kv_entries",
+          query: { key: "key" },
+          upsert: true,
+          new: true,
+        })
+      );
+    });
+  });
+
+  describe("setKeyValueStore", () => {
+    it("should replace the active store", () => {
+      const store = createMemoryKeyValueStore();
+
+      setKeyValueStore(store);
+
+      expect(getKeyValueStore()).toBe(store);
+    });
+  });
+});
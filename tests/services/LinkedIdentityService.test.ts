@@ -0,0 +1,228 @@
+import {
+  confirmIdentityLink,
+  linkIdentity,
+  unlinkIdentity,
+} from "../../src/services/LinkedIdentityService";
+import { authenticateUser } from "../../src/services/UserService";
+import { verifyMfaChallenge } from "../../src/services/MfaService";
+import { verifyOAuthLinkToken } from "../../src/helpers/jwt";
+import { prisma } from "../../src/config/prisma";
+
+// Mock dependencies
+jest.mock("../../src/config/prisma", () => ({
+  prisma: {
+    linkedIdentity: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      count: jest.fn(),
+      delete: jest.fn(),
+    },
+    credential: {
+      count: jest.fn(),
+    },
+  },
+}));
+jest.mock("../../src/services/UserService");
+jest.mock("../../src/services/MfaService");
+jest.mock("../../src/helpers/jwt");
+
+const mockedPrisma = {
+  linkedIdentity: {
+    findUnique: prisma.linkedIdentity.findUnique as jest.MockedFunction<any>,
+    findFirst: prisma.linkedIdentity.findFirst as jest.MockedFunction<any>,
+    create: prisma.linkedIdentity.create as jest.MockedFunction<any>,
+    count: prisma.linkedIdentity.count as jest.MockedFunction<any>,
+    delete: prisma.linkedIdentity.delete as jest.MockedFunction<any>,
+  },
+  credential: {
+    count: prisma.credential.count as jest.MockedFunction<any>,
+  },
+};
+const mockAuthenticateUser = authenticateUser as jest.MockedFunction<
+  typeof authenticateUser
+>;
+const mockVerifyMfaChallenge = verifyMfaChallenge as jest.MockedFunction<
+  typeof verifyMfaChallenge
+>;
+const mockVerifyOAuthLinkToken = verifyOAuthLinkToken as jest.MockedFunction<
+  typeof verifyOAuthLinkToken
+>;
+
+const createMockUser = (overrides: Partial<any> = {}): any => ({
+  id: "507f1f77bcf86cd799439011",
+  email: "john@example.com",
+  service: "examaxis",
+  passwordInfo: { hash: "hashedpassword" },
+  ...overrides,
+});
+
+const linkPayload = {
+  userId: "507f1f77bcf86cd799439011",
+  service: "examaxis",
+  provider: "google" as const,
+  providerUserId: "google-123",
+  email: "john@example.com",
+  purpose: "oauth_link" as const,
+};
+
+describe("LinkedIdentityService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockedPrisma.linkedIdentity.findUnique.mockResolvedValue(null);
+    mockedPrisma.linkedIdentity.create.mockImplementation(
+      async ({ data }: any) => ({ id: "identity123", ...data })
+    );
+    mockVerifyOAuthLinkToken.mockReturnValue(linkPayload);
+  });
+
+  describe("linkIdentity", () => {
+    it("should keep an identity already linked to the same user", async () => {
+      const identity = { id: "identity123", userId: "user123" };
+      mockedPrisma.linkedIdentity.findUnique.mockResolvedValue(identity);
+
+      const result = await linkIdentity("user123", linkPayload);
+
+      expect(result).toBe(identity);
+      expect(mockedPrisma.linkedIdentity.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("confirmIdentityLink", () => {
+    it("should link the identity once the password is confirmed", async () => {
+      const user = createMockUser();
+      mockAuthenticateUser.mockResolvedValue({ user, isValid: true });
+
+      const result = await confirmIdentityLink(
+        "link-token",
+        "Password123!",
+        {},
+        "examaxis"
+      );
+
+      expect(mockAuthenticateUser).toHaveBeenCalledWith(
+        "john@example.com",
+        "Password123!",
+        "examaxis"
+      );
+      expect(mockedPrisma.linkedIdentity.create).toHaveBeenCalledWith({
+        data: {
+          userId: user.id,
+          service: "examaxis",
+          provider: "google",
+          providerUserId: "google-123",
+          email: "john@example.com",
+        },
+      });
+      expect(result).toEqual({ user });
+    });
+
+    it("should reject a wrong password without linking", async () => {
+      mockAuthenticateUser.mockResolvedValue({
+        user: createMockUser(),
+        isValid: false,
+      });
+
+      await expect(
+        confirmIdentityLink("link-token", "wrong", {}, "examaxis")
+      ).rejects.toMatchObject({ code: 401 });
+      expect(mockedPrisma.linkedIdentity.create).not.toHaveBeenCalled();
+    });
+
+    it("should reject a token issued for another service", async () => {
+      await expect(
+        confirmIdentityLink("link-token", "Password123!", {}, "other")
+      ).rejects.toMatchObject({ message: "Invalid link token", code: 401 });
+      expect(mockAuthenticateUser).not.toHaveBeenCalled();
+    });
+
+    it("should ask for a code when the account uses MFA", async () => {
+      mockAuthenticateUser.mockResolvedValue({
+        user: createMockUser(),
+        isValid: true,
+        mfaToken: "mfa-token",
+      });
+
+      const result = await confirmIdentityLink(
+        "link-token",
+        "Password123!",
+        {},
+        "examaxis"
+      );
+
+      expect(result).toEqual({ mfaRequired: true });
+      expect(mockedPrisma.linkedIdentity.create).not.toHaveBeenCalled();
+    });
+
+    it("should link after a valid MFA code", async () => {
+      const user = createMockUser();
+      mockAuthenticateUser.mockResolvedValue({
+        user,
+        isValid: true,
+        mfaToken: "mfa-token",
+      });
+      mockVerifyMfaChallenge.mockResolvedValue(user);
+
+      await confirmIdentityLink(
+        "link-token",
+        "Password123!",
+        { code: "123456" },
+        "examaxis"
+      );
+
+      expect(mockVerifyMfaChallenge).toHaveBeenCalledWith("mfa-token", {
+        code: "123456",
+      });
+      expect(mockedPrisma.linkedIdentity.create).toHaveBeenCalled();
+    });
+  });
+
+  describe("unlinkIdentity", () => {
+    beforeEach(() => {
+      mockedPrisma.linkedIdentity.findFirst.mockResolvedValue({
+        id: "identity123",
+        userId: "507f1f77bcf86cd799439011",
+      });
+      mockedPrisma.linkedIdentity.count.mockResolvedValue(0);
+      mockedPrisma.credential.count.mockResolvedValue(0);
+    });
+
+    it("should unlink when the user has a password", async () => {
+      await unlinkIdentity(createMockUser(), "identity123");
+
+      expect(mockedPrisma.linkedIdentity.delete).toHaveBeenCalledWith({
+        where: { id: "identity123" },
+      });
+    });
+
+    it("should refuse to unlink the only sign-in method", async () => {
+      await expect(
+        unlinkIdentity(
+          createMockUser({ passwordInfo: { hash: null } }),
+          "identity123"
+        )
+      ).rejects.toMatchObject({ code: 400 });
+      expect(mockedPrisma.linkedIdentity.delete).not.toHaveBeenCalled();
+    });
+
+    it("should allow unlinking when a passkey remains", async () => {
+      mockedPrisma.credential.count.mockResolvedValue(1);
+
+      await unlinkIdentity(
+        createMockUser({ passwordInfo: { hash: null } }),
+        "identity123"
+      );
+
+      expect(mockedPrisma.linkedIdentity.delete).toHaveBeenCalled();
+    });
+
+    it("should return 404 for an identity of another user", async () => {
+      mockedPrisma.linkedIdentity.findFirst.mockResolvedValue(null);
+
+      await expect(
+        unlinkIdentity(createMockUser(), "identity123")
+      ).rejects.toMatchObject({ code: 404 });
+    });
+  });
+});
@@ -0,0 +1,419 @@
+import * as MfaService from "../../src/services/MfaService";
+import * as UserService from "../../src/services/UserService";
+import * as MfaHelpers from "../../src/helpers/mfa";
+import * as JwtHelper from "../../src/helpers/jwt";
+import * as EmailService from "../../src/services/EmailService";
+import * as EmailTemplates from "../../src/templates/emailTemplates";
+import { prisma } from "../../src/config/prisma";
+
+// Mock dependencies
+jest.mock("../../src/config/prisma", () => ({
+  prisma: {
+    user: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+jest.mock("../../src/services/UserService");
+jest.mock("../../src/helpers/mfa");
+jest.mock("../../src/helpers/jwt");
+jest.mock("../../src/services/EmailService");
+jest.mock("../../src/templates/emailTemplates");
+
+const mockedPrisma = {
+  user: {
+    findFirst: prisma.user.findFirst as jest.MockedFunction<any>,
+    update: prisma.user.update as jest.MockedFunction<any>,
+    updateMany: prisma.user.updateMany as jest.MockedFunction<any>,
+  },
+};
+const mockedUserService = UserService as jest.Mocked<typeof UserService>;
+const mockedMfaHelpers = MfaHelpers as jest.Mocked<typeof MfaHelpers>;
+const mockedJwtHelper = JwtHelper as jest.Mocked<typeof JwtHelper>;
+const mockedEmailService = EmailService as jest.Mocked<typeof EmailService>;
+const mockedEmailTemplates = EmailTemplates as jest.Mocked<
+  typeof EmailTemplates
+>;
+
+// Helper function to create clean mock user objects with only real fields
+const createMockUser = (overrides: Partial<any> = {}): any => {
+  const defaultUser = {
+    id: "507f1f77bcf86cd799439011",
+    fullname: "John Doe",
+    email: "john@example.com",
+    phone: null,
+    service: "examaxis",
+    emailInfo: {
+      isVerified: true,
+      verificationToken: null,
+      verificationExpires: null,
+      pendingEmail: null,
+      provider: null,
+    },
+    phoneInfo: null,
+    passwordInfo: {
+      hash: "hashedpassword",
+      resetToken: null,
+      resetExpires: null,
+    },
+    mfaInfo: null,
+    lockoutInfo: {
+      isLocked: false,
+      lockedUntil: null,
+      failedAttemptCount: 0,
+    },
+    profileImage: null,
+    isActive: true,
+    lastLoginAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  return { ...defaultUser, ...overrides };
+};
+
+const enabledMfaInfo = {
+  isEnabled: true,
+  secret: "encrypted-secret",
+  pendingSecret: null,
+  lastUsedStep: 100,
+  recoveryCodes: ["hashed-code-1", "hashed-code-2"],
+  enabledAt: new Date(),
+};
+
+describe("MfaService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockedMfaHelpers.encryptMfaSecret.mockReturnValue("encrypted-secret");
+    mockedMfaHelpers.decryptMfaSecret.mockReturnValue("PLAINSECRET");
+    mockedMfaHelpers.generateRecoveryCodes.mockReturnValue({
+      codes: ["aaaaa-bbbbb", "ccccc-ddddd"],
+      hashed: ["hashed-new-1", "hashed-new-2"],
+    });
+  });
+
+  describe("startMfaEnrollment", () => {
+    it("should store an encrypted pending secret and return the URI", async () => {
+      const mockUser = createMockUser();
+      mockedMfaHelpers.generateTotpSecret.mockReturnValue({
+        secret: "PLAINSECRET",
+        otpauthUri: "otpauth://totp/CredLock:john%40example.com",
+      });
+
+      const result = await MfaService.startMfaEnrollment(mockUser);
+
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: {
+          mfaInfo: { isEnabled: false, pendingSecret: "encrypted-secret" },
+        },
+      });
+      expect(result).toEqual({
+        secret: "PLAINSECRET",
+        otpauthUri: "otpauth://totp/CredLock:john%40example.com",
+      });
+    });
+
+    it("should reject when MFA is already enabled", async () => {
+      const mockUser = createMockUser({ mfaInfo: enabledMfaInfo });
+
+      await expect(
+        MfaService.startMfaEnrollment(mockUser)
+      ).rejects.toMatchObject({ code: 409 });
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("confirmMfaEnrollment", () => {
+    it("should enable MFA when the code matches the pending secret", async () => {
+      const mockUser = createMockUser({
+        mfaInfo: { isEnabled: false, pendingSecret: "encrypted-pending" },
+      });
+      mockedMfaHelpers.verifyTotpCode.mockReturnValue(200);
+      mockedPrisma.user.update.mockResolvedValue(mockUser);
+
+      const result = await MfaService.confirmMfaEnrollment(mockUser, "123456");
+
+      expect(mockedMfaHelpers.decryptMfaSecret).toHaveBeenCalledWith(
+        "encrypted-pending"
+      );
+      expect(result.recoveryCodes).toEqual(["aaaaa-bbbbb", "ccccc-ddddd"]);
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: {
+          mfaInfo: {
+            isEnabled: true,
+            secret: "encrypted-pending",
+            pendingSecret: null,
+            lastUsedStep: 200,
+            recoveryCodes: ["hashed-new-1", "hashed-new-2"],
+            enabledAt: expect.any(Date),
+          },
+        },
+      });
+    });
+
+    it("should reject an invalid code", async () => {
+      const mockUser = createMockUser({
+        mfaInfo: { isEnabled: false, pendingSecret: "encrypted-pending" },
+      });
+      mockedMfaHelpers.verifyTotpCode.mockReturnValue(null);
+
+      await expect(
+        MfaService.confirmMfaEnrollment(mockUser, "000000")
+      ).rejects.toMatchObject({ message: "Invalid verification code" });
+    });
+
+    it("should reject when no setup is pending", async () => {
+      const mockUser = createMockUser();
+
+      await expect(
+        MfaService.confirmMfaEnrollment(mockUser, "123456")
+      ).rejects.toMatchObject({ code: 400 });
+    });
+  });
+
+  describe("disableMfaForUser", () => {
+    it("should clear MFA info after a valid code", async () => {
+      const mockUser = createMockUser({ mfaInfo: enabledMfaInfo });
+      mockedMfaHelpers.verifyTotpCode.mockReturnValue(101);
+      mockedPrisma.user.update.mockResolvedValue(mockUser);
+
+      await MfaService.disableMfaForUser(mockUser, "123456");
+
+      expect(mockedPrisma.user.update).toHaveBeenLastCalledWith({
+        where: { id: mockUser.id },
+        data: {
+          mfaInfo: {
+            isEnabled: false,
+            secret: null,
+            pendingSecret: null,
+            lastUsedStep: null,
+            recoveryCodes: [],
+            enabledAt: null,
+          },
+        },
+      });
+    });
+
+    it("should reject when MFA is not enabled", async () => {
+      await expect(
+        MfaService.disableMfaForUser(createMockUser(), "123456")
+      ).rejects.toMatchObject({ code: 400 });
+    });
+
+    it("should count an invalid code as a failed login attempt", async () => {
+      const mockUser = createMockUser({ mfaInfo: enabledMfaInfo });
+      mockedMfaHelpers.verifyTotpCode.mockReturnValue(null);
+
+      await expect(
+        MfaService.disableMfaForUser(mockUser, "000000")
+      ).rejects.toMatchObject({ code: 400 });
+      expect(mockedUserService.recordFailedCheck).toHaveBeenCalledWith(
+        mockUser,
+        { type: "mfa_disabled" }
+      );
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject while the account is locked", async () => {
+      const mockUser = createMockUser({
+        mfaInfo: enabledMfaInfo,
+        lockoutInfo: {
+          isLocked: true,
+          lockedUntil: new Date(Date.now() + 60 * 1000),
+          failedAttemptCount: 5,
+        },
+      });
+
+      await expect(
+        MfaService.disableMfaForUser(mockUser, "123456")
+      ).rejects.toMatchObject({ code: 423 });
+      expect(mockedMfaHelpers.verifyTotpCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("verifyMfaChallenge", () => {
+    beforeEach(() => {
+      mockedJwtHelper.verifyMfaChallengeToken.mockReturnValue({
+        userId: "507f1f77bcf86cd799439011",
+        service: "examaxis",
+        purpose: "mfa_challenge",
+      });
+    });
+
+    it("should complete login and record the used step", async () => {
+      const mockUser = createMockUser({ mfaInfo: enabledMfaInfo });
+      mockedPrisma.user.findFirst.mockResolvedValue(mockUser);
+      mockedMfaHelpers.verifyTotpCode.mockReturnValue(101);
+
+      const result = await MfaService.verifyMfaChallenge("mfa-token", {
+        code: "123456",
+      });
+
+      expect(mockedMfaHelpers.verifyTotpCode).toHaveBeenCalledWith(
+        "PLAINSECRET",
+        "123456",
+        100
+      );
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: { mfaInfo: { ...enabledMfaInfo, lastUsedStep: 101 } },
+      });
+      expect(mockedUserService.recordSuccessfulLogin).toHaveBeenCalledWith(
+        mockUser.id
+      );
+      expect(result).toBe(mockUser);
+    });
+
+    it("should count an invalid code as a failed login attempt", async () => {
+      const mockUser = createMockUser({ mfaInfo: enabledMfaInfo });
+      mockedPrisma.user.findFirst.mockResolvedValue(mockUser);
+      mockedMfaHelpers.verifyTotpCode.mockReturnValue(null);
+
+      await expect(
+        MfaService.verifyMfaChallenge(
+          "mfa-token",
+          { code: "000000" },
+          { ipAddress: "127.0.0.1", userAgent: "test-agent" }
+        )
+      ).rejects.toMatchObject({ code: 401 });
+      expect(mockedUserService.recordFailedCheck).toHaveBeenCalledWith(
+        mockUser,
+        {
+          ipAddress: "127.0.0.1",
+          userAgent: "test-agent",
+          type: "signin",
+          metadata: { method: "mfa" },
+        }
+      );
+      expect(mockedUserService.recordSuccessfulLogin).not.toHaveBeenCalled();
+    });
+
+    it("should reject when the user no longer has MFA enabled", async () => {
+      mockedPrisma.user.findFirst.mockResolvedValue(createMockUser());
+
+      await expect(
+        MfaService.verifyMfaChallenge("mfa-token", { code: "123456" })
+      ).rejects.toMatchObject({ message: "Invalid MFA challenge" });
+    });
+
+    it("should accept a recovery code and notify the user", async () => {
+      const mockUser = createMockUser({ mfaInfo: enabledMfaInfo });
+      mockedPrisma.user.findFirst.mockResolvedValue(mockUser);
+      mockedPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+      mockedMfaHelpers.hashRecoveryCode.mockReturnValue("hashed-code-1");
+      mockedEmailTemplates.generateRecoveryCodeUsedTemplate.mockResolvedValue({
+        subject: "Recovery Code Used",
+        html: "<p>html</p>",
+        text: "text",
+      });
+
+      await MfaService.verifyMfaChallenge("mfa-token", {
+        recoveryCode: "aaaaa-bbbbb",
+      });
+
+      expect(mockedPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: mockUser.id,
+          mfaInfo: { is: { recoveryCodes: { has: "hashed-code-1" } } },
+        },
+        data: {
+          mfaInfo: { ...enabledMfaInfo, recoveryCodes: ["hashed-code-2"] },
+        },
+      });
+      expect(
+        mockedEmailTemplates.generateRecoveryCodeUsedTemplate
+      ).toHaveBeenCalledWith("John Doe", 1);
+      expect(mockedUserService.recordSuccessfulLogin).toHaveBeenCalled();
+
+      await new Promise(process.nextTick);
+      expect(mockedEmailService.sendEmail).toHaveBeenCalledWith(
+        "john@example.com",
+        expect.objectContaining({ subject: "Recovery Code Used" })
+      );
+    });
+
+    it("should reject an unknown or already used recovery code", async () => {
+      const mockUser = createMockUser({ mfaInfo: enabledMfaInfo });
+      mockedPrisma.user.findFirst.mockResolvedValue(mockUser);
+      mockedMfaHelpers.hashRecoveryCode.mockReturnValue("hashed-unknown");
+
+      await expect(
+        MfaService.verifyMfaChallenge("mfa-token", {
+          recoveryCode: "fffff-fffff",
+        })
+      ).rejects.toMatchObject({ code: 401 });
+      expect(mockedPrisma.user.updateMany).not.toHaveBeenCalled();
+      expect(mockedUserService.recordFailedCheck).toHaveBeenCalledWith(
+        mockUser,
+        { type: "signin", metadata: { method: "recovery_code" } }
+      );
+    });
+
+    it("should reject a recovery code consumed concurrently", async () => {
+      const mockUser = createMockUser({ mfaInfo: enabledMfaInfo });
+      mockedPrisma.user.findFirst.mockResolvedValue(mockUser);
+      mockedPrisma.user.updateMany.mockResolvedValue({ count: 0 });
+      mockedMfaHelpers.hashRecoveryCode.mockReturnValue("hashed-code-1");
+
+      await expect(
+        MfaService.verifyMfaChallenge("mfa-token", {
+          recoveryCode: "aaaaa-bbbbb",
+        })
+      ).rejects.toMatchObject({ code: 401 });
+      expect(
+        mockedEmailTemplates.generateRecoveryCodeUsedTemplate
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("regenerateUserRecoveryCodes", () => {
+    it("should replace stored codes after a valid TOTP code", async () => {
+      const mockUser = createMockUser({ mfaInfo: enabledMfaInfo });
+      mockedMfaHelpers.verifyTotpCode.mockReturnValue(101);
+
+      const codes = await MfaService.regenerateUserRecoveryCodes(
+        mockUser,
+        "123456"
+      );
+
+      expect(codes).toEqual(["aaaaa-bbbbb", "ccccc-ddddd"]);
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: {
+          mfaInfo: {
+            ...enabledMfaInfo,
+            lastUsedStep: 101,
+            recoveryCodes: ["hashed-new-1", "hashed-new-2"],
+          },
+        },
+      });
+    });
+
+    it("should reject an invalid TOTP code", async () => {
+      const mockUser = createMockUser({ mfaInfo: enabledMfaInfo });
+      mockedMfaHelpers.verifyTotpCode.mockReturnValue(null);
+
+      await expect(
+        MfaService.regenerateUserRecoveryCodes(mockUser, "000000")
+      ).rejects.toMatchObject({ message: "Invalid verification code" });
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+      expect(mockedUserService.recordFailedCheck).toHaveBeenCalledWith(
+        mockUser,
+        { type: "recovery_codes_regenerated" }
+      );
+    });
+  });
+
+  describe("getRemainingRecoveryCodes", () => {
+    it("should return the number of unused codes", () => {
+      const mockUser = createMockUser({ mfaInfo: enabledMfaInfo });
+
+      expect(MfaService.getRemainingRecoveryCodes(mockUser)).toBe(2);
+    });
+  });
+});
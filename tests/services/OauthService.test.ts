@@ -1,11 +1,19 @@
 import type { Profile as GitHubProfile } from "passport-github2";
+import type { Profile as GitLabProfile } from "passport-gitlab2";
+import type { Profile as DiscordProfile } from "passport-discord";
+import type { Profile as PassportProfile } from "passport";
+import jwt from "jsonwebtoken";
 import {
   createOAuthUser,
+  handleDiscordAuth,
   handleGithubAuth,
+  handleGitlabAuth,
+  handleMicrosoftAuth,
 } from "../../src/services/OauthService";
 import { GITHUB_EMAIL_API, AUTH_PROVIDERS } from "../../src/constants/common";
 import type { IOAuthUser } from "../../src/types/user";
 import { prisma } from "../../src/config/prisma";
+import { verifyOAuthLinkToken } from "../../src/helpers/jwt";
 
 // Mock dependencies
 jest.mock("../../src/config/prisma", () => ({
@@ -15,6 +23,10 @@ jest.mock("../../src/config/prisma", () => ({
       findUnique: jest.fn(),
       create: jest.fn(),
     },
+    linkedIdentity: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
   },
 }));
 jest.mock("../../src/helpers/logger");
@@ -28,14 +40,18 @@ const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
 describe("OauthService - Core Tests", () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    (mockedPrisma.linkedIdentity.findUnique as jest.Mock).mockResolvedValue(
+      null
+    );
   });
 
   describe("createOAuthUser", () => {
-    it("should return existing user if found", async () => {
+    it("should link and return an existing account without a password", async () => {
       const mockOAuthUser: IOAuthUser = {
         email: "test@example.com",
         displayName: "Test User",
         provider: AUTH_PROVIDERS.GOOGLE,
+        providerUserId: "google-123",
         isVerified: true,
         service: "examaxis",
       };
@@ -80,7 +96,16 @@ describe("OauthService - Core Tests", () => {
           service: "examaxis",
         },
       });
-      expect(result).toBe(existingUser);
+      expect(mockedPrisma.linkedIdentity.create).toHaveBeenCalledWith({
+        data: {
+          userId: "existing123",
+          service: "examaxis",
+          provider: "google",
+          providerUserId: "google-123",
+          email: "test@example.com",
+        },
+      });
+      expect(result).toEqual({ user: existingUser });
     });
 
     it("should create new user if not found", async () => {
@@ -88,6 +113,7 @@ describe("OauthService - Core Tests", () => {
         email: "test@example.com",
         displayName: "Test User",
         provider: AUTH_PROVIDERS.GOOGLE,
+        providerUserId: "google-123",
         isVerified: true,
         service: "examaxis",
       };
@@ -144,9 +170,130 @@ describe("OauthService - Core Tests", () => {
           },
           isActive: true,
           lastLoginAt: expect.any(Date),
+          linkedIdentities: {
+            create: {
+              service: "examaxis",
+              provider: "google",
+              providerUserId: "google-123",
+              email: "test@example.com",
+            },
+          },
+        }),
+      });
+      expect(result).toEqual({ user: newUser });
+    });
+
+    const googleUser: IOAuthUser = {
+      email: "test@example.com",
+      displayName: "Test User",
+      provider: AUTH_PROVIDERS.GOOGLE,
+      providerUserId: "google-123",
+      isVerified: true,
+      service: "examaxis",
+    };
+
+    it("should log in the user of an already linked identity", async () => {
+      const linkedUser = { id: "user123", email: "old@example.com" };
+      (mockedPrisma.linkedIdentity.findUnique as jest.Mock).mockResolvedValue({
+        id: "identity123",
+        userId: "user123",
+        user: linkedUser,
+      });
+
+      const result = await createOAuthUser(googleUser);
+
+      expect(mockedPrisma.linkedIdentity.findUnique).toHaveBeenCalledWith({
+        where: {
+          service_provider_providerUserId: {
+            service: "examaxis",
+            provider: "google",
+            providerUserId: "google-123",
+          },
+        },
+        include: { user: true },
+      });
+      expect(mockedPrisma.user.findFirst).not.toHaveBeenCalled();
+      expect(result).toEqual({ user: linkedUser });
+    });
+
+    it("should require confirmation before linking a password account", async () => {
+      (mockedPrisma.user.findFirst as jest.Mock).mockResolvedValue({
+        id: "existing123",
+        passwordInfo: { hash: "hashedpassword" },
+      });
+
+      const result = await createOAuthUser(googleUser);
+
+      expect(result).not.toHaveProperty("user");
+      expect(
+        verifyOAuthLinkToken((result as { linkToken: string }).linkToken)
+      ).toMatchObject({
+        userId: "existing123",
+        service: "examaxis",
+        provider: "google",
+        providerUserId: "google-123",
+        email: "test@example.com",
+      });
+      expect(mockedPrisma.linkedIdentity.create).not.toHaveBeenCalled();
+      expect(mockedPrisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it("should not link an unverified email to an account without a password", async () => {
+      (mockedPrisma.user.findFirst as jest.Mock).mockResolvedValue({
+        id: "existing123",
+        passwordInfo: { hash: null },
+      });
+
+      const result = await createOAuthUser({
+        ...googleUser,
+        isVerified: false,
+      });
+
+      expect(result).toHaveProperty("linkToken");
+      expect(mockedPrisma.linkedIdentity.create).not.toHaveBeenCalled();
+    });
+
+    it("should not link to an account whose own email is unverified", async () => {
+      (mockedPrisma.user.findFirst as jest.Mock).mockResolvedValue({
+        id: "existing123",
+        emailInfo: { isVerified: false },
+        passwordInfo: { hash: null },
+      });
+
+      const result = await createOAuthUser(googleUser);
+
+      expect(result).toHaveProperty("linkToken");
+      expect(mockedPrisma.linkedIdentity.create).not.toHaveBeenCalled();
+    });
+
+    it("should link to the signed-in user when linking from the profile", async () => {
+      const signedInUser = { id: "user456", email: "other@example.com" };
+      (mockedPrisma.user.findUnique as jest.Mock).mockResolvedValue(
+        signedInUser
+      );
+
+      const result = await createOAuthUser(googleUser, "user456");
+
+      expect(mockedPrisma.linkedIdentity.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: "user456",
+          providerUserId: "google-123",
         }),
       });
-      expect(result).toBe(newUser);
+      expect(mockedPrisma.user.findFirst).not.toHaveBeenCalled();
+      expect(result).toEqual({ user: signedInUser });
+    });
+
+    it("should reject linking an identity that belongs to another user", async () => {
+      (mockedPrisma.linkedIdentity.findUnique as jest.Mock).mockResolvedValue({
+        id: "identity123",
+        userId: "user123",
+      });
+
+      await expect(
+        createOAuthUser(googleUser, "user456")
+      ).rejects.toMatchObject({ code: 409 });
+      expect(mockedPrisma.linkedIdentity.create).not.toHaveBeenCalled();
     });
   });
 
@@ -190,6 +337,13 @@ describe("OauthService - Core Tests", () => {
         updatedAt: new Date(),
       } as any;
 
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            { email: "github@example.com", primary: true, verified: true },
+          ]),
+      } as any);
       (mockedPrisma.user.findFirst as jest.Mock).mockResolvedValue(null);
       (mockedPrisma.user.create as jest.Mock).mockResolvedValue(mockUserDoc);
 
@@ -219,7 +373,7 @@ describe("OauthService - Core Tests", () => {
           lastLoginAt: expect.any(Date),
         }),
       });
-      expect(result).toBe(mockUserDoc);
+      expect(result).toEqual({ user: mockUserDoc });
     });
 
     it("should fetch email from GitHub API when not in profile", async () => {
@@ -282,7 +436,209 @@ describe("OauthService - Core Tests", () => {
       expect(mockFetch).toHaveBeenCalledWith(GITHUB_EMAIL_API, {
         headers: { Authorization: "token github_access_token" },
       });
-      expect(result).toBe(mockUserDoc);
+      expect(result).toEqual({ user: mockUserDoc });
+    });
+
+    it("should skip an unverified primary email for a verified one", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            { email: "victim@example.com", primary: true, verified: false },
+            { email: "owner@example.com", primary: false, verified: true },
+          ]),
+      } as any);
+      (mockedPrisma.user.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockedPrisma.user.create as jest.Mock).mockResolvedValue({
+        id: "user123",
+      });
+
+      await handleGithubAuth(
+        {
+          id: "github123",
+          username: "githubuser",
+          emails: [{ value: "victim@example.com" }],
+        } as GitHubProfile,
+        "github_access_token",
+        "examaxis"
+      );
+
+      expect(mockedPrisma.user.findFirst).toHaveBeenCalledWith({
+        where: { email: "owner@example.com", service: "examaxis" },
+      });
+    });
+
+    it("should reject a GitHub user without a verified email", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            { email: "github@example.com", primary: true, verified: false },
+          ]),
+      } as any);
+
+      await expect(
+        handleGithubAuth(
+          {
+            id: "github123",
+            username: "githubuser",
+            emails: [{ value: "github@example.com" }],
+          } as GitHubProfile,
+          "github_access_token",
+          "examaxis"
+        )
+      ).rejects.toMatchObject({ code: 403 });
+      expect(mockedPrisma.user.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("handleMicrosoftAuth", () => {
+    const profile = {
+      id: "ms123",
+      displayName: "Microsoft User",
+      emails: [{ value: "ms@example.com", type: "work" }],
+      provider: "microsoft",
+    } as PassportProfile;
+
+    it("should trust an email the ID token marks as verified", async () => {
+      const idToken = jwt.sign(
+        { email: "ms@example.com", xms_edov: true },
+        "test-secret"
+      );
+
+      (mockedPrisma.user.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockedPrisma.user.create as jest.Mock).mockResolvedValue({
+        id: "user123",
+      });
+
+      await handleMicrosoftAuth(profile, idToken, "examaxis");
+
+      expect(mockedPrisma.user.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fullname: "Microsoft User",
+          email: "ms@example.com",
+          service: "examaxis",
+          emailInfo: { isVerified: true, provider: "microsoft" },
+        }),
+      });
+    });
+
+    it("should not match an existing account on a tenant-set email", async () => {
+      (mockedPrisma.user.findFirst as jest.Mock).mockResolvedValue({
+        id: "victim123",
+        passwordInfo: { hash: null },
+      });
+
+      const result = await handleMicrosoftAuth(
+        profile,
+        jwt.sign({ email: "ms@example.com" }, "test-secret"),
+        "examaxis"
+      );
+
+      expect(result).not.toHaveProperty("user");
+      expect(
+        verifyOAuthLinkToken((result as { linkToken: string }).linkToken)
+      ).toMatchObject({ userId: "victim123", providerUserId: "ms123" });
+      expect(mockedPrisma.linkedIdentity.create).not.toHaveBeenCalled();
+    });
+
+    it("should create an unverified account without an ID token", async () => {
+      (mockedPrisma.user.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockedPrisma.user.create as jest.Mock).mockResolvedValue({
+        id: "user123",
+      });
+
+      await handleMicrosoftAuth(profile, undefined, "examaxis");
+
+      expect(mockedPrisma.user.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          email: "ms@example.com",
+          emailInfo: { isVerified: false, provider: "microsoft" },
+        }),
+      });
+    });
+
+    it("should reject a profile without an email", async () => {
+      const profile = {
+        id: "ms123",
+        displayName: "Microsoft User",
+        emails: [],
+        provider: "microsoft",
+      } as unknown as PassportProfile;
+
+      await expect(
+        handleMicrosoftAuth(profile, undefined, "examaxis")
+      ).rejects.toMatchObject({ code: 400 });
+      expect(mockedPrisma.user.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("handleGitlabAuth", () => {
+    it("should fall back to the username and keep the avatar", async () => {
+      const profile = {
+        id: "42",
+        username: "gitlabuser",
+        displayName: "",
+        emails: [{ value: "gitlab@example.com" }],
+        avatarUrl: "https://gitlab.com/uploads/avatar.png",
+        provider: "gitlab",
+      } as GitLabProfile;
+
+      (mockedPrisma.user.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockedPrisma.user.create as jest.Mock).mockResolvedValue({
+        id: "user123",
+      });
+
+      await handleGitlabAuth(profile, "examaxis");
+
+      expect(mockedPrisma.user.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fullname: "gitlabuser",
+          email: "gitlab@example.com",
+          profileImage: "https://gitlab.com/uploads/avatar.png",
+          emailInfo: { isVerified: true, provider: "gitlab" },
+        }),
+      });
+    });
+  });
+
+  describe("handleDiscordAuth", () => {
+    const discordProfile = (overrides: Partial<DiscordProfile> = {}) =>
+      ({
+        id: "80351110224678912",
+        username: "discorduser",
+        global_name: "Discord User",
+        avatar: "8342729096ea3675442027381ff50dfe",
+        email: "discord@example.com",
+        verified: true,
+        provider: "discord",
+        ...overrides,
+      }) as DiscordProfile;
+
+    it("should build the avatar URL from the CDN", async () => {
+      (mockedPrisma.user.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockedPrisma.user.create as jest.Mock).mockResolvedValue({
+        id: "user123",
+      });
+
+      await handleDiscordAuth(discordProfile(), "examaxis");
+
+      expect(mockedPrisma.user.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fullname: "Discord User",
+          email: "discord@example.com",
+          profileImage:
+            "https://cdn.discordapp.com/avatars/80351110224678912/8342729096ea3675442027381ff50dfe.png",
+          emailInfo: { isVerified: true, provider: "discord" },
+        }),
+      });
+    });
+
+    it("should reject an unverified Discord email", async () => {
+      await expect(
+        handleDiscordAuth(discordProfile({ verified: false }), "examaxis")
+      ).rejects.toMatchObject({ code: 403 });
+      expect(mockedPrisma.user.findFirst).not.toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,344 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { generateKeyPairSync } from "crypto";
+import jwt from "jsonwebtoken";
+import {
+  clearOidcCache,
+  completeOidcLogin,
+  createOidcAuthorizationUrl,
+  getDiscoveryDocument,
+  mapOidcClaims,
+} from "../../src/services/OidcService";
+import { createOAuthUser } from "../../src/services/OauthService";
+import {
+  createMemoryKeyValueStore,
+  setKeyValueStore,
+} from "../../src/services/KeyValueStore";
+import { config } from "../../src/config/app";
+import { createPkceChallenge } from "../../src/utils/crypto";
+import type { OidcProviderConfig } from "../../src/types/oidc";
+
+// Mock dependencies
+jest.mock("../../src/services/OauthService");
+jest.mock("../../src/helpers/logger");
+
+const mockCreateOAuthUser = createOAuthUser as jest.MockedFunction<
+  typeof createOAuthUser
+>;
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+});
+
+// Minimal local OpenID Connect issuer: discovery, JWKS, token and userinfo
+const mockIssuer = {
+  server: null as Server | null,
+  url: "",
+  // What the next token request returns, from the authorization request
+  idTokenClaims: {} as Record<string, unknown>,
+  expectedChallenge: "",
+  userInfo: null as Record<string, unknown> | null,
+  tokenRequests: [] as { body: URLSearchParams; authorization?: string }[],
+};
+
+const signIdToken = (claims: Record<string, unknown>) =>
+  jwt.sign(
+    { iss: mockIssuer.url, aud: "client-id", sub: "subject-1", ...claims },
+    privateKey,
+    { algorithm: "RS256", keyid: "key-1", expiresIn: "5m" }
+  );
+
+const startMockIssuer = () =>
+  new Promise<void>((resolve) => {
+    mockIssuer.server = createServer((req, res) => {
+      const send = (status: number, body: unknown) => {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(body));
+      };
+
+      if (req.url === "/.well-known/openid-configuration") {
+        return send(200, {
+          issuer: mockIssuer.url,
+          authorization_endpoint: `${mockIssuer.url}/authorize`,
+          token_endpoint: `${mockIssuer.url}/token`,
+          jwks_uri: `${mockIssuer.url}/jwks`,
+          userinfo_endpoint: `${mockIssuer.url}/userinfo`,
+          id_token_signing_alg_values_supported: ["RS256"],
+        });
+      }
+
+      if (req.url === "/jwks") {
+        return send(200, {
+          keys: [
+            {
+              ...publicKey.export({ format: "jwk" }),
+              kid: "key-1",
+              use: "sig",
+            },
+          ],
+        });
+      }
+
+      if (req.url === "/userinfo") {
+        return send(200, mockIssuer.userInfo ?? {});
+      }
+
+      if (req.url === "/token" && req.method === "POST") {
+        let raw = "";
+        req.on("data", (chunk) => (raw += chunk));
+        req.on("end", () => {
+          const body = new URLSearchParams(raw);
+          mockIssuer.tokenRequests.push({
+            body,
+            ...(req.headers.authorization && {
+              authorization: req.headers.authorization,
+            }),
+          });
+
+          const verifier = body.get("code_verifier") ?? "";
+          if (
+            body.get("code") !== "auth-code" ||
+            createPkceChallenge(verifier) !== mockIssuer.expectedChallenge
+          ) {
+            return send(400, { error: "invalid_grant" });
+          }
+
+          send(200, {
+            access_token: "access-token",
+            token_type: "Bearer",
+            id_token: signIdToken(mockIssuer.idTokenClaims),
+          });
+        });
+        return;
+      }
+
+      send(404, {});
+    });
+
+    mockIssuer.server.listen(0, "127.0.0.1", () => {
+      const { port } = mockIssuer.server!.address() as AddressInfo;
+      mockIssuer.url = `http://127.0.0.1:${port}`;
+      resolve();
+    });
+  });
+
+// Run the authorization request and read back what the browser would send
+const startLogin = async (stateNonceHash = "nonce-hash") => {
+  const url = new URL(
+    await createOidcAuthorizationUrl("mock", "signed-state", stateNonceHash)
+  );
+  mockIssuer.expectedChallenge = url.searchParams.get("code_challenge")!;
+  return url;
+};
+
+describe("OidcService", () => {
+  let provider: OidcProviderConfig;
+
+  beforeAll(async () => {
+    await startMockIssuer();
+    provider = {
+      issuer: mockIssuer.url,
+      clientId: "client-id",
+      clientSecret: "client-secret",
+      callbackUrl: "http://localhost:5000/api/oauth/callback/oidc/mock",
+      scopes: ["openid", "email", "profile"],
+    };
+    config.oauth.oidc["mock"] = provider;
+  });
+
+  afterAll(async () => {
+    delete config.oauth.oidc["mock"];
+    await new Promise((resolve) => mockIssuer.server!.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearOidcCache();
+    setKeyValueStore(createMemoryKeyValueStore());
+    mockIssuer.tokenRequests = [];
+    mockIssuer.userInfo = null;
+    mockCreateOAuthUser.mockResolvedValue({ user: { id: "user123" } } as any);
+  });
+
+  describe("getDiscoveryDocument", () => {
+    it("should reject a document announcing another issuer", async () => {
+      await expect(
+        getDiscoveryDocument({ ...provider, issuer: `${mockIssuer.url}/` })
+      ).rejects.toMatchObject({ code: 502 });
+    });
+  });
+
+  describe("createOidcAuthorizationUrl", () => {
+    it("should build an authorization request with PKCE and a nonce", async () => {
+      const url = await startLogin();
+
+      expect(url.origin + url.pathname).toBe(`${mockIssuer.url}/authorize`);
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        response_type: "code",
+        client_id: "client-id",
+        redirect_uri: provider.callbackUrl,
+        scope: "openid email profile",
+        state: "signed-state",
+        nonce: expect.any(String),
+        code_challenge: expect.stringMatching(/^[A-Za-z0-9_-]{43}$/),
+        code_challenge_method: "S256",
+      });
+    });
+
+    it("should reject an unknown provider", async () => {
+      await expect(
+        createOidcAuthorizationUrl("unknown", "signed-state", "nonce-hash")
+      ).rejects.toMatchObject({ code: 404 });
+    });
+
+    it.each(["constructor", "__proto__", "toString"])(
+      "should not resolve %s from the object prototype",
+      async (slug) => {
+        await expect(
+          createOidcAuthorizationUrl(slug, "signed-state", "nonce-hash")
+        ).rejects.toMatchObject({ code: 404 });
+      }
+    );
+  });
+
+  describe("completeOidcLogin", () => {
+    it("should redeem the code and map the ID token claims", async () => {
+      const url = await startLogin();
+      mockIssuer.idTokenClaims = {
+        nonce: url.searchParams.get("nonce"),
+        email: "oidc@example.com",
+        email_verified: true,
+        name: "OIDC User",
+        picture: "https://idp.example.com/avatar.png",
+      };
+
+      await completeOidcLogin("mock", "auth-code", "nonce-hash", "examaxis");
+
+      expect(mockIssuer.tokenRequests[0]!.authorization).toBe(
+        `Basic ${Buffer.from("client-id:client-secret").toString("base64")}`
+      );
+      expect(mockCreateOAuthUser).toHaveBeenCalledWith(
+        {
+          email: "oidc@example.com",
+          service: "examaxis",
+          displayName: "OIDC User",
+          avatarUrl: "https://idp.example.com/avatar.png",
+          provider: "oidc:mock",
+          providerUserId: "subject-1",
+          isVerified: true,
+        },
+        undefined
+      );
+    });
+
+    it("should reject an ID token with another nonce", async () => {
+      await startLogin();
+      mockIssuer.idTokenClaims = {
+        nonce: "replayed-nonce",
+        email: "oidc@example.com",
+        email_verified: true,
+      };
+
+      await expect(
+        completeOidcLogin("mock", "auth-code", "nonce-hash", "examaxis")
+      ).rejects.toMatchObject({ message: "Invalid ID token", code: 401 });
+      expect(mockCreateOAuthUser).not.toHaveBeenCalled();
+    });
+
+    it("should reject an ID token issued to another client", async () => {
+      const url = await startLogin();
+      mockIssuer.idTokenClaims = {
+        nonce: url.searchParams.get("nonce"),
+        aud: "other-client",
+        email: "oidc@example.com",
+        email_verified: true,
+      };
+
+      await expect(
+        completeOidcLogin("mock", "auth-code", "nonce-hash", "examaxis")
+      ).rejects.toMatchObject({ code: 401 });
+    });
+
+    it("should fall back to userinfo when the ID token has no email", async () => {
+      const url = await startLogin();
+      mockIssuer.idTokenClaims = { nonce: url.searchParams.get("nonce") };
+      mockIssuer.userInfo = {
+        sub: "subject-1",
+        email: "userinfo@example.com",
+        email_verified: true,
+        preferred_username: "userinfo",
+      };
+
+      await completeOidcLogin("mock", "auth-code", "nonce-hash", "examaxis");
+
+      expect(mockCreateOAuthUser).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: "userinfo@example.com",
+          displayName: "userinfo",
+        }),
+        undefined
+      );
+    });
+
+    it("should reject a callback for another provider than the flow's", async () => {
+      await startLogin();
+      config.oauth.oidc["other"] = { ...provider, clientId: "other-client" };
+
+      try {
+        await expect(
+          completeOidcLogin("other", "auth-code", "nonce-hash", "examaxis")
+        ).rejects.toMatchObject({ code: 400 });
+        expect(mockIssuer.tokenRequests).toHaveLength(0);
+      } finally {
+        delete config.oauth.oidc["other"];
+      }
+    });
+
+    it("should only allow the flow to be completed once", async () => {
+      const url = await startLogin();
+      mockIssuer.idTokenClaims = {
+        nonce: url.searchParams.get("nonce"),
+        email: "oidc@example.com",
+        email_verified: true,
+      };
+
+      await completeOidcLogin("mock", "auth-code", "nonce-hash", "examaxis");
+
+      await expect(
+        completeOidcLogin("mock", "auth-code", "nonce-hash", "examaxis")
+      ).rejects.toMatchObject({ code: 400 });
+    });
+  });
+
+  describe("mapOidcClaims", () => {
+    it("should reject an unverified email", () => {
+      expect(() =>
+        mapOidcClaims(
+          {
+            sub: "subject-1",
+            email: "oidc@example.com",
+            email_verified: false,
+          },
+          "mock",
+          "examaxis"
+        )
+      ).toThrow("OpenID Connect email is not verified");
+    });
+
+    it("should build the display name from given and family names", () => {
+      expect(
+        mapOidcClaims(
+          {
+            sub: "subject-1",
+            email: "oidc@example.com",
+            email_verified: "true",
+            given_name: "Ada",
+            family_name: "Lovelace",
+          },
+          "mock",
+          "examaxis"
+        ).displayName
+      ).toBe("Ada Lovelace");
+    });
+  });
+});
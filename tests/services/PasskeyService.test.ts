@@ -0,0 +1,495 @@
+import * as SimpleWebAuthn from "@simplewebauthn/server";
+import * as PasskeyService from "../../src/services/PasskeyService";
+import * as UserService from "../../src/services/UserService";
+import * as JwtHelper from "../../src/helpers/jwt";
+import {
+  createMemoryKeyValueStore,
+  getKeyValueStore,
+  setKeyValueStore,
+} from "../../src/services/KeyValueStore";
+import { prisma } from "../../src/config/prisma";
+import { hashData } from "../../src/utils/crypto";
+
+// Mock dependencies
+jest.mock("@simplewebauthn/server", () => ({
+  generateRegistrationOptions: jest.fn(),
+  generateAuthenticationOptions: jest.fn(),
+  verifyRegistrationResponse: jest.fn(),
+  verifyAuthenticationResponse: jest.fn(),
+}));
+jest.mock("../../src/config/prisma", () => ({
+  prisma: {
+    credential: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+jest.mock("../../src/services/UserService");
+jest.mock("../../src/helpers/jwt");
+
+const mockedPrisma = {
+  credential: {
+    findMany: prisma.credential.findMany as jest.MockedFunction<any>,
+    findUnique: prisma.credential.findUnique as jest.MockedFunction<any>,
+    create: prisma.credential.create as jest.MockedFunction<any>,
+    update: prisma.credential.update as jest.MockedFunction<any>,
+    deleteMany: prisma.credential.deleteMany as jest.MockedFunction<any>,
+  },
+};
+const mockedWebAuthn = SimpleWebAuthn as jest.Mocked<typeof SimpleWebAuthn>;
+const mockedUserService = UserService as jest.Mocked<typeof UserService>;
+const mockedJwtHelper = JwtHelper as jest.Mocked<typeof JwtHelper>;
+
+// Helper function to create clean mock user objects with only real fields
+const createMockUser = (overrides: Partial<any> = {}): any => {
+  const defaultUser = {
+    id: "507f1f77bcf86cd799439011",
+    fullname: "John Doe",
+    email: "john@example.com",
+    phone: null,
+    service: "examaxis",
+    emailInfo: {
+      isVerified: true,
+      verificationToken: null,
+      verificationExpires: null,
+      pendingEmail: null,
+      provider: null,
+    },
+    phoneInfo: null,
+    passwordInfo: null,
+    mfaInfo: null,
+    lockoutInfo: {
+      isLocked: false,
+      lockedUntil: null,
+      failedAttemptCount: 0,
+    },
+    profileImage: null,
+    isActive: true,
+    lastLoginAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  return { ...defaultUser, ...overrides };
+};
+
+const createMockCredential = (overrides: Partial<any> = {}): any => ({
+  id: "607f1f77bcf86cd799439022",
+  userId: "507f1f77bcf86cd799439011",
+  credentialId: "cred-abc",
+  publicKey: Buffer.from([1, 2, 3]),
+  counter: 5,
+  transports: ["internal"],
+  deviceType: "multiDevice",
+  backedUp: true,
+  name: null,
+  lastUsedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  user: createMockUser(),
+  ...overrides,
+});
+
+const authenticationResponse: any = {
+  id: "cred-abc",
+  rawId: "cred-abc",
+  type: "public-key",
+  response: {},
+  clientExtensionResults: {},
+};
+
+// Record a challenge as if the options endpoint had issued it
+const issueChallenge = (
+  challenge: string,
+  purpose: "webauthn_registration" | "webauthn_authentication"
+) =>
+  getKeyValueStore().set(
+    `webauthn-challenge:${hashData(challenge)}`,
+    purpose,
+    new Date(Date.now() + 60_000)
+  );
+
+describe("PasskeyService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setKeyValueStore(createMemoryKeyValueStore());
+  });
+
+  describe("createPasskeyRegistrationOptions", () => {
+    it("should exclude existing credentials and sign the challenge", async () => {
+      const mockUser = createMockUser();
+      mockedPrisma.credential.findMany.mockResolvedValue([
+        { credentialId: "cred-old", transports: ["usb"] },
+      ]);
+      mockedWebAuthn.generateRegistrationOptions.mockResolvedValue({
+        challenge: "reg-challenge",
+      } as any);
+      mockedJwtHelper.generateWebAuthnChallengeToken.mockReturnValue(
+        "challenge-token"
+      );
+
+      const result =
+        await PasskeyService.createPasskeyRegistrationOptions(mockUser);
+
+      expect(mockedWebAuthn.generateRegistrationOptions).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userName: "john@example.com",
+          excludeCredentials: [{ id: "cred-old", transports: ["usb"] }],
+        })
+      );
+      expect(
+        mockedJwtHelper.generateWebAuthnChallengeToken
+      ).toHaveBeenCalledWith({
+        challenge: "reg-challenge",
+        service: "examaxis",
+        purpose: "webauthn_registration",
+        userId: mockUser.id,
+      });
+      expect(result.challengeToken).toBe("challenge-token");
+      await expect(
+        getKeyValueStore().get(
+          `webauthn-challenge:${hashData("reg-challenge")}`
+        )
+      ).resolves.toBe("webauthn_registration");
+    });
+  });
+
+  describe("registerPasskey", () => {
+    const registrationResponse: any = { id: "cred-new" };
+
+    beforeEach(async () => {
+      mockedJwtHelper.verifyWebAuthnChallengeToken.mockReturnValue({
+        challenge: "reg-challenge",
+        service: "examaxis",
+        purpose: "webauthn_registration",
+        userId: "507f1f77bcf86cd799439011",
+      });
+      await issueChallenge("reg-challenge", "webauthn_registration");
+    });
+
+    it("should store a verified credential", async () => {
+      const mockUser = createMockUser();
+      mockedWebAuthn.verifyRegistrationResponse.mockResolvedValue({
+        verified: true,
+        registrationInfo: {
+          credential: {
+            id: "cred-new",
+            publicKey: new Uint8Array([9, 9]),
+            counter: 0,
+            transports: ["hybrid"],
+          },
+          credentialDeviceType: "singleDevice",
+          credentialBackedUp: false,
+        },
+      } as any);
+      mockedPrisma.credential.findUnique.mockResolvedValue(null);
+      mockedPrisma.credential.create.mockResolvedValue({ id: "new-id" });
+
+      const result = await PasskeyService.registerPasskey(
+        mockUser,
+        registrationResponse,
+        "challenge-token",
+        "Laptop"
+      );
+
+      expect(mockedPrisma.credential.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            userId: mockUser.id,
+            credentialId: "cred-new",
+            counter: 0,
+            transports: ["hybrid"],
+            deviceType: "singleDevice",
+            backedUp: false,
+            name: "Laptop",
+          }),
+        })
+      );
+      expect(result).toEqual({ id: "new-id" });
+    });
+
+    it("should reject a challenge issued to another user", async () => {
+      const mockUser = createMockUser({ id: "other-user" });
+
+      await expect(
+        PasskeyService.registerPasskey(
+          mockUser,
+          registrationResponse,
+          "challenge-token"
+        )
+      ).rejects.toMatchObject({ code: 403 });
+      expect(mockedWebAuthn.verifyRegistrationResponse).not.toHaveBeenCalled();
+    });
+
+    it("should turn verifier errors into a client error", async () => {
+      mockedWebAuthn.verifyRegistrationResponse.mockRejectedValue(
+        new Error("Unexpected registration response origin")
+      );
+
+      await expect(
+        PasskeyService.registerPasskey(
+          createMockUser(),
+          registrationResponse,
+          "challenge-token"
+        )
+      ).rejects.toMatchObject({
+        message: "Passkey verification failed",
+        code: 400,
+      });
+      expect(mockedPrisma.credential.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("createPasskeyLoginOptions", () => {
+    beforeEach(() => {
+      mockedWebAuthn.generateAuthenticationOptions.mockResolvedValue({
+        challenge: "auth-challenge",
+      } as any);
+      mockedJwtHelper.generateWebAuthnChallengeToken.mockReturnValue(
+        "challenge-token"
+      );
+    });
+
+    it("should require user verification for passwordless logins", async () => {
+      await PasskeyService.createPasskeyLoginOptions("examaxis");
+
+      expect(mockedWebAuthn.generateAuthenticationOptions).toHaveBeenCalledWith(
+        expect.objectContaining({
+          allowCredentials: [],
+          userVerification: "required",
+        })
+      );
+      expect(
+        mockedJwtHelper.generateWebAuthnChallengeToken
+      ).toHaveBeenCalledWith({
+        challenge: "auth-challenge",
+        service: "examaxis",
+        purpose: "webauthn_authentication",
+      });
+    });
+
+    it("should restrict an MFA challenge to the user's passkeys", async () => {
+      mockedJwtHelper.verifyMfaChallengeToken.mockReturnValue({
+        userId: "507f1f77bcf86cd799439011",
+        service: "examaxis",
+        purpose: "mfa_challenge",
+      });
+      mockedPrisma.credential.findMany.mockResolvedValue([
+        { credentialId: "cred-abc", transports: ["internal"] },
+      ]);
+
+      await PasskeyService.createPasskeyLoginOptions("examaxis", "mfa-token");
+
+      expect(mockedWebAuthn.generateAuthenticationOptions).toHaveBeenCalledWith(
+        expect.objectContaining({
+          allowCredentials: [{ id: "cred-abc", transports: ["internal"] }],
+        })
+      );
+      expect(
+        mockedJwtHelper.generateWebAuthnChallengeToken
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: "507f1f77bcf86cd799439011" })
+      );
+    });
+
+    it("should reject an MFA challenge when the user has no passkeys", async () => {
+      mockedJwtHelper.verifyMfaChallengeToken.mockReturnValue({
+        userId: "507f1f77bcf86cd799439011",
+        service: "examaxis",
+        purpose: "mfa_challenge",
+      });
+      mockedPrisma.credential.findMany.mockResolvedValue([]);
+
+      await expect(
+        PasskeyService.createPasskeyLoginOptions("examaxis", "mfa-token")
+      ).rejects.toMatchObject({ code: 400 });
+    });
+  });
+
+  describe("authenticateWithPasskey", () => {
+    beforeEach(async () => {
+      mockedJwtHelper.verifyWebAuthnChallengeToken.mockReturnValue({
+        challenge: "auth-challenge",
+        service: "examaxis",
+        purpose: "webauthn_authentication",
+      });
+      await issueChallenge("auth-challenge", "webauthn_authentication");
+    });
+
+    it("should authenticate and advance the sign counter", async () => {
+      const credential = createMockCredential();
+      mockedPrisma.credential.findUnique.mockResolvedValue(credential);
+      mockedWebAuthn.verifyAuthenticationResponse.mockResolvedValue({
+        verified: true,
+        authenticationInfo: { newCounter: 6 },
+      } as any);
+
+      const result = await PasskeyService.authenticateWithPasskey(
+        authenticationResponse,
+        "challenge-token",
+        "examaxis"
+      );
+
+      expect(mockedWebAuthn.verifyAuthenticationResponse).toHaveBeenCalledWith(
+        expect.objectContaining({
+          expectedChallenge: "auth-challenge",
+          requireUserVerification: true,
+        })
+      );
+      expect(mockedPrisma.credential.update).toHaveBeenCalledWith({
+        where: { id: credential.id },
+        data: { counter: 6, lastUsedAt: expect.any(Date) },
+      });
+      expect(mockedUserService.recordSuccessfulLogin).toHaveBeenCalledWith(
+        credential.userId
+      );
+      expect(result).toBe(credential.user);
+    });
+
+    it("should reject a sign counter that did not increase", async () => {
+      mockedPrisma.credential.findUnique.mockResolvedValue(
+        createMockCredential()
+      );
+      mockedWebAuthn.verifyAuthenticationResponse.mockResolvedValue({
+        verified: true,
+        authenticationInfo: { newCounter: 5 },
+      } as any);
+
+      await expect(
+        PasskeyService.authenticateWithPasskey(
+          authenticationResponse,
+          "challenge-token",
+          "examaxis"
+        )
+      ).rejects.toMatchObject({ code: 401 });
+      expect(mockedPrisma.credential.update).not.toHaveBeenCalled();
+    });
+
+    it("should accept authenticators that do not implement counters", async () => {
+      mockedPrisma.credential.findUnique.mockResolvedValue(
+        createMockCredential({ counter: 0 })
+      );
+      mockedWebAuthn.verifyAuthenticationResponse.mockResolvedValue({
+        verified: true,
+        authenticationInfo: { newCounter: 0 },
+      } as any);
+
+      await expect(
+        PasskeyService.authenticateWithPasskey(
+          authenticationResponse,
+          "challenge-token",
+          "examaxis"
+        )
+      ).resolves.toBeDefined();
+    });
+
+    it("should reject a challenge that was already answered", async () => {
+      mockedPrisma.credential.findUnique.mockResolvedValue(
+        createMockCredential({ counter: 0 })
+      );
+      mockedWebAuthn.verifyAuthenticationResponse.mockResolvedValue({
+        verified: true,
+        authenticationInfo: { newCounter: 0 },
+      } as any);
+
+      await PasskeyService.authenticateWithPasskey(
+        authenticationResponse,
+        "challenge-token",
+        "examaxis"
+      );
+
+      await expect(
+        PasskeyService.authenticateWithPasskey(
+          authenticationResponse,
+          "challenge-token",
+          "examaxis"
+        )
+      ).rejects.toMatchObject({
+        message: "Passkey challenge expired or already used",
+        code: 400,
+      });
+      expect(mockedUserService.recordSuccessfulLogin).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject unknown credentials", async () => {
+      mockedPrisma.credential.findUnique.mockResolvedValue(null);
+
+      await expect(
+        PasskeyService.authenticateWithPasskey(
+          authenticationResponse,
+          "challenge-token",
+          "examaxis"
+        )
+      ).rejects.toMatchObject({ message: "Passkey not recognized", code: 401 });
+    });
+
+    it("should reject a passkey from a different user than the MFA challenge", async () => {
+      mockedJwtHelper.verifyWebAuthnChallengeToken.mockReturnValue({
+        challenge: "auth-challenge",
+        service: "examaxis",
+        purpose: "webauthn_authentication",
+        userId: "another-user",
+      });
+      mockedPrisma.credential.findUnique.mockResolvedValue(
+        createMockCredential()
+      );
+
+      await expect(
+        PasskeyService.authenticateWithPasskey(
+          authenticationResponse,
+          "challenge-token",
+          "examaxis"
+        )
+      ).rejects.toMatchObject({ code: 401 });
+      expect(
+        mockedWebAuthn.verifyAuthenticationResponse
+      ).not.toHaveBeenCalled();
+    });
+
+    it("should reject locked accounts", async () => {
+      mockedPrisma.credential.findUnique.mockResolvedValue(
+        createMockCredential({
+          user: createMockUser({
+            lockoutInfo: {
+              isLocked: true,
+              lockedUntil: new Date(Date.now() + 60_000),
+              failedAttemptCount: 5,
+            },
+          }),
+        })
+      );
+
+      await expect(
+        PasskeyService.authenticateWithPasskey(
+          authenticationResponse,
+          "challenge-token",
+          "examaxis"
+        )
+      ).rejects.toMatchObject({ code: 423 });
+    });
+  });
+
+  describe("deleteUserPasskey", () => {
+    it("should only delete passkeys owned by the user", async () => {
+      mockedPrisma.credential.deleteMany.mockResolvedValue({ count: 1 });
+
+      await PasskeyService.deleteUserPasskey("user-id", "passkey-id");
+
+      expect(mockedPrisma.credential.deleteMany).toHaveBeenCalledWith({
+        where: { id: "passkey-id", userId: "user-id" },
+      });
+    });
+
+    it("should return 404 when the passkey does not exist", async () => {
+      mockedPrisma.credential.deleteMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        PasskeyService.deleteUserPasskey("user-id", "passkey-id")
+      ).rejects.toMatchObject({ code: 404 });
+    });
+  });
+});
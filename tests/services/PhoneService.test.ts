@@ -0,0 +1,269 @@
+import * as PhoneService from "../../src/services/PhoneService";
+import * as SmsService from "../../src/services/SmsService";
+import * as CryptoUtils from "../../src/utils/crypto";
+import { prisma } from "../../src/config/prisma";
+import { hashData } from "../../src/utils/crypto";
+
+// Mock dependencies
+jest.mock("../../src/config/prisma", () => ({
+  prisma: {
+    user: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+jest.mock("../../src/services/SmsService");
+
+const mockedPrisma = {
+  user: {
+    findFirst: prisma.user.findFirst as jest.MockedFunction<any>,
+    update: prisma.user.update as jest.MockedFunction<any>,
+  },
+};
+const mockedSmsService = SmsService as jest.Mocked<typeof SmsService>;
+
+// Helper function to create clean mock user objects with only real fields
+const createMockUser = (overrides: Partial<any> = {}): any => {
+  const defaultUser = {
+    id: "507f1f77bcf86cd799439011",
+    fullname: "John Doe",
+    email: "john@example.com",
+    phone: null,
+    service: "examaxis",
+    emailInfo: {
+      isVerified: true,
+      verificationToken: null,
+      verificationExpires: null,
+      pendingEmail: null,
+      provider: null,
+    },
+    phoneInfo: null,
+    passwordInfo: {
+      hash: "hashedpassword",
+      resetToken: null,
+      resetExpires: null,
+    },
+    mfaInfo: null,
+    lockoutInfo: {
+      isLocked: false,
+      lockedUntil: null,
+      failedAttemptCount: 0,
+    },
+    profileImage: null,
+    isActive: true,
+    lastLoginAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  return { ...defaultUser, ...overrides };
+};
+
+const pendingPhoneInfo = (overrides: Partial<any> = {}) => ({
+  isVerified: true,
+  pendingPhone: "+1987654321",
+  lastOtp: hashData("123456"),
+  otpExpires: new Date(Date.now() + 5 * 60 * 1000),
+  otpSentAt: new Date(Date.now() - 2 * 60 * 1000),
+  otpAttempts: 0,
+  otpLockedUntil: null,
+  ...overrides,
+});
+
+describe("PhoneService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+
+    mockedPrisma.user.findFirst.mockResolvedValue(null);
+    mockedPrisma.user.update.mockImplementation(async ({ data }: any) =>
+      createMockUser(data)
+    );
+    mockedSmsService.sendSms.mockResolvedValue();
+  });
+
+  describe("startPhoneVerification", () => {
+    it("should stage the new number and send an OTP", async () => {
+      jest.spyOn(CryptoUtils, "generateNumericCode").mockReturnValue("654321");
+      const mockUser = createMockUser({
+        phone: "+1234567890",
+        phoneInfo: { isVerified: true },
+      });
+
+      await PhoneService.startPhoneVerification(mockUser, "+1987654321");
+
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: {
+          phoneInfo: {
+            isVerified: true,
+            pendingPhone: "+1987654321",
+            lastOtp: hashData("654321"),
+            otpExpires: expect.any(Date),
+            otpSentAt: expect.any(Date),
+            otpAttempts: 0,
+            otpLockedUntil: null,
+          },
+        },
+      });
+      expect(mockedSmsService.sendSms).toHaveBeenCalledWith(
+        "+1987654321",
+        expect.stringContaining("654321")
+      );
+    });
+
+    it("should reject a number verified by another account", async () => {
+      mockedPrisma.user.findFirst.mockResolvedValue(
+        createMockUser({
+          id: "other-user",
+          phone: "+1987654321",
+          phoneInfo: { isVerified: true },
+        })
+      );
+
+      await expect(
+        PhoneService.startPhoneVerification(createMockUser(), "+1987654321")
+      ).rejects.toMatchObject({ code: 409 });
+      expect(mockedSmsService.sendSms).not.toHaveBeenCalled();
+    });
+
+    it("should enforce the resend cooldown", async () => {
+      const mockUser = createMockUser({
+        phoneInfo: pendingPhoneInfo({ otpSentAt: new Date() }),
+      });
+
+      await expect(
+        PhoneService.startPhoneVerification(mockUser, "+1555555555")
+      ).rejects.toMatchObject({ code: 429 });
+      expect(mockedSmsService.sendSms).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("resendPhoneOtp", () => {
+    it("should resend to the unverified registration number", async () => {
+      const mockUser = createMockUser({
+        phone: "+1234567890",
+        phoneInfo: { isVerified: false },
+      });
+
+      await PhoneService.resendPhoneOtp(mockUser);
+
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            phoneInfo: expect.objectContaining({ pendingPhone: null }),
+          },
+        })
+      );
+      expect(mockedSmsService.sendSms).toHaveBeenCalledWith(
+        "+1234567890",
+        expect.any(String)
+      );
+    });
+
+    it("should reject when nothing awaits verification", async () => {
+      const mockUser = createMockUser({
+        phone: "+1234567890",
+        phoneInfo: { isVerified: true },
+      });
+
+      await expect(PhoneService.resendPhoneOtp(mockUser)).rejects.toMatchObject(
+        { code: 400 }
+      );
+    });
+
+    it("should reject while verification is locked", async () => {
+      const mockUser = createMockUser({
+        phoneInfo: pendingPhoneInfo({
+          otpLockedUntil: new Date(Date.now() + 60 * 1000),
+        }),
+      });
+
+      await expect(PhoneService.resendPhoneOtp(mockUser)).rejects.toMatchObject(
+        { code: 429 }
+      );
+    });
+  });
+
+  describe("verifyPhoneOtp", () => {
+    it("should apply the pending number and mark it verified", async () => {
+      const mockUser = createMockUser({
+        phone: "+1234567890",
+        phoneInfo: pendingPhoneInfo(),
+      });
+
+      await PhoneService.verifyPhoneOtp(mockUser, "123456");
+
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: {
+          phone: "+1987654321",
+          phoneInfo: {
+            isVerified: true,
+            pendingPhone: null,
+            lastOtp: null,
+            otpExpires: null,
+            otpSentAt: null,
+            otpAttempts: 0,
+            otpLockedUntil: null,
+          },
+        },
+      });
+    });
+
+    it("should count a wrong code as a failed attempt", async () => {
+      const mockUser = createMockUser({ phoneInfo: pendingPhoneInfo() });
+
+      await expect(
+        PhoneService.verifyPhoneOtp(mockUser, "000000")
+      ).rejects.toMatchObject({
+        message: "Invalid verification code",
+        code: 400,
+      });
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: {
+          phoneInfo: expect.objectContaining({
+            otpAttempts: 1,
+            lastOtp: hashData("123456"),
+          }),
+        },
+      });
+    });
+
+    it("should invalidate the OTP and lock after too many attempts", async () => {
+      const mockUser = createMockUser({
+        phoneInfo: pendingPhoneInfo({ otpAttempts: 4 }),
+      });
+
+      await expect(
+        PhoneService.verifyPhoneOtp(mockUser, "000000")
+      ).rejects.toMatchObject({ code: 429 });
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: {
+          phoneInfo: expect.objectContaining({
+            otpAttempts: 5,
+            lastOtp: null,
+            otpExpires: null,
+            otpLockedUntil: expect.any(Date),
+          }),
+        },
+      });
+    });
+
+    it("should reject an expired code", async () => {
+      const mockUser = createMockUser({
+        phoneInfo: pendingPhoneInfo({
+          otpExpires: new Date(Date.now() - 1000),
+        }),
+      });
+
+      await expect(
+        PhoneService.verifyPhoneOtp(mockUser, "123456")
+      ).rejects.toThrow("Verification code has expired");
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+});
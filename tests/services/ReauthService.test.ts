@@ -0,0 +1,133 @@
+import { reauthenticateUser } from "../../src/services/ReauthService";
+import { recordFailedCheck } from "../../src/services/UserService";
+import { verifyUserSecondFactor } from "../../src/services/MfaService";
+import { comparePassword, isAccountLocked } from "../../src/helpers/user";
+
+// Mock dependencies
+jest.mock("../../src/services/UserService");
+jest.mock("../../src/services/MfaService");
+jest.mock("../../src/helpers/user");
+
+const mockComparePassword = comparePassword as jest.MockedFunction<
+  typeof comparePassword
+>;
+const mockIsAccountLocked = isAccountLocked as jest.MockedFunction<
+  typeof isAccountLocked
+>;
+const mockRecordFailedCheck = recordFailedCheck as jest.MockedFunction<
+  typeof recordFailedCheck
+>;
+const mockVerifyUserSecondFactor =
+  verifyUserSecondFactor as jest.MockedFunction<typeof verifyUserSecondFactor>;
+
+const createMockUser = (overrides: Partial<any> = {}): any => ({
+  id: "507f1f77bcf86cd799439011",
+  email: "john@example.com",
+  service: "examaxis",
+  passwordInfo: { hash: "hashedpassword" },
+  mfaInfo: { isEnabled: false },
+  ...overrides,
+});
+
+describe("ReauthService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockIsAccountLocked.mockReturnValue(false);
+    mockComparePassword.mockResolvedValue(true);
+    mockVerifyUserSecondFactor.mockResolvedValue();
+  });
+
+  describe("reauthenticateUser", () => {
+    it("should confirm the password", async () => {
+      const acr = await reauthenticateUser(createMockUser(), {
+        password: "Password123!",
+      });
+
+      expect(mockComparePassword).toHaveBeenCalledWith(
+        "hashedpassword",
+        "Password123!"
+      );
+      expect(acr).toBe("pwd");
+    });
+
+    it("should require the password of accounts that have one", async () => {
+      await expect(
+        reauthenticateUser(createMockUser(), {})
+      ).rejects.toMatchObject({
+        code: 403,
+        reason: "current_password_required",
+      });
+    });
+
+    it("should reject a wrong password and count the attempt", async () => {
+      const user = createMockUser();
+      const client = { ipAddress: "127.0.0.1", userAgent: "test-agent" };
+      mockComparePassword.mockResolvedValue(false);
+
+      await expect(
+        reauthenticateUser(user, { password: "wrong" }, client)
+      ).rejects.toMatchObject({
+        code: 401,
+        reason: "invalid_current_password",
+      });
+      expect(mockRecordFailedCheck).toHaveBeenCalledWith(user, {
+        ...client,
+        type: "reauthentication",
+        metadata: { method: "password" },
+      });
+    });
+
+    it("should require a code as well when MFA is enabled", async () => {
+      const user = createMockUser({ mfaInfo: { isEnabled: true } });
+
+      await expect(
+        reauthenticateUser(user, { password: "Password123!" })
+      ).rejects.toMatchObject({ code: 403, reason: "mfa_code_required" });
+
+      const acr = await reauthenticateUser(user, {
+        password: "Password123!",
+        code: "123456",
+      });
+
+      expect(mockVerifyUserSecondFactor).toHaveBeenCalledWith(
+        user,
+        { code: "123456" },
+        { type: "reauthentication", metadata: { method: "mfa" } }
+      );
+      expect(acr).toBe("otp");
+    });
+
+    it("should accept a code alone for accounts without a password", async () => {
+      const user = createMockUser({
+        passwordInfo: { hash: null },
+        mfaInfo: { isEnabled: true },
+      });
+
+      const acr = await reauthenticateUser(user, { recoveryCode: "ABCD-1234" });
+
+      expect(mockComparePassword).not.toHaveBeenCalled();
+      expect(acr).toBe("otp");
+    });
+
+    it("should send accounts without a password or MFA to sign in again", async () => {
+      await expect(
+        reauthenticateUser(createMockUser({ passwordInfo: { hash: null } }), {
+          code: "123456",
+        })
+      ).rejects.toMatchObject({
+        code: 403,
+        reason: "reauthentication_required",
+      });
+    });
+
+    it("should reject locked accounts", async () => {
+      mockIsAccountLocked.mockReturnValue(true);
+
+      await expect(
+        reauthenticateUser(createMockUser(), { password: "Password123!" })
+      ).rejects.toMatchObject({ code: 423 });
+      expect(mockComparePassword).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import * as ServiceRegistry from "../../src/services/ServiceRegistry";
+import { prisma } from "../../src/config/prisma";
+
+// Mock dependencies
+jest.mock("../../src/config/prisma", () => ({
+  prisma: {
+    service: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+const mockedFindMany = prisma.service.findMany as jest.MockedFunction<any>;
+
+const createMockService = (overrides: Partial<any> = {}): any => ({
+  id: "507f1f77bcf86cd799439011",
+  slug: "examaxis",
+  name: "ExamAxis",
+  status: "active",
+  redirectUrlPatterns: ["https://examaxis.com/*"],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe("ServiceRegistry", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useRealTimers();
+    ServiceRegistry.clearServiceCache();
+
+    mockedFindMany.mockResolvedValue([
+      createMockService(),
+      createMockService({ slug: "legacy", status: "disabled" }),
+    ]);
+  });
+
+  describe("getService", () => {
+    it("should return a registered service by slug", async () => {
+      const service = await ServiceRegistry.getService("examaxis");
+
+      expect(service).toMatchObject({ slug: "examaxis", name: "ExamAxis" });
+    });
+
+    it("should return null for an unknown slug", async () => {
+      await expect(ServiceRegistry.getService("unknown")).resolves.toBeNull();
+    });
+
+    it("should serve lookups from the cache until it expires", async () => {
+      jest.useFakeTimers({ now: new Date("2025-01-01T00:00:00Z") });
+
+      await ServiceRegistry.getService("examaxis");
+      await ServiceRegistry.getService("unknown");
+      expect(mockedFindMany).toHaveBeenCalledTimes(1);
+
+      jest.setSystemTime(new Date("2025-01-01T00:01:01Z"));
+      await ServiceRegistry.getService("examaxis");
+      expect(mockedFindMany).toHaveBeenCalledTimes(2);
+    });
+
+    it("should share one query between concurrent lookups", async () => {
+      await Promise.all([
+        ServiceRegistry.getService("examaxis"),
+        ServiceRegistry.getService("legacy"),
+      ]);
+
+      expect(mockedFindMany).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("getActiveService", () => {
+    it("should return an active service", async () => {
+      await expect(
+        ServiceRegistry.getActiveService("examaxis")
+      ).resolves.toMatchObject({ slug: "examaxis" });
+    });
+
+    it("should reject a disabled service", async () => {
+      await expect(
+        ServiceRegistry.getActiveService("legacy")
+      ).rejects.toMatchObject({ message: "Invalid service.", code: 400 });
+    });
+
+    it("should reject an unknown service", async () => {
+      await expect(
+        ServiceRegistry.getActiveService("unknown")
+      ).rejects.toMatchObject({ message: "Invalid service.", code: 400 });
+    });
+  });
+
+  describe("getServicePolicy", () => {
+    it("should merge the service overrides over the defaults", async () => {
+      mockedFindMany.mockResolvedValue([
+        createMockService({ policy: { maxLoginAttempts: 3 } }),
+      ]);
+
+      const policy = await ServiceRegistry.getServicePolicy("examaxis");
+
+      expect(policy.maxLoginAttempts).toBe(3);
+      expect(policy.requireEmailVerification).toBe(true);
+    });
+  });
+
+  describe("clearServiceCache", () => {
+    it("should pick up newly registered services", async () => {
+      await expect(ServiceRegistry.getService("newapp")).resolves.toBeNull();
+
+      mockedFindMany.mockResolvedValue([createMockService({ slug: "newapp" })]);
+      ServiceRegistry.clearServiceCache();
+
+      await expect(ServiceRegistry.getService("newapp")).resolves.toMatchObject(
+        { slug: "newapp" }
+      );
+    });
+  });
+});
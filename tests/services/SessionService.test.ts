@@ -1,22 +1,35 @@
 import * as SessionService from "../../src/services/SessionService";
 import * as JwtHelper from "../../src/helpers/jwt";
+import * as ServiceRegistry from "../../src/services/ServiceRegistry";
+import { resolveServicePolicy } from "../../src/helpers/servicePolicy";
 import { config } from "../../src/config/app";
 import { prisma } from "../../src/config/prisma";
+import { hashData } from "../../src/utils/crypto";
+import { recordAuditEvent } from "../../src/services/AuditService";
+import { SESSION_ROTATED_TOKENS_LIMIT } from "../../src/constants/common";
 
 // Mock dependencies
 jest.mock("../../src/config/prisma", () => ({
   prisma: {
     session: {
       create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
       delete: jest.fn(),
       deleteMany: jest.fn(),
     },
   },
 }));
 jest.mock("../../src/helpers/jwt");
+jest.mock("../../src/services/ServiceRegistry");
+jest.mock("../../src/services/AuditService");
 
 const mockedPrisma = prisma as jest.Mocked<typeof prisma>;
 const mockedJwtHelper = JwtHelper as jest.Mocked<typeof JwtHelper>;
+const mockedServiceRegistry = ServiceRegistry as jest.Mocked<
+  typeof ServiceRegistry
+>;
 
 // Helper function to create clean mock user objects with only real fields
 const createMockUser = (overrides: Partial<any> = {}): any => {
@@ -56,6 +69,10 @@ const createMockUser = (overrides: Partial<any> = {}): any => {
 describe("SessionService", () => {
   beforeEach(() => {
     jest.clearAllMocks();
+
+    mockedServiceRegistry.getServicePolicy.mockResolvedValue(
+      resolveServicePolicy(null)
+    );
   });
 
   describe("createSession", () => {
@@ -86,6 +103,7 @@ describe("SessionService", () => {
           refreshToken: expect.any(String), // hashed token
           userAgent: "test-agent",
           ipAddress: "127.0.0.1",
+          acr: null,
           expiresAt: expect.any(Date),
         },
       });
@@ -117,6 +135,7 @@ describe("SessionService", () => {
           refreshToken: expect.any(String),
           userAgent: null,
           ipAddress: null,
+          acr: null,
           expiresAt: expect.any(Date),
         },
       });
@@ -126,40 +145,207 @@ describe("SessionService", () => {
   });
 
   describe("generateTokenPair", () => {
-    it("should generate access token and create session", async () => {
-      const mockUser = createMockUser();
+    it("should generate tokens with the lifetimes of the user's service", async () => {
+      const mockUser = createMockUser({ service: "examaxis" });
       const mockAccessToken = "access-token-123";
       const mockSession = {
-        _id: "session123",
-        refreshToken: "plain-refresh-token",
+        id: "session123",
+        acr: "pwd",
+        createdAt: new Date(),
       } as any;
 
       mockedJwtHelper.generateAccessToken.mockReturnValue(mockAccessToken);
+      mockedServiceRegistry.getServicePolicy.mockResolvedValue({
+        ...resolveServicePolicy(null),
+        accessTokenExpiresIn: "5m",
+        refreshTokenExpiresIn: "1",
+      });
 
       // Mock the createSession function
       const createSessionSpy = jest.spyOn(SessionService, "createSession");
-      createSessionSpy.mockResolvedValue(mockSession);
+      createSessionSpy.mockResolvedValue({
+        session: mockSession,
+        refreshToken: "plain-refresh-token",
+      });
 
       const result = await SessionService.generateTokenPair(
         mockUser,
         "test-agent",
-        "127.0.0.1"
+        "127.0.0.1",
+        "pwd"
       );
 
+      expect(mockedServiceRegistry.getServicePolicy).toHaveBeenCalledWith(
+        "examaxis"
+      );
       expect(mockedJwtHelper.generateAccessToken).toHaveBeenCalledWith(
-        mockUser
+        mockUser,
+        "5m",
+        { authTime: mockSession.createdAt, acr: "pwd" }
       );
       expect(createSessionSpy).toHaveBeenCalledWith(
         mockUser,
         "test-agent",
-        "127.0.0.1"
+        "127.0.0.1",
+        "1",
+        "pwd"
       );
       expect(result).toEqual({
         accessToken: "access-token-123",
         refreshToken: "plain-refresh-token",
+        expiresIn: "5m",
+      });
+    });
+  });
+
+  describe("refreshAccessToken", () => {
+    const mockSession = {
+      id: "session123",
+      userId: "507f1f77bcf86cd799439011",
+      refreshToken: "hashed-token",
+      rotatedTokens: [],
+      ipAddress: "127.0.0.1",
+      userAgent: "test-agent",
+      user: { service: "examaxis" },
+    } as any;
+
+    it("should rotate the refresh token within the session", async () => {
+      const mockUser = createMockUser();
+      (mockedPrisma.session.findFirst as jest.Mock).mockResolvedValue({
+        ...mockSession,
+        user: mockUser,
+      });
+      (mockedPrisma.session.updateMany as jest.Mock).mockResolvedValue({
+        count: 1,
+      });
+      mockedJwtHelper.generateAccessToken.mockReturnValue("access-token-123");
+
+      const result = await SessionService.refreshAccessToken("refresh-token");
+
+      expect(mockedPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: "session123", refreshToken: hashData("refresh-token") },
+        data: {
+          refreshToken: hashData(result.refreshToken),
+          rotatedTokens: [hashData("refresh-token")],
+          expiresAt: expect.any(Date),
+          lastUsedAt: expect.any(Date),
+        },
+      });
+      expect(result).toEqual({
+        accessToken: "access-token-123",
+        refreshToken: expect.stringMatching(/^[a-f0-9]{80}$/),
         expiresIn: config.jwt.expiresIn,
       });
     });
+
+    it("should keep only the most recent rotated tokens", async () => {
+      const rotatedTokens = Array.from(
+        { length: SESSION_ROTATED_TOKENS_LIMIT },
+        (_, i) => `rotated-${i}`
+      );
+      (mockedPrisma.session.findFirst as jest.Mock).mockResolvedValue({
+        ...mockSession,
+        rotatedTokens,
+        user: createMockUser(),
+      });
+      (mockedPrisma.session.updateMany as jest.Mock).mockResolvedValue({
+        count: 1,
+      });
+
+      await SessionService.refreshAccessToken("refresh-token");
+
+      expect(mockedPrisma.session.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            rotatedTokens: [
+              ...rotatedTokens.slice(1),
+              hashData("refresh-token"),
+            ],
+          }),
+        })
+      );
+    });
+
+    it("should keep the sign-in time and method of the session", async () => {
+      const mockUser = createMockUser();
+      const signedInAt = new Date(Date.now() - 60 * 60 * 1000);
+      (mockedPrisma.session.findFirst as jest.Mock).mockResolvedValue({
+        ...mockSession,
+        acr: "otp",
+        createdAt: signedInAt,
+        user: mockUser,
+      });
+      (mockedPrisma.session.updateMany as jest.Mock).mockResolvedValue({
+        count: 1,
+      });
+
+      await SessionService.refreshAccessToken("refresh-token");
+
+      expect(mockedJwtHelper.generateAccessToken).toHaveBeenCalledWith(
+        mockUser,
+        config.jwt.expiresIn,
+        { authTime: signedInAt, acr: "otp" }
+      );
+    });
+
+    it("should revoke the family when a rotated token is replayed", async () => {
+      (mockedPrisma.session.findFirst as jest.Mock)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(mockSession);
+
+      await expect(
+        SessionService.refreshAccessToken("stolen-token", {
+          ipAddress: "10.0.0.9",
+        })
+      ).rejects.toMatchObject({
+        message: "Refresh token reuse detected. Please sign in again.",
+        code: 401,
+      });
+
+      expect(mockedPrisma.session.findFirst).toHaveBeenLastCalledWith({
+        where: { rotatedTokens: { has: hashData("stolen-token") } },
+        include: { user: { select: { service: true } } },
+      });
+      expect(mockedPrisma.session.deleteMany).toHaveBeenCalledWith({
+        where: { id: "session123" },
+      });
+      expect(recordAuditEvent).toHaveBeenCalledWith({
+        type: "refresh_token_reuse",
+        outcome: "failure",
+        service: "examaxis",
+        userId: "507f1f77bcf86cd799439011",
+        ipAddress: "10.0.0.9",
+        metadata: { sessionId: "session123" },
+      });
+    });
+
+    it("should treat a concurrent rotation as reuse", async () => {
+      (mockedPrisma.session.findFirst as jest.Mock)
+        .mockResolvedValueOnce({ ...mockSession, user: createMockUser() })
+        .mockResolvedValueOnce(mockSession);
+      (mockedPrisma.session.updateMany as jest.Mock).mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(
+        SessionService.refreshAccessToken("refresh-token")
+      ).rejects.toMatchObject({ code: 401 });
+      expect(mockedPrisma.session.deleteMany).toHaveBeenCalledWith({
+        where: { id: "session123" },
+      });
+    });
+
+    it("should reject unknown tokens without revoking anything", async () => {
+      (mockedPrisma.session.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        SessionService.refreshAccessToken("unknown-token")
+      ).rejects.toMatchObject({
+        message: "Invalid or expired refresh token",
+        code: 401,
+      });
+      expect(mockedPrisma.session.deleteMany).not.toHaveBeenCalled();
+    });
   });
 
   describe("revokeRefreshToken", () => {
@@ -182,6 +368,105 @@ describe("SessionService", () => {
     });
   });
 
+  describe("listUserSessions", () => {
+    it("should describe each device and flag the current session", async () => {
+      const lastUsedAt = new Date();
+      (mockedPrisma.session.findMany as jest.Mock).mockResolvedValue([
+        {
+          id: "session123",
+          userAgent:
+            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36",
+          ipAddress: "127.0.0.1",
+          createdAt: lastUsedAt,
+          lastUsedAt,
+          expiresAt: lastUsedAt,
+        },
+        {
+          id: "session456",
+          userAgent: null,
+          ipAddress: null,
+          createdAt: lastUsedAt,
+          lastUsedAt,
+          expiresAt: lastUsedAt,
+        },
+      ]);
+
+      const result = await SessionService.listUserSessions(
+        "507f1f77bcf86cd799439011",
+        "session123"
+      );
+
+      expect(mockedPrisma.session.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: "507f1f77bcf86cd799439011",
+            expiresAt: { gt: expect.any(Date) },
+          },
+          orderBy: { lastUsedAt: "desc" },
+        })
+      );
+      expect(result[0]).toMatchObject({
+        id: "session123",
+        device: "desktop",
+        browser: "Chrome 129.0.0.0",
+        os: "Windows 10",
+        ipAddress: "127.0.0.1",
+        current: true,
+      });
+      expect(result[0]).not.toHaveProperty("userAgent");
+      expect(result[1]).toMatchObject({
+        device: "unknown",
+        browser: null,
+        os: null,
+        current: false,
+      });
+    });
+
+    it("should report createdAt for sessions that predate activity tracking", async () => {
+      const createdAt = new Date("2025-01-01T00:00:00Z");
+      (mockedPrisma.session.findMany as jest.Mock).mockResolvedValue([
+        {
+          id: "session123",
+          userAgent: null,
+          ipAddress: null,
+          createdAt,
+          lastUsedAt: null,
+          expiresAt: new Date(),
+        },
+      ]);
+
+      const result = await SessionService.listUserSessions(
+        "507f1f77bcf86cd799439011"
+      );
+
+      expect(result[0]?.lastUsedAt).toBe(createdAt);
+    });
+  });
+
+  describe("revokeUserSession", () => {
+    it("should only revoke sessions owned by the user", async () => {
+      (mockedPrisma.session.deleteMany as jest.Mock).mockResolvedValue({
+        count: 1,
+      });
+
+      await SessionService.revokeUserSession("user-id", "session123");
+
+      expect(mockedPrisma.session.deleteMany).toHaveBeenCalledWith({
+        where: { id: "session123", userId: "user-id" },
+      });
+    });
+
+    it("should return 404 when the session does not exist", async () => {
+      (mockedPrisma.session.deleteMany as jest.Mock).mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(
+        SessionService.revokeUserSession("user-id", "session123")
+      ).rejects.toMatchObject({ code: 404 });
+    });
+  });
+
   describe("revokeAllUserSessions", () => {
     it("should revoke all user sessions successfully", async () => {
       const validUserId = "507f1f77bcf86cd799439011"; // Valid MongoDB ObjectId
@@ -197,5 +482,36 @@ describe("SessionService", () => {
         },
       });
     });
+
+    it("should keep the current session when asked to", async () => {
+      await SessionService.revokeAllUserSessions("user123", "session123");
+
+      expect(mockedPrisma.session.deleteMany).toHaveBeenCalledWith({
+        where: { userId: "user123", id: { not: "session123" } },
+      });
+    });
+  });
+
+  describe("generateElevatedAccessToken", () => {
+    it("should issue a short-lived token authenticated now", async () => {
+      const mockUser = createMockUser();
+      mockedJwtHelper.generateAccessToken.mockReturnValue("elevated-token");
+
+      const result = SessionService.generateElevatedAccessToken(
+        mockUser,
+        "pwd"
+      );
+
+      expect(mockedJwtHelper.generateAccessToken).toHaveBeenCalledWith(
+        mockUser,
+        "300s",
+        { authTime: expect.any(Date), acr: "pwd" }
+      );
+      expect(result).toEqual({
+        accessToken: "elevated-token",
+        expiresIn: "300s",
+        acr: "pwd",
+      });
+    });
   });
 });
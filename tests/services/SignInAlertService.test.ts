@@ -0,0 +1,200 @@
+import {
+  notifyNewSignIn,
+  reportSignIn,
+} from "../../src/services/SignInAlertService";
+import {
+  createMemoryKeyValueStore,
+  setKeyValueStore,
+} from "../../src/services/KeyValueStore";
+import { sendEmail } from "../../src/services/EmailService";
+import { generateNewSignInTemplate } from "../../src/templates/emailTemplates";
+import { prisma } from "../../src/config/prisma";
+import { logger } from "../../src/helpers/logger";
+
+// Mock dependencies
+jest.mock("../../src/config/prisma", () => ({
+  prisma: {
+    session: {
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+jest.mock("../../src/services/EmailService");
+jest.mock("../../src/templates/emailTemplates");
+jest.mock("../../src/helpers/logger");
+
+const mockedPrisma = {
+  session: {
+    findUnique: prisma.session.findUnique as jest.MockedFunction<any>,
+    count: prisma.session.count as jest.MockedFunction<any>,
+    deleteMany: prisma.session.deleteMany as jest.MockedFunction<any>,
+  },
+  user: {
+    findUnique: prisma.user.findUnique as jest.MockedFunction<any>,
+    update: prisma.user.update as jest.MockedFunction<any>,
+  },
+};
+const mockSendEmail = sendEmail as jest.MockedFunction<typeof sendEmail>;
+const mockGenerateTemplate = generateNewSignInTemplate as jest.MockedFunction<
+  typeof generateNewSignInTemplate
+>;
+
+const user: any = {
+  id: "507f1f77bcf86cd799439011",
+  email: "john@example.com",
+  fullname: "John Doe",
+  service: "examaxis",
+  passwordInfo: { hash: "hashedpassword", resetRequired: false },
+};
+
+const session = {
+  id: "session123",
+  userId: user.id,
+  userAgent:
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+  ipAddress: "203.0.113.7",
+  createdAt: new Date(),
+};
+
+// Counts of the user's other sessions, then of those on the same device
+const mockSessionCounts = (previous: number, known: number) =>
+  mockedPrisma.session.count
+    .mockResolvedValueOnce(previous)
+    .mockResolvedValueOnce(known);
+
+// Sign in from a new device and return the emailed report token
+const sendReportEmail = async (): Promise<string> => {
+  mockSessionCounts(1, 0);
+  await notifyNewSignIn(user, "refresh-token", null);
+  return mockGenerateTemplate.mock.calls[0]![2];
+};
+
+describe("SignInAlertService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setKeyValueStore(createMemoryKeyValueStore());
+
+    mockedPrisma.session.findUnique.mockResolvedValue(session);
+    mockedPrisma.user.findUnique.mockResolvedValue(user);
+    mockGenerateTemplate.mockResolvedValue({
+      subject: "New sign-in to your account",
+      html: "<p>New sign-in</p>",
+      text: "New sign-in",
+    });
+  });
+
+  describe("notifyNewSignIn", () => {
+    it("should not email on the first sign-in", async () => {
+      mockSessionCounts(0, 0);
+
+      await notifyNewSignIn(user, "refresh-token", null);
+
+      expect(mockSendEmail).not.toHaveBeenCalled();
+    });
+
+    it("should not email for a known device", async () => {
+      mockSessionCounts(2, 1);
+
+      await notifyNewSignIn(user, "refresh-token", "Lagos, NG");
+
+      expect(mockSendEmail).not.toHaveBeenCalled();
+    });
+
+    it("should email the sign-in details for a new device", async () => {
+      mockSessionCounts(1, 0);
+
+      await notifyNewSignIn(user, "refresh-token", "Lagos, NG");
+
+      expect(mockGenerateTemplate).toHaveBeenCalledWith(
+        "John Doe",
+        expect.objectContaining({
+          device: expect.stringContaining("Chrome"),
+          location: "Lagos, NG",
+          ipAddress: "203.0.113.7",
+        }),
+        expect.any(String),
+        7
+      );
+
+      await new Promise(process.nextTick);
+      expect(mockSendEmail).toHaveBeenCalledWith(
+        "john@example.com",
+        expect.objectContaining({ subject: "New sign-in to your account" })
+      );
+    });
+
+    it("should not wait for the email to be sent", async () => {
+      mockSendEmail.mockReturnValueOnce(new Promise(() => {}));
+      const token = await sendReportEmail();
+
+      // The report link works before the email has gone out
+      await expect(reportSignIn(token)).resolves.toMatchObject({
+        sessionId: "session123",
+      });
+    });
+
+    it("should log instead of throwing when the email fails", async () => {
+      mockSessionCounts(1, 0);
+      mockSendEmail.mockRejectedValueOnce(new Error("SMTP down"));
+
+      await expect(
+        notifyNewSignIn(user, "refresh-token", null)
+      ).resolves.toBeUndefined();
+
+      await new Promise(process.nextTick);
+      expect(logger.error).toHaveBeenCalledWith(
+        "Failed to send new sign-in email",
+        expect.objectContaining({ userId: user.id })
+      );
+    });
+  });
+
+  describe("reportSignIn", () => {
+    it("should revoke the session and require a password reset", async () => {
+      const token = await sendReportEmail();
+
+      const record = await reportSignIn(token);
+
+      expect(record).toEqual({
+        userId: user.id,
+        sessionId: "session123",
+        service: "examaxis",
+      });
+      expect(mockedPrisma.session.deleteMany).toHaveBeenCalledWith({
+        where: { id: "session123", userId: user.id },
+      });
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: user.id },
+        data: {
+          passwordInfo: { hash: "hashedpassword", resetRequired: true },
+        },
+      });
+    });
+
+    it("should not require a reset for accounts without a password", async () => {
+      const token = await sendReportEmail();
+      mockedPrisma.user.findUnique.mockResolvedValue({
+        ...user,
+        passwordInfo: { hash: null },
+      });
+
+      await reportSignIn(token);
+
+      expect(mockedPrisma.session.deleteMany).toHaveBeenCalled();
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it("should accept a report link only once", async () => {
+      const token = await sendReportEmail();
+      await reportSignIn(token);
+
+      await expect(reportSignIn(token)).rejects.toMatchObject({ code: 400 });
+    });
+  });
+});
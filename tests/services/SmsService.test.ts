@@ -0,0 +1,63 @@
+import { appendFile, mkdir } from "fs/promises";
+import {
+  createFileSmsSender,
+  sendSms,
+  setSmsSender,
+} from "../../src/services/SmsService";
+
+jest.mock("fs/promises");
+
+const mockedAppendFile = appendFile as jest.MockedFunction<typeof appendFile>;
+const mockedMkdir = mkdir as jest.MockedFunction<typeof mkdir>;
+
+describe("SmsService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("sendSms", () => {
+    it("should deliver the message through the active sender", async () => {
+      const sender = { send: jest.fn().mockResolvedValue(undefined) };
+      setSmsSender(sender);
+
+      await sendSms("+1234567890", "Your code is 123456");
+
+      expect(sender.send).toHaveBeenCalledWith(
+        "+1234567890",
+        "Your code is 123456"
+      );
+    });
+
+    it("should throw error when sending fails", async () => {
+      setSmsSender({
+        send: jest.fn().mockRejectedValue(new Error("Provider error")),
+      });
+
+      await expect(sendSms("+1234567890", "Hello")).rejects.toThrow(
+        "Failed to send SMS"
+      );
+    });
+  });
+
+  describe("createFileSmsSender", () => {
+    it("should append the message to the output file", async () => {
+      mockedMkdir.mockResolvedValue(undefined);
+      mockedAppendFile.mockResolvedValue();
+
+      await createFileSmsSender("logs/sms.log").send(
+        "+1234567890",
+        "Your code is 123456"
+      );
+
+      expect(mockedMkdir).toHaveBeenCalledWith(
+        expect.stringContaining("logs"),
+        { recursive: true }
+      );
+      expect(mockedAppendFile).toHaveBeenCalledWith(
+        expect.stringContaining("sms.log"),
+        expect.stringContaining("To: +1234567890 | Your code is 123456"),
+        "utf-8"
+      );
+    });
+  });
+});
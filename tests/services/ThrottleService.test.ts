@@ -0,0 +1,246 @@
+import {
+  consumeThrottle,
+  resetThrottle,
+} from "../../src/services/ThrottleService";
+import {
+  createMemoryKeyValueStore,
+  setKeyValueStore,
+} from "../../src/services/KeyValueStore";
+import {
+  THROTTLE_ACTIONS,
+  THROTTLE_BACKOFF,
+  THROTTLE_POLICIES,
+} from "../../src/constants/common";
+import { config } from "../../src/config/app";
+
+const signinLimits = THROTTLE_POLICIES[THROTTLE_ACTIONS.SIGNIN].limits;
+const signinWindowMs =
+  THROTTLE_POLICIES[THROTTLE_ACTIONS.SIGNIN].windowSeconds * 1000;
+
+const subject = {
+  service: "examaxis",
+  ipAddress: "10.0.0.1",
+  email: "john@example.com",
+};
+
+// Sign in a number of times, ignoring the outcome
+const signinAttempts = async (count: number, from = subject) => {
+  for (let attempt = 0; attempt < count; attempt++) {
+    await consumeThrottle(THROTTLE_ACTIONS.SIGNIN, from).catch(() => {});
+  }
+};
+
+describe("ThrottleService", () => {
+  beforeEach(() => {
+    // Starts on a window boundary, so each test sees whole windows
+    jest.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+    setKeyValueStore(createMemoryKeyValueStore());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("consumeThrottle", () => {
+    it("should allow attempts up to the IP+email limit", async () => {
+      for (let attempt = 0; attempt < signinLimits["ip-email"]; attempt++) {
+        await expect(
+          consumeThrottle(THROTTLE_ACTIONS.SIGNIN, subject)
+        ).resolves.toBeUndefined();
+      }
+    });
+
+    it("should block the next attempt with the base backoff", async () => {
+      await signinAttempts(signinLimits["ip-email"]);
+
+      await expect(
+        consumeThrottle(THROTTLE_ACTIONS.SIGNIN, subject)
+      ).rejects.toMatchObject({
+        code: 429,
+        retryAfter: THROTTLE_BACKOFF.BASE_SECONDS,
+      });
+    });
+
+    it("should double the backoff when the limit is hit again", async () => {
+      await signinAttempts(signinLimits["ip-email"] + 1);
+      jest.advanceTimersByTime(THROTTLE_BACKOFF.BASE_SECONDS * 1000);
+
+      await expect(
+        consumeThrottle(THROTTLE_ACTIONS.SIGNIN, subject)
+      ).rejects.toMatchObject({
+        retryAfter: THROTTLE_BACKOFF.BASE_SECONDS * 2,
+      });
+    });
+
+    it("should not extend a block with requests made during it", async () => {
+      await signinAttempts(signinLimits["ip-email"] + 1);
+      jest.advanceTimersByTime(10 * 1000);
+
+      await expect(
+        consumeThrottle(THROTTLE_ACTIONS.SIGNIN, subject)
+      ).rejects.toMatchObject({
+        retryAfter: THROTTLE_BACKOFF.BASE_SECONDS - 10,
+      });
+    });
+
+    it("should allow attempts again once old ones leave the window", async () => {
+      await signinAttempts(signinLimits["ip-email"] + 1);
+      jest.advanceTimersByTime(signinWindowMs * 2);
+
+      await expect(
+        consumeThrottle(THROTTLE_ACTIONS.SIGNIN, subject)
+      ).resolves.toBeUndefined();
+    });
+
+    it("should keep counting attempts across a window boundary", async () => {
+      jest.advanceTimersByTime(signinWindowMs - 1000);
+      await signinAttempts(signinLimits["ip-email"]);
+      jest.advanceTimersByTime(2000);
+
+      await expect(
+        consumeThrottle(THROTTLE_ACTIONS.SIGNIN, subject)
+      ).rejects.toMatchObject({ code: 429 });
+    });
+
+    it("should let old attempts fade out as the window slides", async () => {
+      await signinAttempts(signinLimits["ip-email"]);
+      jest.advanceTimersByTime(signinWindowMs * 1.5);
+
+      // Half of the previous window's attempts still count
+      const allowed = Math.floor(signinLimits["ip-email"] / 2);
+      for (let attempt = 0; attempt < allowed; attempt++) {
+        await expect(
+          consumeThrottle(THROTTLE_ACTIONS.SIGNIN, subject)
+        ).resolves.toBeUndefined();
+      }
+      await expect(
+        consumeThrottle(THROTTLE_ACTIONS.SIGNIN, subject)
+      ).rejects.toMatchObject({ code: 429 });
+    });
+
+    it("should leave the account usable from another IP", async () => {
+      await signinAttempts(signinLimits["ip-email"] + 1);
+
+      await expect(
+        consumeThrottle(THROTTLE_ACTIONS.SIGNIN, {
+          ...subject,
+          ipAddress: "10.0.0.2",
+        })
+      ).resolves.toBeUndefined();
+    });
+
+    it("should not let other IPs lock the account out", async () => {
+      for (let ip = 0; ip < signinLimits.ip; ip++) {
+        await signinAttempts(signinLimits["ip-email"] + 1, {
+          ...subject,
+          ipAddress: `10.1.0.${ip}`,
+        });
+      }
+
+      await expect(
+        consumeThrottle(THROTTLE_ACTIONS.SIGNIN, subject)
+      ).resolves.toBeUndefined();
+    });
+
+    it("should block an IP trying many accounts", async () => {
+      for (let attempt = 0; attempt < signinLimits.ip; attempt++) {
+        await consumeThrottle(THROTTLE_ACTIONS.SIGNIN, {
+          ...subject,
+          email: `user${attempt}@example.com`,
+        });
+      }
+
+      await expect(
+        consumeThrottle(THROTTLE_ACTIONS.SIGNIN, {
+          ...subject,
+          email: "other@example.com",
+        })
+      ).rejects.toMatchObject({ code: 429 });
+    });
+
+    it("should only count the IP when the action has no email limits", async () => {
+      const limit =
+        THROTTLE_POLICIES[THROTTLE_ACTIONS.RESET_PASSWORD].limits.ip;
+      for (let attempt = 0; attempt < limit; attempt++) {
+        await consumeThrottle(THROTTLE_ACTIONS.RESET_PASSWORD, subject);
+      }
+
+      await expect(
+        consumeThrottle(THROTTLE_ACTIONS.RESET_PASSWORD, subject)
+      ).rejects.toMatchObject({ code: 429 });
+      await expect(
+        consumeThrottle(THROTTLE_ACTIONS.RESET_PASSWORD, {
+          ...subject,
+          ipAddress: "10.0.0.2",
+        })
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("registration", () => {
+    const maxAttempts = config.security.maxRegistrationAttempts;
+
+    // Register a number of times from the subject's email and IP
+    const registerAttempts = async (count: number, from = subject) => {
+      for (let attempt = 0; attempt < count; attempt++) {
+        await consumeThrottle(THROTTLE_ACTIONS.REGISTER, from);
+      }
+    };
+
+    it("should allow attempts up to the configured limit", async () => {
+      await expect(registerAttempts(maxAttempts)).resolves.toBeUndefined();
+    });
+
+    it("should reject further attempts for the same email", async () => {
+      await registerAttempts(maxAttempts);
+
+      await expect(
+        consumeThrottle(THROTTLE_ACTIONS.REGISTER, {
+          ...subject,
+          ipAddress: "10.0.0.2",
+          email: "JOHN@example.com",
+        })
+      ).rejects.toMatchObject({
+        code: 429,
+        retryAfter: THROTTLE_BACKOFF.BASE_SECONDS,
+      });
+    });
+
+    it("should reject further attempts from the same IP address", async () => {
+      for (let attempt = 0; attempt < maxAttempts; attempt++) {
+        await registerAttempts(1, {
+          ...subject,
+          email: `user${attempt}@example.com`,
+        });
+      }
+
+      await expect(
+        registerAttempts(1, { ...subject, email: "other@example.com" })
+      ).rejects.toMatchObject({ code: 429 });
+    });
+
+    it("should count emails separately per service", async () => {
+      await registerAttempts(maxAttempts);
+
+      await expect(
+        registerAttempts(1, {
+          ...subject,
+          service: "other-service",
+          ipAddress: "10.0.0.2",
+        })
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("resetThrottle", () => {
+    it("should clear the account counters after a successful sign-in", async () => {
+      await signinAttempts(signinLimits["ip-email"] + 1);
+
+      await resetThrottle(THROTTLE_ACTIONS.SIGNIN, subject);
+
+      await expect(
+        consumeThrottle(THROTTLE_ACTIONS.SIGNIN, subject)
+      ).resolves.toBeUndefined();
+    });
+  });
+});
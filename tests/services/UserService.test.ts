@@ -1,7 +1,16 @@
 import * as UserService from "../../src/services/UserService";
+import * as MfaService from "../../src/services/MfaService";
+import * as MfaHelpers from "../../src/helpers/mfa";
 import * as EmailService from "../../src/services/EmailService";
 import * as UserHelpers from "../../src/helpers/user";
+import * as JwtHelper from "../../src/helpers/jwt";
+import * as PhoneService from "../../src/services/PhoneService";
+import * as SessionService from "../../src/services/SessionService";
+import * as ServiceRegistry from "../../src/services/ServiceRegistry";
+import * as AuditService from "../../src/services/AuditService";
+import { resolveServicePolicy } from "../../src/helpers/servicePolicy";
 import { prisma } from "../../src/config/prisma";
+import { config } from "../../src/config/app";
 
 // Mock dependencies
 jest.mock("../../src/config/prisma", () => ({
@@ -11,13 +20,18 @@ jest.mock("../../src/config/prisma", () => ({
       findUnique: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
     },
     $runCommandRaw: jest.fn(),
   },
 }));
 jest.mock("../../src/services/EmailService");
 jest.mock("../../src/services/SessionService");
+jest.mock("../../src/services/PhoneService");
+jest.mock("../../src/services/ServiceRegistry");
+jest.mock("../../src/services/AuditService");
 jest.mock("../../src/helpers/user");
+jest.mock("../../src/helpers/jwt");
 
 const mockedPrisma = {
   user: {
@@ -25,11 +39,21 @@ const mockedPrisma = {
     findUnique: prisma.user.findUnique as jest.MockedFunction<any>,
     create: prisma.user.create as jest.MockedFunction<any>,
     update: prisma.user.update as jest.MockedFunction<any>,
+    updateMany: prisma.user.updateMany as jest.MockedFunction<any>,
   },
   $runCommandRaw: prisma.$runCommandRaw as jest.MockedFunction<any>,
 };
 const mockedEmailService = EmailService as jest.Mocked<typeof EmailService>;
 const mockedUserHelpers = UserHelpers as jest.Mocked<typeof UserHelpers>;
+const mockedJwtHelper = JwtHelper as jest.Mocked<typeof JwtHelper>;
+const mockedPhoneService = PhoneService as jest.Mocked<typeof PhoneService>;
+const mockedSessionService = SessionService as jest.Mocked<
+  typeof SessionService
+>;
+const mockedServiceRegistry = ServiceRegistry as jest.Mocked<
+  typeof ServiceRegistry
+>;
+const mockedAuditService = AuditService as jest.Mocked<typeof AuditService>;
 
 // Helper function to create clean mock user objects with only real fields
 const createMockUser = (overrides: Partial<any> = {}): any => {
@@ -56,6 +80,7 @@ const createMockUser = (overrides: Partial<any> = {}): any => {
       isLocked: false,
       lockedUntil: null,
       failedAttemptCount: 0,
+      lockCount: 0,
     },
     profileImage: null,
     isActive: true,
@@ -71,6 +96,10 @@ describe("UserService", () => {
   beforeEach(() => {
     jest.clearAllMocks();
 
+    mockedServiceRegistry.getServicePolicy.mockResolvedValue(
+      resolveServicePolicy(null)
+    );
+
     // Default helper mocks
     mockedUserHelpers.hashPassword.mockResolvedValue("hashedpassword");
     mockedUserHelpers.generateVerificationToken.mockReturnValue({
@@ -337,6 +366,27 @@ describe("UserService", () => {
       });
     });
 
+    it("should allow unverified emails when the service policy permits it", async () => {
+      mockedServiceRegistry.getServicePolicy.mockResolvedValue({
+        ...resolveServicePolicy(null),
+        requireEmailVerification: false,
+      });
+      mockedPrisma.user.findFirst.mockResolvedValue(createMockUser());
+      mockedUserHelpers.comparePassword.mockResolvedValue(true);
+      mockedPrisma.user.update.mockResolvedValue({} as any);
+
+      const result = await UserService.authenticateUser(
+        "john@example.com",
+        "password123",
+        "examaxis"
+      );
+
+      expect(mockedServiceRegistry.getServicePolicy).toHaveBeenCalledWith(
+        "examaxis"
+      );
+      expect(result.isValid).toBe(true);
+    });
+
     it("should throw 423 when account is locked", async () => {
       const mockUser = createMockUser({
         emailInfo: {
@@ -369,6 +419,36 @@ describe("UserService", () => {
       });
     });
 
+    it("should throw 403 when a password reset is required", async () => {
+      const mockUser = createMockUser({
+        emailInfo: {
+          isVerified: true,
+          verificationToken: null,
+          verificationExpires: null,
+          pendingEmail: null,
+          provider: "local",
+        },
+        passwordInfo: {
+          hash: "hashedpassword",
+          resetToken: null,
+          resetExpires: null,
+          resetRequired: true,
+        },
+      });
+
+      mockedPrisma.user.findFirst.mockResolvedValue(mockUser);
+      mockedUserHelpers.isAccountLocked.mockReturnValue(false);
+
+      await expect(
+        UserService.authenticateUser(
+          "john@example.com",
+          "password123",
+          "examaxis"
+        )
+      ).rejects.toMatchObject({ code: 403 });
+      expect(mockedUserHelpers.comparePassword).not.toHaveBeenCalled();
+    });
+
     it("should authenticate successfully and update lastLogin", async () => {
       const mockUser = createMockUser({
         emailInfo: {
@@ -398,6 +478,90 @@ describe("UserService", () => {
       expect(result).toEqual({ user: mockUser, isValid: true });
       expect(mockedPrisma.user.update).toHaveBeenCalled();
     });
+
+    it("should return an MFA challenge token when MFA is enabled", async () => {
+      const mockUser = createMockUser({
+        emailInfo: {
+          isVerified: true,
+          verificationToken: null,
+          verificationExpires: null,
+          pendingEmail: null,
+          provider: "local",
+        },
+        mfaInfo: { isEnabled: true, secret: "encrypted-secret" },
+      });
+
+      mockedPrisma.user.findFirst.mockResolvedValue(mockUser);
+      mockedUserHelpers.comparePassword.mockResolvedValue(true);
+      mockedJwtHelper.generateMfaChallengeToken.mockReturnValue("mfa-token");
+
+      const result = await UserService.authenticateUser(
+        "john@example.com",
+        "password123",
+        "examaxis"
+      );
+
+      expect(result).toEqual({
+        user: mockUser,
+        isValid: true,
+        mfaToken: "mfa-token",
+      });
+      // Login is not complete until the second factor is verified
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it("should keep counting wrong MFA codes across new sign-ins", async () => {
+      const { maxLoginAttempts } = resolveServicePolicy(null);
+      let storedUser = createMockUser({
+        emailInfo: {
+          isVerified: true,
+          verificationToken: null,
+          verificationExpires: null,
+          pendingEmail: null,
+          provider: "local",
+        },
+        mfaInfo: { isEnabled: true, secret: "encrypted-secret" },
+      });
+
+      mockedPrisma.user.findFirst.mockImplementation(async () => storedUser);
+      mockedPrisma.user.update.mockImplementation(async ({ data }: any) => {
+        storedUser = { ...storedUser, ...data };
+        return storedUser;
+      });
+      mockedUserHelpers.comparePassword.mockResolvedValue(true);
+      mockedJwtHelper.generateMfaChallengeToken.mockReturnValue("mfa-token");
+      mockedJwtHelper.verifyMfaChallengeToken.mockReturnValue({
+        userId: storedUser.id,
+        service: storedUser.service,
+        purpose: "mfa_challenge",
+      });
+      jest.spyOn(MfaHelpers, "decryptMfaSecret").mockReturnValue("secret");
+      jest.spyOn(MfaHelpers, "verifyTotpCode").mockReturnValue(null);
+
+      const guessCode = () =>
+        MfaService.verifyMfaChallenge("mfa-token", { code: "000000" });
+
+      await UserService.authenticateUser(
+        "john@example.com",
+        "password123",
+        "examaxis"
+      );
+      for (let i = 1; i < maxLoginAttempts; i++) {
+        await expect(guessCode()).rejects.toMatchObject({ code: 401 });
+      }
+
+      // Signing in again with the password must not forgive the guesses
+      const result = await UserService.authenticateUser(
+        "john@example.com",
+        "password123",
+        "examaxis"
+      );
+      expect(result.mfaToken).toBe("mfa-token");
+
+      await expect(guessCode()).rejects.toMatchObject({ code: 401 });
+      expect(storedUser.lockoutInfo.isLocked).toBe(true);
+      await expect(guessCode()).rejects.toMatchObject({ code: 423 });
+    });
   });
 
   describe("incrementFailedLoginAttempts", () => {
@@ -424,6 +588,7 @@ describe("UserService", () => {
           isLocked: false,
           lockedUntil: null,
           failedAttemptCount: 4,
+          lockCount: 0,
         },
       });
       mockedPrisma.user.update.mockResolvedValue({} as any);
@@ -437,151 +602,452 @@ describe("UserService", () => {
             isLocked: true,
             lockedUntil: expect.any(Date),
             failedAttemptCount: 5,
+            lockCount: 1,
+            unlockToken: "hashed-email-token",
+            unlockExpires: expect.any(Date),
           },
         },
       });
     });
-  });
-
-  describe("sendPasswordResetEmail", () => {
-    it("should send password reset email for existing user", async () => {
-      const mockUser = createMockUser();
 
-      mockedPrisma.user.findFirst.mockResolvedValue(mockUser);
-      mockedPrisma.user.update.mockResolvedValue(mockUser);
-      mockedEmailService.sendEmail.mockResolvedValue();
+    it("should start a fresh window of attempts once a lock has expired", async () => {
+      const mockUser = createMockUser({
+        lockoutInfo: {
+          isLocked: true,
+          lockedUntil: new Date(Date.now() - 1000),
+          failedAttemptCount: 5,
+          lockCount: 1,
+          unlockToken: "hashed-unlock-token",
+          unlockExpires: new Date(Date.now() - 1000),
+        },
+      });
+      mockedPrisma.user.update.mockResolvedValue({} as any);
 
-      await UserService.sendPasswordResetEmail(
-        "john@example.com",
-        "https://example.com/reset",
-        "examaxis"
-      );
+      const locked = await UserService.incrementFailedLoginAttempts(mockUser);
 
+      expect(locked).toBe(false);
       expect(mockedPrisma.user.update).toHaveBeenCalledWith({
         where: { id: mockUser.id },
         data: {
-          passwordInfo: {
-            hash: mockUser.passwordInfo.hash,
-            resetToken: expect.any(String),
-            resetExpires: expect.any(Date),
+          lockoutInfo: {
+            isLocked: false,
+            lockedUntil: null,
+            failedAttemptCount: 1,
+            lockCount: 1,
+            unlockToken: null,
+            unlockExpires: null,
           },
         },
       });
-      expect(mockedEmailService.sendEmail).toHaveBeenCalledWith(
-        "john@example.com",
-        expect.objectContaining({
-          subject: expect.stringContaining("Password Reset"),
-          html: expect.stringContaining("Password Reset Request"),
-          text: expect.stringContaining("Password Reset Request"),
-        })
-      );
+      expect(mockedEmailService.sendEmail).not.toHaveBeenCalled();
     });
 
-    it("should handle non-existent user silently", async () => {
-      mockedPrisma.user.findFirst.mockResolvedValue(null);
+    it("should double the lock duration for each earlier lock", async () => {
+      const policy = resolveServicePolicy(null);
+      const mockUser = createMockUser({
+        lockoutInfo: {
+          isLocked: false,
+          lockedUntil: null,
+          failedAttemptCount: 4,
+          lockCount: 2,
+        },
+      });
+      mockedPrisma.user.update.mockResolvedValue({} as any);
 
-      await expect(
-        UserService.sendPasswordResetEmail(
-          "nonexistent@example.com",
-          "https://example.com/reset",
-          "examaxis"
-        )
-      ).resolves.toBeUndefined();
+      await UserService.incrementFailedLoginAttempts(mockUser, policy);
 
-      expect(mockedEmailService.sendEmail).not.toHaveBeenCalled();
+      const { lockoutInfo } = mockedPrisma.user.update.mock.calls[0][0].data;
+      expect(lockoutInfo.lockCount).toBe(3);
+      expect(mockedUserHelpers.generateVerificationToken).toHaveBeenCalledWith(
+        policy.loginLockTime * 4
+      );
+      expect(lockoutInfo.lockedUntil.getTime()).toBeGreaterThan(
+        Date.now() + (policy.loginLockTime * 4 - 1) * 60 * 1000
+      );
     });
-  });
 
-  describe("resetPasswordWithToken", () => {
-    it("should reset password successfully for verified user", async () => {
+    it("should cap the lock duration", async () => {
       const mockUser = createMockUser({
-        emailInfo: {
-          emailAddress: "john@example.com",
-          isVerified: true,
-          verificationToken: null,
-          verificationExpires: null,
-          pendingEmail: null,
-          provider: "local",
-        },
-        passwordInfo: {
-          hash: "oldhashedpassword",
-          resetToken: "hashed-reset-token",
-          resetExpires: new Date(Date.now() + 3600000),
+        lockoutInfo: {
+          isLocked: false,
+          lockedUntil: null,
+          failedAttemptCount: 4,
+          lockCount: 30,
         },
       });
+      mockedPrisma.user.update.mockResolvedValue({} as any);
 
-      mockedPrisma.$runCommandRaw.mockResolvedValue({
-        cursor: {
-          firstBatch: [
-            {
-              ...mockUser,
-              _id: { $oid: mockUser.id },
-            },
-          ],
+      await UserService.incrementFailedLoginAttempts(mockUser);
+
+      expect(mockedUserHelpers.generateVerificationToken).toHaveBeenCalledWith(
+        1440
+      );
+    });
+
+    it("should email the owner an unlock link when the account locks", async () => {
+      const mockUser = createMockUser({
+        lockoutInfo: {
+          isLocked: false,
+          lockedUntil: null,
+          failedAttemptCount: 4,
+          lockCount: 0,
         },
       });
       mockedPrisma.user.update.mockResolvedValue({} as any);
-      mockedUserHelpers.hashPassword.mockResolvedValue("newhashedpassword");
 
-      await UserService.resetPasswordWithToken("reset-token", "newpassword123");
+      await UserService.incrementFailedLoginAttempts(
+        mockUser,
+        undefined,
+        "https://example.com/unlock"
+      );
 
-      expect(mockedUserHelpers.hashPassword).toHaveBeenCalledWith(
-        "newpassword123"
+      expect(mockedEmailService.sendEmail).toHaveBeenCalledWith(
+        "john@example.com",
+        expect.objectContaining({
+          subject: expect.stringContaining("Account Locked"),
+          html: expect.stringContaining("email-token-123"),
+        })
       );
-      expect(mockedPrisma.user.update).toHaveBeenCalled();
     });
 
-    it("should unlock account when resetting password for locked account", async () => {
+    it("should link to the unlock page when no redirect URL was sent", async () => {
       const mockUser = createMockUser({
-        emailInfo: {
-          emailAddress: "john@example.com",
-          isVerified: true,
-          verificationToken: null,
-          verificationExpires: null,
-          pendingEmail: null,
-          provider: "local",
-        },
-        passwordInfo: {
-          hash: "oldhashedpassword",
-          resetToken: "hashed-reset-token",
-          resetExpires: new Date(Date.now() + 3600000),
-        },
         lockoutInfo: {
-          isLocked: true,
-          lockedUntil: new Date(Date.now() + 3600000),
-          failedAttemptCount: 5,
+          isLocked: false,
+          lockedUntil: null,
+          failedAttemptCount: 4,
+          lockCount: 0,
         },
       });
+      mockedPrisma.user.update.mockResolvedValue({} as any);
 
-      mockedPrisma.$runCommandRaw.mockResolvedValue({
-        cursor: {
-          firstBatch: [
-            {
-              ...mockUser,
-              _id: { $oid: mockUser.id },
-            },
-          ],
+      await UserService.incrementFailedLoginAttempts(mockUser);
+
+      expect(mockedEmailService.sendEmail).toHaveBeenCalledWith(
+        "john@example.com",
+        expect.objectContaining({
+          html: expect.stringContaining(
+            `${config.app.url}/api/auth/unlock-account?token`
+          ),
+        })
+      );
+    });
+
+    it("should keep the lock when the lockout email fails", async () => {
+      const mockUser = createMockUser({
+        lockoutInfo: {
+          isLocked: false,
+          lockedUntil: null,
+          failedAttemptCount: 4,
+          lockCount: 0,
         },
       });
       mockedPrisma.user.update.mockResolvedValue({} as any);
-      mockedUserHelpers.hashPassword.mockResolvedValue("newhashedpassword");
-
-      await UserService.resetPasswordWithToken("reset-token", "newpassword123");
+      mockedEmailService.sendEmail.mockRejectedValueOnce(
+        new Error("SMTP down")
+      );
 
-      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
-        where: { id: mockUser.id },
-        data: expect.objectContaining({
-          passwordInfo: expect.objectContaining({
-            hash: "newhashedpassword",
-          }),
-          lockoutInfo: expect.objectContaining({
-            isLocked: false,
-          }),
-        }),
-      });
+      await expect(
+        UserService.incrementFailedLoginAttempts(mockUser)
+      ).resolves.toBe(true);
+      expect(mockedPrisma.user.update).toHaveBeenCalled();
     });
 
-    it("should verify email when resetting password for unverified account", async () => {
+    it("should apply the lockout limits of the user's service", async () => {
+      mockedServiceRegistry.getServicePolicy.mockResolvedValue({
+        ...resolveServicePolicy(null),
+        maxLoginAttempts: 2,
+        loginLockTime: 60,
+      });
+      const mockUser = createMockUser({
+        lockoutInfo: {
+          isLocked: false,
+          lockedUntil: null,
+          failedAttemptCount: 1,
+          lockCount: 0,
+        },
+      });
+      mockedPrisma.user.update.mockResolvedValue({} as any);
+
+      await UserService.incrementFailedLoginAttempts(mockUser);
+
+      const { lockoutInfo } = mockedPrisma.user.update.mock.calls[0][0].data;
+      expect(lockoutInfo).toMatchObject({
+        isLocked: true,
+        failedAttemptCount: 2,
+      });
+      expect(lockoutInfo.lockedUntil.getTime()).toBeGreaterThan(
+        Date.now() + 59 * 60 * 1000
+      );
+    });
+  });
+
+  describe("recordFailedCheck", () => {
+    const audit = {
+      type: "reauthentication" as const,
+      ipAddress: "127.0.0.1",
+      userAgent: "test-agent",
+      metadata: { method: "password" },
+    };
+
+    it("should count the attempt and audit the failure", async () => {
+      const mockUser = createMockUser();
+      mockedPrisma.user.update.mockResolvedValue({} as any);
+
+      await UserService.recordFailedCheck(mockUser, audit);
+
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: {
+          lockoutInfo: expect.objectContaining({ failedAttemptCount: 1 }),
+        },
+      });
+      expect(mockedAuditService.recordAuditEvent).toHaveBeenCalledTimes(1);
+      expect(mockedAuditService.recordAuditEvent).toHaveBeenCalledWith({
+        ...audit,
+        outcome: "failure",
+        userId: mockUser.id,
+        service: "examaxis",
+      });
+    });
+
+    it("should audit the lockout the attempt causes", async () => {
+      const mockUser = createMockUser({
+        lockoutInfo: {
+          isLocked: false,
+          lockedUntil: null,
+          failedAttemptCount: 4,
+          lockCount: 0,
+        },
+      });
+      mockedPrisma.user.update.mockResolvedValue({} as any);
+
+      await UserService.recordFailedCheck(mockUser, audit);
+
+      expect(mockedAuditService.recordAuditEvent).toHaveBeenLastCalledWith({
+        type: "account_locked",
+        outcome: "success",
+        userId: mockUser.id,
+        service: "examaxis",
+        ipAddress: "127.0.0.1",
+        userAgent: "test-agent",
+      });
+    });
+  });
+
+  describe("unlockAccountWithToken", () => {
+    const lockedUser = () =>
+      createMockUser({
+        lockoutInfo: {
+          isLocked: true,
+          lockedUntil: new Date(Date.now() + 3600000),
+          failedAttemptCount: 5,
+          lockCount: 1,
+          unlockToken: "hashed-unlock-token",
+          unlockExpires: new Date(Date.now() + 3600000),
+        },
+      });
+
+    it("should reset the lockout state with a valid token", async () => {
+      const mockUser = lockedUser();
+      mockedPrisma.$runCommandRaw.mockResolvedValue({
+        cursor: { firstBatch: [{ ...mockUser, _id: { $oid: mockUser.id } }] },
+      });
+      mockedPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await UserService.unlockAccountWithToken("unlock-token");
+
+      expect(result).toEqual({ userId: mockUser.id, service: "examaxis" });
+      expect(mockedPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: mockUser.id,
+          lockoutInfo: { is: { unlockToken: expect.any(String) } },
+        },
+        data: {
+          lockoutInfo: {
+            failedAttemptCount: 0,
+            isLocked: false,
+            lockedUntil: null,
+            lockCount: 0,
+            unlockToken: null,
+            unlockExpires: null,
+          },
+        },
+      });
+    });
+
+    it("should reject an invalid or expired token", async () => {
+      mockedPrisma.$runCommandRaw.mockResolvedValue({
+        cursor: { firstBatch: [] },
+      });
+
+      await expect(
+        UserService.unlockAccountWithToken("unlock-token")
+      ).rejects.toMatchObject({
+        message: "Invalid or expired unlock link",
+        code: 400,
+      });
+      expect(mockedPrisma.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should reject a token that was already used", async () => {
+      const mockUser = lockedUser();
+      mockedPrisma.$runCommandRaw.mockResolvedValue({
+        cursor: { firstBatch: [{ ...mockUser, _id: { $oid: mockUser.id } }] },
+      });
+      mockedPrisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        UserService.unlockAccountWithToken("unlock-token")
+      ).rejects.toMatchObject({ code: 400 });
+    });
+  });
+
+  describe("sendPasswordResetEmail", () => {
+    it("should send password reset email for existing user", async () => {
+      const mockUser = createMockUser();
+
+      mockedPrisma.user.findFirst.mockResolvedValue(mockUser);
+      mockedPrisma.user.update.mockResolvedValue(mockUser);
+      mockedEmailService.sendEmail.mockResolvedValue();
+
+      await UserService.sendPasswordResetEmail(
+        "john@example.com",
+        "https://example.com/reset",
+        "examaxis"
+      );
+
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: {
+          passwordInfo: {
+            hash: mockUser.passwordInfo.hash,
+            resetToken: expect.any(String),
+            resetExpires: expect.any(Date),
+          },
+        },
+      });
+      expect(mockedEmailService.sendEmail).toHaveBeenCalledWith(
+        "john@example.com",
+        expect.objectContaining({
+          subject: expect.stringContaining("Password Reset"),
+          html: expect.stringContaining("Password Reset Request"),
+          text: expect.stringContaining("Password Reset Request"),
+        })
+      );
+    });
+
+    it("should handle non-existent user silently", async () => {
+      mockedPrisma.user.findFirst.mockResolvedValue(null);
+
+      await expect(
+        UserService.sendPasswordResetEmail(
+          "nonexistent@example.com",
+          "https://example.com/reset",
+          "examaxis"
+        )
+      ).resolves.toBeUndefined();
+
+      expect(mockedEmailService.sendEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("resetPasswordWithToken", () => {
+    it("should reset password successfully for verified user", async () => {
+      const mockUser = createMockUser({
+        emailInfo: {
+          emailAddress: "john@example.com",
+          isVerified: true,
+          verificationToken: null,
+          verificationExpires: null,
+          pendingEmail: null,
+          provider: "local",
+        },
+        passwordInfo: {
+          hash: "oldhashedpassword",
+          resetToken: "hashed-reset-token",
+          resetExpires: new Date(Date.now() + 3600000),
+        },
+      });
+
+      mockedPrisma.$runCommandRaw.mockResolvedValue({
+        cursor: {
+          firstBatch: [
+            {
+              ...mockUser,
+              _id: { $oid: mockUser.id },
+            },
+          ],
+        },
+      });
+      mockedPrisma.user.update.mockResolvedValue({} as any);
+      mockedUserHelpers.hashPassword.mockResolvedValue("newhashedpassword");
+
+      await UserService.resetPasswordWithToken("reset-token", "newpassword123");
+
+      expect(mockedUserHelpers.hashPassword).toHaveBeenCalledWith(
+        "newpassword123"
+      );
+      expect(mockedPrisma.user.update).toHaveBeenCalled();
+      expect(mockedEmailService.sendEmail).toHaveBeenCalledWith(
+        "john@example.com",
+        expect.objectContaining({
+          subject: expect.stringContaining("Password Was Changed"),
+        })
+      );
+    });
+
+    it("should unlock account when resetting password for locked account", async () => {
+      const mockUser = createMockUser({
+        emailInfo: {
+          emailAddress: "john@example.com",
+          isVerified: true,
+          verificationToken: null,
+          verificationExpires: null,
+          pendingEmail: null,
+          provider: "local",
+        },
+        passwordInfo: {
+          hash: "oldhashedpassword",
+          resetToken: "hashed-reset-token",
+          resetExpires: new Date(Date.now() + 3600000),
+        },
+        lockoutInfo: {
+          isLocked: true,
+          lockedUntil: new Date(Date.now() + 3600000),
+          failedAttemptCount: 5,
+        },
+      });
+
+      mockedPrisma.$runCommandRaw.mockResolvedValue({
+        cursor: {
+          firstBatch: [
+            {
+              ...mockUser,
+              _id: { $oid: mockUser.id },
+            },
+          ],
+        },
+      });
+      mockedPrisma.user.update.mockResolvedValue({} as any);
+      mockedUserHelpers.hashPassword.mockResolvedValue("newhashedpassword");
+
+      await UserService.resetPasswordWithToken("reset-token", "newpassword123");
+
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: expect.objectContaining({
+          passwordInfo: expect.objectContaining({
+            hash: "newhashedpassword",
+          }),
+          lockoutInfo: expect.objectContaining({
+            isLocked: false,
+          }),
+        }),
+      });
+    });
+
+    it("should verify email when resetting password for unverified account", async () => {
       const mockUser = createMockUser({
         emailInfo: {
           emailAddress: "john@example.com",
@@ -626,20 +1092,189 @@ describe("UserService", () => {
       });
     });
 
-    it("should throw error for invalid or expired token", async () => {
-      mockedPrisma.$runCommandRaw.mockResolvedValue({
-        cursor: {
-          firstBatch: [],
+    it("should throw error for invalid or expired token", async () => {
+      mockedPrisma.$runCommandRaw.mockResolvedValue({
+        cursor: {
+          firstBatch: [],
+        },
+      });
+
+      await expect(
+        UserService.resetPasswordWithToken("invalid-token", "newpassword123")
+      ).rejects.toThrow("Invalid or expired password reset token");
+    });
+  });
+
+  describe("sendMagicLinkEmail", () => {
+    it("should store a hashed token and email the sign-in link", async () => {
+      const mockUser = createMockUser({
+        emailInfo: { ...createMockUser().emailInfo, isVerified: true },
+      });
+
+      mockedPrisma.user.findFirst.mockResolvedValue(mockUser);
+      mockedPrisma.user.update.mockResolvedValue(mockUser);
+      mockedEmailService.sendEmail.mockResolvedValue();
+
+      await UserService.sendMagicLinkEmail(
+        "john@example.com",
+        "https://example.com/magic",
+        "examaxis"
+      );
+
+      expect(mockedUserHelpers.generateVerificationToken).toHaveBeenCalledWith(
+        15
+      );
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: {
+          magicLinkInfo: {
+            token: "hashed-email-token",
+            expires: expect.any(Date),
+          },
+        },
+      });
+      expect(mockedEmailService.sendEmail).toHaveBeenCalledWith(
+        "john@example.com",
+        expect.objectContaining({
+          subject: expect.stringContaining("Sign-In Link"),
+          html: expect.stringContaining("Your Sign-In Link"),
+        })
+      );
+    });
+
+    it("should ignore unverified accounts silently", async () => {
+      mockedPrisma.user.findFirst.mockResolvedValue(createMockUser());
+
+      await expect(
+        UserService.sendMagicLinkEmail(
+          "john@example.com",
+          "https://example.com/magic",
+          "examaxis"
+        )
+      ).resolves.toBeUndefined();
+
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+      expect(mockedEmailService.sendEmail).not.toHaveBeenCalled();
+    });
+
+    it("should handle non-existent user silently", async () => {
+      mockedPrisma.user.findFirst.mockResolvedValue(null);
+
+      await UserService.sendMagicLinkEmail(
+        "nonexistent@example.com",
+        "https://example.com/magic",
+        "examaxis"
+      );
+
+      expect(mockedEmailService.sendEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("authenticateWithMagicLink", () => {
+    const verifiedUser = () =>
+      createMockUser({
+        emailInfo: { ...createMockUser().emailInfo, isVerified: true },
+      });
+
+    const mockTokenLookup = (user: any) => {
+      mockedPrisma.$runCommandRaw.mockResolvedValue({
+        cursor: { firstBatch: [{ ...user, _id: { $oid: user.id } }] },
+      });
+    };
+
+    it("should consume the token and record the login", async () => {
+      const mockUser = verifiedUser();
+      mockTokenLookup(mockUser);
+      mockedPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+      mockedPrisma.user.findUnique.mockResolvedValue(mockUser);
+
+      const result = await UserService.authenticateWithMagicLink(
+        "magic-token",
+        "examaxis"
+      );
+
+      expect(mockedPrisma.$runCommandRaw).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filter: expect.objectContaining({ service: "examaxis" }),
+        })
+      );
+      expect(mockedPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: mockUser.id,
+          magicLinkInfo: { is: { token: expect.any(String) } },
+        },
+        data: { magicLinkInfo: null },
+      });
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: { lastLoginAt: expect.any(Date) },
+      });
+      expect(result).toEqual({ user: mockUser });
+    });
+
+    it("should reject an invalid or expired token", async () => {
+      mockedPrisma.$runCommandRaw.mockResolvedValue({
+        cursor: { firstBatch: [] },
+      });
+
+      await expect(
+        UserService.authenticateWithMagicLink("bad-token", "examaxis")
+      ).rejects.toMatchObject({
+        message: "Invalid or expired sign-in link",
+        code: 401,
+      });
+    });
+
+    it("should reject a token that was already used", async () => {
+      mockTokenLookup(verifiedUser());
+      mockedPrisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        UserService.authenticateWithMagicLink("magic-token", "examaxis")
+      ).rejects.toMatchObject({ code: 401 });
+      expect(mockedPrisma.user.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should reject locked accounts", async () => {
+      const mockUser = createMockUser({
+        emailInfo: { ...createMockUser().emailInfo, isVerified: true },
+        lockoutInfo: {
+          isLocked: true,
+          lockedUntil: new Date(Date.now() + 60000),
+          failedAttemptCount: 5,
         },
       });
+      mockTokenLookup(mockUser);
+      mockedPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+      mockedPrisma.user.findUnique.mockResolvedValue(mockUser);
 
       await expect(
-        UserService.resetPasswordWithToken("invalid-token", "newpassword123")
-      ).rejects.toThrow("Invalid or expired password reset token");
+        UserService.authenticateWithMagicLink("magic-token", "examaxis")
+      ).rejects.toMatchObject({ code: 423 });
+    });
+
+    it("should require the second factor when MFA is enabled", async () => {
+      const mockUser = { ...verifiedUser(), mfaInfo: { isEnabled: true } };
+      mockTokenLookup(mockUser);
+      mockedPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+      mockedPrisma.user.findUnique.mockResolvedValue(mockUser);
+      mockedJwtHelper.generateMfaChallengeToken.mockReturnValue("mfa-token");
+
+      const result = await UserService.authenticateWithMagicLink(
+        "magic-token",
+        "examaxis"
+      );
+
+      expect(result).toEqual({ user: mockUser, mfaToken: "mfa-token" });
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
     });
   });
 
   describe("updateUserProfile", () => {
+    beforeEach(() => {
+      mockedUserHelpers.comparePassword.mockResolvedValue(true);
+    });
+
     it("should update fullname successfully", async () => {
       const mockUser = createMockUser();
       const updatedUser = createMockUser({ fullname: "Jane Doe" });
@@ -647,9 +1282,13 @@ describe("UserService", () => {
       mockedPrisma.user.findFirst.mockResolvedValue(null); // No conflicts
       mockedPrisma.user.update.mockResolvedValue(updatedUser);
 
-      const result = await UserService.updateUserProfile(mockUser, {
-        fullname: "Jane Doe",
-      });
+      const result = await UserService.updateUserProfile(
+        mockUser,
+        {
+          fullname: "Jane Doe",
+        },
+        "session123"
+      );
 
       expect(mockedPrisma.user.update).toHaveBeenCalledWith({
         where: { id: mockUser.id },
@@ -675,9 +1314,14 @@ describe("UserService", () => {
       mockedPrisma.user.update.mockResolvedValue(updatedUser);
       mockedUserHelpers.hashPassword.mockResolvedValue("newhashed");
 
-      const result = await UserService.updateUserProfile(mockUser, {
-        password: "newpassword123",
-      });
+      const result = await UserService.updateUserProfile(
+        mockUser,
+        {
+          password: "newpassword123",
+          currentPassword: "Password123!",
+        },
+        "session123"
+      );
 
       expect(mockedUserHelpers.hashPassword).toHaveBeenCalledWith(
         "newpassword123"
@@ -698,6 +1342,53 @@ describe("UserService", () => {
       });
     });
 
+    it("should email the owner after a password change", async () => {
+      const mockUser = createMockUser();
+
+      mockedPrisma.user.findFirst.mockResolvedValue(null);
+      mockedPrisma.user.update.mockResolvedValue(mockUser);
+      mockedUserHelpers.hashPassword.mockResolvedValue("newhashed");
+      mockedEmailService.sendEmail.mockResolvedValue();
+
+      await UserService.updateUserProfile(
+        mockUser,
+        {
+          password: "newpassword123",
+          currentPassword: "Password123!",
+        },
+        "session123"
+      );
+
+      expect(mockedEmailService.sendEmail).toHaveBeenCalledWith(
+        "john@example.com",
+        expect.objectContaining({
+          subject: expect.stringContaining("Password Was Changed"),
+        })
+      );
+    });
+
+    it("should keep the new password when the notice fails", async () => {
+      const mockUser = createMockUser();
+
+      mockedPrisma.user.findFirst.mockResolvedValue(null);
+      mockedPrisma.user.update.mockResolvedValue(mockUser);
+      mockedUserHelpers.hashPassword.mockResolvedValue("newhashed");
+      mockedEmailService.sendEmail.mockRejectedValueOnce(
+        new Error("Email service error")
+      );
+
+      const result = await UserService.updateUserProfile(
+        mockUser,
+        {
+          password: "newpassword123",
+          currentPassword: "Password123!",
+        },
+        "session123"
+      );
+
+      expect(result.message).toBe("Password updated successfully");
+    });
+
     it("should update email and send verification", async () => {
       const mockUser = createMockUser({
         emailInfo: {
@@ -714,10 +1405,15 @@ describe("UserService", () => {
       mockedPrisma.user.update.mockResolvedValue(mockUser);
       mockedEmailService.sendEmail.mockResolvedValue();
 
-      const result = await UserService.updateUserProfile(mockUser, {
-        email: "new@example.com",
-        redirectUrl: "https://example.com/verify",
-      });
+      const result = await UserService.updateUserProfile(
+        mockUser,
+        {
+          email: "new@example.com",
+          redirectUrl: "https://example.com/verify",
+          currentPassword: "Password123!",
+        },
+        "session123"
+      );
 
       expect(mockedPrisma.user.update).toHaveBeenCalledWith({
         where: { id: mockUser.id },
@@ -745,6 +1441,32 @@ describe("UserService", () => {
       });
     });
 
+    it("should send an undo link to the old address on email change", async () => {
+      const mockUser = createMockUser();
+
+      mockedPrisma.user.findFirst.mockResolvedValue(null);
+      mockedPrisma.user.update.mockResolvedValue(mockUser);
+      mockedEmailService.sendEmail.mockResolvedValue();
+
+      await UserService.updateUserProfile(
+        mockUser,
+        {
+          email: "new@example.com",
+          redirectUrl: "https://example.com/verify",
+          currentPassword: "Password123!",
+        },
+        "session123"
+      );
+
+      expect(mockedEmailService.sendEmail).toHaveBeenCalledWith(
+        "john@example.com",
+        expect.objectContaining({
+          subject: expect.stringContaining("Email Address Change"),
+          html: expect.stringContaining("/api/auth/email-change/revert"),
+        })
+      );
+    });
+
     it("should not send verification email if email is the same", async () => {
       const mockUser = createMockUser({
         emailInfo: {
@@ -759,9 +1481,13 @@ describe("UserService", () => {
       mockedPrisma.user.findFirst.mockResolvedValue(null);
       mockedPrisma.user.update.mockResolvedValue(mockUser);
 
-      const result = await UserService.updateUserProfile(mockUser, {
-        email: "john@example.com",
-      });
+      const result = await UserService.updateUserProfile(
+        mockUser,
+        {
+          email: "john@example.com",
+        },
+        "session123"
+      );
 
       expect(mockedEmailService.sendEmail).not.toHaveBeenCalled();
       expect(result).toEqual({
@@ -787,10 +1513,15 @@ describe("UserService", () => {
       mockedPrisma.user.findFirst.mockResolvedValue(existingUser);
 
       await expect(
-        UserService.updateUserProfile(mockUser, {
-          email: "taken@example.com",
-          redirectUrl: "https://example.com/verify",
-        })
+        UserService.updateUserProfile(
+          mockUser,
+          {
+            email: "taken@example.com",
+            redirectUrl: "https://example.com/verify",
+            currentPassword: "Password123!",
+          },
+          "session123"
+        )
       ).rejects.toThrow("Email is already taken");
     });
 
@@ -814,10 +1545,15 @@ describe("UserService", () => {
       );
 
       await expect(
-        UserService.updateUserProfile(mockUser, {
-          email: "new@example.com",
-          redirectUrl: "https://example.com/verify",
-        })
+        UserService.updateUserProfile(
+          mockUser,
+          {
+            email: "new@example.com",
+            redirectUrl: "https://example.com/verify",
+            currentPassword: "Password123!",
+          },
+          "session123"
+        )
       ).rejects.toThrow("Email service error");
 
       // Verify rollback was called (second update call)
@@ -841,10 +1577,40 @@ describe("UserService", () => {
       mockedPrisma.user.findFirst.mockResolvedValue(existingUser);
 
       await expect(
-        UserService.updateUserProfile(mockUser, { phone: "+1234567890" })
+        UserService.updateUserProfile(
+          mockUser,
+          { phone: "+1234567890" },
+          "session123"
+        )
       ).rejects.toThrow("Phone number is already taken");
     });
 
+    it("should start OTP verification when the phone number changes", async () => {
+      const mockUser = createMockUser();
+      const pendingUser = createMockUser({
+        phoneInfo: { isVerified: false, pendingPhone: "+1234567890" },
+      });
+
+      mockedPrisma.user.findFirst.mockResolvedValue(null);
+      mockedPhoneService.startPhoneVerification.mockResolvedValue(pendingUser);
+
+      const result = await UserService.updateUserProfile(
+        mockUser,
+        {
+          phone: "+1234567890",
+        },
+        "session123"
+      );
+
+      expect(mockedPhoneService.startPhoneVerification).toHaveBeenCalledWith(
+        mockUser,
+        "+1234567890"
+      );
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+      expect(result.user).toBe(pendingUser);
+      expect(result.message).toContain("Verification code sent");
+    });
+
     it("should update multiple fields at once", async () => {
       const mockUser = createMockUser();
       const updatedUser = createMockUser({
@@ -860,10 +1626,15 @@ describe("UserService", () => {
       mockedPrisma.user.update.mockResolvedValue(updatedUser);
       mockedUserHelpers.hashPassword.mockResolvedValue("newhashed");
 
-      const result = await UserService.updateUserProfile(mockUser, {
-        fullname: "Jane Smith",
-        password: "newpass123",
-      });
+      const result = await UserService.updateUserProfile(
+        mockUser,
+        {
+          fullname: "Jane Smith",
+          password: "newpass123",
+          currentPassword: "Password123!",
+        },
+        "session123"
+      );
 
       expect(mockedPrisma.user.update).toHaveBeenCalledWith({
         where: { id: mockUser.id },
@@ -899,7 +1670,11 @@ describe("UserService", () => {
       mockedPrisma.user.findFirst.mockResolvedValue(existingUser);
 
       await expect(
-        UserService.updateUserProfile(mockUser, { email: "taken@example.com" })
+        UserService.updateUserProfile(
+          mockUser,
+          { email: "taken@example.com", currentPassword: "Password123!" },
+          "session123"
+        )
       ).rejects.toThrow("Email is already taken");
     });
 
@@ -908,7 +1683,11 @@ describe("UserService", () => {
 
       mockedPrisma.user.findFirst.mockResolvedValue(null);
 
-      const result = await UserService.updateUserProfile(mockUser, {});
+      const result = await UserService.updateUserProfile(
+        mockUser,
+        {},
+        "session123"
+      );
 
       // Should not call update if no fields to update
       expect(mockedPrisma.user.update).not.toHaveBeenCalled();
@@ -917,5 +1696,263 @@ describe("UserService", () => {
         message: "Profile updated successfully",
       });
     });
+
+    it("should sign out other sessions after a password change", async () => {
+      const mockUser = createMockUser();
+
+      mockedPrisma.user.findFirst.mockResolvedValue(null);
+      mockedPrisma.user.update.mockResolvedValue(mockUser);
+      mockedUserHelpers.hashPassword.mockResolvedValue("newhashed");
+
+      await UserService.updateUserProfile(
+        mockUser,
+        { password: "newpassword123", currentPassword: "Password123!" },
+        "session123"
+      );
+
+      expect(mockedUserHelpers.comparePassword).toHaveBeenCalledWith(
+        "hashedpassword",
+        "Password123!"
+      );
+      expect(mockedSessionService.revokeAllUserSessions).toHaveBeenCalledWith(
+        mockUser.id,
+        "session123"
+      );
+    });
+
+    it("should require the current password to change the email", async () => {
+      await expect(
+        UserService.updateUserProfile(
+          createMockUser(),
+          {
+            email: "new@example.com",
+            redirectUrl: "https://example.com/verify",
+          },
+          "session123"
+        )
+      ).rejects.toMatchObject({
+        code: 403,
+        reason: "current_password_required",
+      });
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject a wrong current password and count the attempt", async () => {
+      mockedUserHelpers.comparePassword.mockResolvedValue(false);
+      mockedPrisma.user.update.mockResolvedValue({} as any);
+
+      await expect(
+        UserService.updateUserProfile(
+          createMockUser(),
+          { password: "newpassword123", currentPassword: "wrong" },
+          "session123",
+          undefined,
+          { ipAddress: "127.0.0.1" }
+        )
+      ).rejects.toMatchObject({
+        code: 401,
+        reason: "invalid_current_password",
+      });
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: "507f1f77bcf86cd799439011" },
+        data: {
+          lockoutInfo: expect.objectContaining({ failedAttemptCount: 1 }),
+        },
+      });
+      expect(mockedAuditService.recordAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "password_change",
+          outcome: "failure",
+          ipAddress: "127.0.0.1",
+        })
+      );
+      expect(mockedUserHelpers.hashPassword).not.toHaveBeenCalled();
+    });
+
+    it("should not check the current password while the account is locked", async () => {
+      const mockUser = createMockUser({
+        lockoutInfo: {
+          isLocked: true,
+          lockedUntil: new Date(Date.now() + 60_000),
+          failedAttemptCount: 5,
+          lockCount: 1,
+        },
+      });
+
+      await expect(
+        UserService.updateUserProfile(
+          mockUser,
+          { password: "newpassword123", currentPassword: "wrong" },
+          "session123"
+        )
+      ).rejects.toMatchObject({ code: 423 });
+      expect(mockedUserHelpers.comparePassword).not.toHaveBeenCalled();
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+      expect(mockedEmailService.sendEmail).not.toHaveBeenCalled();
+    });
+
+    it("should let an account without a password change it right after signing in", async () => {
+      const mockUser = createMockUser({
+        passwordInfo: { hash: null, resetToken: null, resetExpires: null },
+      });
+
+      mockedJwtHelper.isRecentAuthTime.mockReturnValue(true);
+      mockedPrisma.user.update.mockResolvedValue(mockUser);
+      mockedUserHelpers.hashPassword.mockResolvedValue("newhashed");
+
+      const result = await UserService.updateUserProfile(
+        mockUser,
+        { password: "newpassword123" },
+        "session123",
+        1700000000
+      );
+
+      expect(mockedJwtHelper.isRecentAuthTime).toHaveBeenCalledWith(
+        1700000000,
+        300
+      );
+      expect(result.message).toBe("Password updated successfully");
+    });
+
+    it("should ask an account without a password to sign in again", async () => {
+      mockedJwtHelper.isRecentAuthTime.mockReturnValue(false);
+
+      await expect(
+        UserService.updateUserProfile(
+          createMockUser({
+            passwordInfo: { hash: null, resetToken: null, resetExpires: null },
+          }),
+          { password: "newpassword123" },
+          "session123",
+          1700000000
+        )
+      ).rejects.toMatchObject({
+        code: 403,
+        reason: "reauthentication_required",
+      });
+    });
+  });
+
+  describe("revertEmailChange", () => {
+    const mockUser = createMockUser({
+      emailInfo: {
+        isVerified: true,
+        verificationToken: null,
+        verificationExpires: null,
+        pendingEmail: null,
+        provider: "local",
+      },
+    });
+
+    // Request an email change and return the token from the old address's notice
+    const requestEmailChange = async (): Promise<string> => {
+      mockedUserHelpers.comparePassword.mockResolvedValue(true);
+      mockedPrisma.user.findFirst.mockResolvedValue(null);
+      mockedPrisma.user.update.mockResolvedValue(mockUser);
+      mockedEmailService.sendEmail.mockResolvedValue();
+
+      await UserService.updateUserProfile(
+        mockUser,
+        {
+          email: "new@example.com",
+          redirectUrl: "https://example.com/verify",
+          currentPassword: "Password123!",
+        },
+        "session123"
+      );
+
+      const [, notice] = mockedEmailService.sendEmail.mock.calls.find(
+        ([to]) => to === "john@example.com"
+      )!;
+      // The link is HTML-escaped, so only the hex token is matched
+      const [token] = notice.html.match(/[a-f0-9]{64}/)!;
+
+      jest.clearAllMocks();
+      return token;
+    };
+
+    it("should cancel a pending email change", async () => {
+      const token = await requestEmailChange();
+      mockedPrisma.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        emailInfo: {
+          ...mockUser.emailInfo,
+          pendingEmail: "new@example.com",
+          verificationToken: "hashed-token",
+          verificationExpires: new Date(),
+        },
+      });
+
+      const result = await UserService.revertEmailChange(token);
+
+      expect(result).toEqual({
+        userId: mockUser.id,
+        service: "examaxis",
+        previousEmail: "john@example.com",
+        wasCompleted: false,
+      });
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: {
+          emailInfo: {
+            ...mockUser.emailInfo,
+            pendingEmail: null,
+            verificationToken: null,
+            verificationExpires: null,
+          },
+        },
+      });
+      expect(mockedSessionService.revokeAllUserSessions).toHaveBeenCalledWith(
+        mockUser.id
+      );
+    });
+
+    it("should restore the old address after a completed change", async () => {
+      const token = await requestEmailChange();
+      mockedPrisma.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        email: "new@example.com",
+      });
+      mockedPrisma.user.findFirst.mockResolvedValue(null);
+
+      const result = await UserService.revertEmailChange(token);
+
+      expect(result.wasCompleted).toBe(true);
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: expect.objectContaining({
+          email: "john@example.com",
+          passwordInfo: expect.objectContaining({ resetRequired: true }),
+        }),
+      });
+      expect(mockedSessionService.revokeAllUserSessions).toHaveBeenCalled();
+    });
+
+    it("should reject restoring an address another account now uses", async () => {
+      const token = await requestEmailChange();
+      mockedPrisma.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        email: "new@example.com",
+      });
+      mockedPrisma.user.findFirst.mockResolvedValue(
+        createMockUser({ id: "other-user" })
+      );
+
+      await expect(UserService.revertEmailChange(token)).rejects.toMatchObject({
+        code: 409,
+      });
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it("should accept an undo link only once", async () => {
+      const token = await requestEmailChange();
+      mockedPrisma.user.findUnique.mockResolvedValue(mockUser);
+
+      await UserService.revertEmailChange(token);
+
+      await expect(UserService.revertEmailChange(token)).rejects.toMatchObject({
+        code: 400,
+      });
+    });
   });
 });
@@ -1,4 +1,12 @@
-import { generateRandomString, hashData } from "../../src/utils/crypto";
+import {
+  createPkceChallenge,
+  decryptData,
+  encryptData,
+  generateNumericCode,
+  generateRandomString,
+  hashData,
+  verifyPkceChallenge,
+} from "../../src/utils/crypto";
 
 describe("Crypto Utils", () => {
   describe("generateRandomString", () => {
@@ -44,6 +52,16 @@ describe("Crypto Utils", () => {
     });
   });
 
+  describe("generateNumericCode", () => {
+    it("should generate a 6-digit code by default", () => {
+      expect(generateNumericCode()).toMatch(/^\d{6}$/);
+    });
+
+    it("should generate a code with custom length", () => {
+      expect(generateNumericCode(8)).toMatch(/^\d{8}$/);
+    });
+  });
+
   describe("hashData", () => {
     it("should hash data consistently", () => {
       const data = "test data";
@@ -84,4 +102,48 @@ describe("Crypto Utils", () => {
       expect(hash).toMatch(/^[a-f0-9]{64}$/);
     });
   });
+
+  describe("PKCE", () => {
+    // Example from RFC 7636 appendix B
+    const verifier = "dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk";
+    const challenge = "E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM";
+
+    it("should derive the S256 challenge from a verifier", () => {
+      expect(createPkceChallenge(verifier)).toBe(challenge);
+    });
+
+    it("should verify only the matching verifier", () => {
+      expect(verifyPkceChallenge(verifier, challenge)).toBe(true);
+      expect(verifyPkceChallenge(`${verifier}x`, challenge)).toBe(false);
+      expect(verifyPkceChallenge(verifier, "short")).toBe(false);
+    });
+  });
+
+  describe("encryptData / decryptData", () => {
+    it("should round-trip data with the same secret", () => {
+      const encrypted = encryptData("JBSWY3DPEHPK3PXP", "secret-key");
+
+      expect(encrypted).not.toContain("JBSWY3DPEHPK3PXP");
+      expect(decryptData(encrypted, "secret-key")).toBe("JBSWY3DPEHPK3PXP");
+    });
+
+    it("should produce different ciphertexts for the same data", () => {
+      const first = encryptData("data", "secret-key");
+      const second = encryptData("data", "secret-key");
+
+      expect(first).not.toBe(second);
+    });
+
+    it("should fail to decrypt with a different secret", () => {
+      const encrypted = encryptData("data", "secret-key");
+
+      expect(() => decryptData(encrypted, "other-key")).toThrow();
+    });
+
+    it("should reject malformed payloads", () => {
+      expect(() => decryptData("not-encrypted", "secret-key")).toThrow(
+        "Malformed encrypted payload"
+      );
+    });
+  });
 });